@@ -1,13 +1,23 @@
+import { BenefactorsScreen } from '@/components/BenefactorsScreen';
+import { CollectionPointsScreen } from '@/components/CollectionPointsScreen';
 import { DonationForm } from '@/components/DonationForm';
+import { DonationImportScreen } from '@/components/DonationImportScreen';
 import { DonationList } from '@/components/DonationList';
 import { ExpenseForm } from '@/components/ExpenseForm';
+import { ExchangeRatesScreen } from '@/components/ExchangeRatesScreen';
 import { ExpenseList } from '@/components/ExpenseList';
+import { ReceiptBooksScreen } from '@/components/ReceiptBooksScreen';
+import { ReportsScreen } from '@/components/ReportsScreen';
 import SettingsScreen from '@/components/SettingsScreen';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useExpenseSync } from '@/hooks/useExpenseSync';
 import { useSync } from '@/hooks/useSync';
 import { databaseService } from '@/services/DatabaseService';
+import { HistoricalSyncService } from '@/services/HistoricalSyncService';
+import { syncScheduler } from '@/services/SyncScheduler';
+import { BASE_CURRENCY, formatMoney } from '@/utils/currency';
+import { formatAmount, subtractMoney, ZERO_MONEY } from '@/utils/money';
 import Bugsnag from '@bugsnag/expo';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useState } from 'react';
@@ -20,14 +30,14 @@ interface HomeScreenProps {
 
 export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
   const [dbReady, setDbReady] = useState(false);
-  const [currentView, setCurrentView] = useState<'main' | 'list' | 'form' | 'expense-list' | 'expense-form' | 'settings' | 'reports'>('main');
+  const [currentView, setCurrentView] = useState<'main' | 'list' | 'form' | 'expense-list' | 'expense-form' | 'settings' | 'reports' | 'receipt-books' | 'benefactors' | 'exchange-rates' | 'collection-points' | 'donation-import'>('main');
   const { getStatistics, manualSync, syncStatus } = useSync();
-  const [stats, setStats] = useState({ totalDonations: 0, totalAmount: 0, pendingCount: 0 });
+  const [stats, setStats] = useState({ totalDonations: 0, totalAmount: ZERO_MONEY, pendingCount: 0 });
 
   const { getStatistics: getExpenseStats, manualSync: manualExpenseSync, syncStatus: expenseSyncStatus } = useExpenseSync();
-  const [expenseStats, setExpenseStats] = useState({ totalExpenses: 0, totalAmount: 0, pendingCount: 0 });
+  const [expenseStats, setExpenseStats] = useState({ totalExpenses: 0, totalAmount: ZERO_MONEY, pendingCount: 0 });
 
-  const [balance, setBalance] = useState(0);
+  const [balance, setBalance] = useState(ZERO_MONEY);
 
   useEffect(() => {
     databaseService.init()
@@ -68,15 +78,35 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
     }
   }, [onLayout]);
 
+  // Push pending records, then pull server changes, automatically while the
+  // home screen is mounted
+  useEffect(() => {
+    if (!dbReady) return;
+    return syncScheduler.start({
+      donations: () => manualSync({ silent: true }),
+      expenses: () => manualExpenseSync({ silent: true }),
+      pull: async () => {
+        await syncScheduler.runExclusive('pull', async () => {
+          await HistoricalSyncService.syncAllHistoricalData();
+        });
+      },
+    });
+  }, [dbReady, manualSync, manualExpenseSync]);
+
   useEffect(() => {
     if (dbReady) {
       getStatistics().then(setStats);
       getExpenseStats().then(setExpenseStats);
     }
-  }, [currentView, getStatistics, getExpenseStats, dbReady]);
+  }, [currentView, getStatistics, getExpenseStats, dbReady, syncStatus.pendingCount, expenseSyncStatus.pendingCount, syncStatus.totalRecords, expenseSyncStatus.totalExpenses]);
+
+  const lastSyncAttempt = [syncStatus.lastSyncAttempt, expenseSyncStatus.lastSyncAttempt]
+    .filter((value): value is string => !!value)
+    .sort()
+    .pop();
 
   useEffect(() => {
-    setBalance((stats.totalAmount || 0) - (expenseStats.totalAmount || 0));
+    setBalance(subtractMoney(stats.totalAmount, expenseStats.totalAmount));
   }, [stats.totalAmount, expenseStats.totalAmount]);
 
   const renderMainView = () => (
@@ -95,7 +125,7 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
           <ThemedView style={[styles.statColumn, styles.statColumnBorder]}>
             <ThemedText style={styles.statsTitle}>عطیات</ThemedText>
             <ThemedText style={styles.statsText}>{stats.totalDonations}</ThemedText>
-            <ThemedText style={styles.statsSubText}>PKR {stats.totalAmount?.toLocaleString(undefined, { maximumFractionDigits: 2 })}</ThemedText>
+            <ThemedText style={styles.statsSubText}>{formatMoney(stats.totalAmount)}</ThemedText>
             <TouchableOpacity
               style={styles.syncButtonCompact}
               onPress={async () => {
@@ -115,7 +145,7 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
           <ThemedView style={[styles.statColumn, styles.statColumnBorder]}>
             <ThemedText style={styles.statsTitle}>اخراجات</ThemedText>
             <ThemedText style={styles.statsText}>{expenseStats.totalExpenses}</ThemedText>
-            <ThemedText style={styles.statsSubText}>PKR {expenseStats.totalAmount?.toLocaleString(undefined, { maximumFractionDigits: 2 })}</ThemedText>
+            <ThemedText style={styles.statsSubText}>{formatMoney(expenseStats.totalAmount)}</ThemedText>
             <TouchableOpacity
               style={styles.syncButtonCompact}
               onPress={async () => {
@@ -134,11 +164,21 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
           {/* Balance */}
           <ThemedView style={styles.statColumn}>
             <ThemedText style={styles.statsTitle}>بیلنس</ThemedText>
-            <ThemedText style={styles.statsText}>{balance?.toLocaleString(undefined, { maximumFractionDigits: 2 })}</ThemedText>
-            <ThemedText style={styles.statsSubText}>PKR</ThemedText>
+            <ThemedText style={styles.statsText}>{formatAmount(balance)}</ThemedText>
+            <ThemedText style={styles.statsSubText}>{BASE_CURRENCY}</ThemedText>
           </ThemedView>
         </ThemedView>
 
+        {/* Connectivity and last sync */}
+        <ThemedView style={styles.connectionRow}>
+          <ThemedView style={[styles.connectionDot, syncStatus.isConnected ? styles.connectionOnline : styles.connectionOffline]} />
+          <ThemedText style={styles.connectionText}>
+            {syncStatus.isConnected ? 'آن لائن' : 'آف لائن'}
+            {' • '}
+            {lastSyncAttempt ? `آخری سنک: ${new Date(lastSyncAttempt).toLocaleString()}` : 'ابھی تک سنک نہیں ہوا'}
+          </ThemedText>
+        </ThemedView>
+
         <ThemedView style={styles.buttonContainer}>
           <ThemedView style={styles.buttonRow}>
             <TouchableOpacity
@@ -186,6 +226,38 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
               <ThemedText style={styles.buttonText}>📊 رپورٹ</ThemedText>
             </TouchableOpacity>
           </ThemedView>
+
+          <ThemedView style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.halfButton, styles.settingsButton]}
+              onPress={() => setCurrentView('receipt-books')}
+            >
+              <ThemedText style={styles.buttonText}>📚 رسید بکس</ThemedText>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.button, styles.halfButton, styles.settingsButton]}
+              onPress={() => setCurrentView('benefactors')}
+            >
+              <ThemedText style={styles.buttonText}>👥 عطیہ دہندگان</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.halfButton, styles.settingsButton]}
+              onPress={() => setCurrentView('donation-import')}
+            >
+              <ThemedText style={styles.buttonText}>📥 رسیدیں درآمد کریں</ThemedText>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.button, styles.halfButton, styles.settingsButton]}
+              onPress={() => setCurrentView('collection-points')}
+            >
+              <ThemedText style={styles.buttonText}>📍 وصولی کے مقامات</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
         </ThemedView>
       </ThemedView>
     </ThemedView>
@@ -265,6 +337,7 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
         <SettingsScreen 
           onLogout={handleLogout}
           onBack={() => setCurrentView('main')}
+          onOpenExchangeRates={() => setCurrentView('exchange-rates')}
         />
       </ThemedView>
     );
@@ -274,11 +347,52 @@ export default function HomeScreen({ onLogout, onLayout }: HomeScreenProps) {
     return (
       <ThemedView style={styles.fullContainer}>
         {renderHeader('رپورٹ')}
-        <ThemedView style={styles.container}>
-          <ThemedText style={{ textAlign: 'center', marginTop: 50 }}>
-            رپورٹ فیچر جلد آ رہا ہے...
-          </ThemedText>
-        </ThemedView>
+        <ReportsScreen />
+      </ThemedView>
+    );
+  }
+
+  if (currentView === 'receipt-books') {
+    return (
+      <ThemedView style={styles.fullContainer}>
+        {renderHeader('رسید بکس')}
+        <ReceiptBooksScreen />
+      </ThemedView>
+    );
+  }
+
+  if (currentView === 'benefactors') {
+    return (
+      <ThemedView style={styles.fullContainer}>
+        {renderHeader('عطیہ دہندگان')}
+        <BenefactorsScreen />
+      </ThemedView>
+    );
+  }
+
+  if (currentView === 'exchange-rates') {
+    return (
+      <ThemedView style={styles.fullContainer}>
+        {renderHeader('شرح مبادلہ')}
+        <ExchangeRatesScreen />
+      </ThemedView>
+    );
+  }
+
+  if (currentView === 'collection-points') {
+    return (
+      <ThemedView style={styles.fullContainer}>
+        {renderHeader('وصولی کے مقامات')}
+        <CollectionPointsScreen />
+      </ThemedView>
+    );
+  }
+
+  if (currentView === 'donation-import') {
+    return (
+      <ThemedView style={styles.fullContainer}>
+        {renderHeader('رسیدیں درآمد کریں')}
+        <DonationImportScreen onImported={() => setCurrentView('list')} />
       </ThemedView>
     );
   }
@@ -397,6 +511,29 @@ const styles = StyleSheet.create({
     marginBottom: 4,
     textAlign: 'center',
   },
+  connectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  connectionDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  connectionOnline: {
+    backgroundColor: '#4CAF50',
+  },
+  connectionOffline: {
+    backgroundColor: '#F44336',
+  },
+  connectionText: {
+    fontSize: 12,
+    color: '#666',
+  },
   syncButtonCompact: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { BackupService, MIN_PASSPHRASE_LENGTH, RestoreResult } from '../services/BackupService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+export type BackupMode = 'backup' | 'restore';
+
+const RESTORE_ERRORS: { [key in Exclude<RestoreResult['status'], 'restored'>]: string } = {
+  invalid_file: 'یہ فائل حسابِ خیر کا بیک اپ نہیں۔',
+  wrong_passphrase: 'پاس فریز غلط ہے یا فائل میں تبدیلی کی گئی ہے۔',
+  corrupt: 'بیک اپ فائل خراب ہے اور بحال نہیں ہو سکتی۔',
+  newer_version: 'یہ بیک اپ ایپ کے نئے ورژن سے بنایا گیا ہے۔ براہ کرم پہلے ایپ اپ ڈیٹ کریں۔',
+  error: 'بیک اپ بحال نہیں ہو سکا۔ موجودہ ڈیٹا میں کوئی تبدیلی نہیں ہوئی۔',
+};
+
+interface BackupModalProps {
+  mode: BackupMode | null;
+  onClose: () => void;
+  onBackedUp?: () => void;
+  onRestored?: () => void;
+}
+
+export function BackupModal({ mode, onClose, onBackedUp, onRestored }: BackupModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [file, setFile] = useState<{ uri: string; name: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const insets = useSafeAreaInsets();
+
+  // Never keep a passphrase around between openings
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+    setFile(null);
+  }, [mode]);
+
+  const createBackup = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('خرابی', `پاس فریز کم از کم ${MIN_PASSPHRASE_LENGTH} حروف کا ہونا چاہیے`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      Alert.alert('خرابی', 'دونوں پاس فریز ایک جیسے نہیں');
+      return;
+    }
+
+    setProgress(0);
+    setIsWorking(true);
+    const result = await BackupService.createBackup(passphrase, setProgress);
+    setIsWorking(false);
+
+    if (result.status === 'shared') {
+      onClose();
+      onBackedUp?.();
+    } else if (result.status === 'unavailable') {
+      Alert.alert('خرابی', 'اس ڈیوائس پر فائل شیئر کرنا دستیاب نہیں۔');
+    } else {
+      Alert.alert('خرابی', 'بیک اپ نہیں بن سکا۔ براہ کرم دوبارہ کوشش کریں۔');
+    }
+  };
+
+  const pickFile = async () => {
+    try {
+      const picked = await BackupService.pickBackupFile();
+      if (picked) setFile(picked);
+    } catch (error) {
+      console.error('Error picking backup file:', error);
+      Alert.alert('خرابی', 'فائل منتخب نہیں ہو سکی');
+    }
+  };
+
+  const restoreBackup = async () => {
+    if (!file) return;
+    setProgress(0);
+    setIsWorking(true);
+    const result = await BackupService.restoreBackup(file.uri, passphrase, setProgress);
+    setIsWorking(false);
+
+    if (result.status !== 'restored') {
+      Alert.alert('خرابی', RESTORE_ERRORS[result.status]);
+      return;
+    }
+    const createdAt = result.createdAt ? new Date(result.createdAt).toLocaleString() : '';
+    Alert.alert('کامیابی', `${createdAt} کا بیک اپ بحال ہو گیا۔`, [
+      { text: 'ٹھیک ہے', onPress: () => { onClose(); onRestored?.(); } },
+    ]);
+  };
+
+  const confirmRestore = () => {
+    Alert.alert(
+      'بیک اپ بحال کریں',
+      'اس فون پر موجود تمام عطیات اور اخراجات اس بیک اپ سے بدل دیے جائیں گے، بشمول وہ ریکارڈ جو ابھی سنک نہیں ہوئے۔ کیا آپ جاری رکھنا چاہتے ہیں؟',
+      [
+        { text: 'منسوخ کریں', style: 'cancel' },
+        { text: 'بحال کریں', style: 'destructive', onPress: restoreBackup },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={mode !== null} animationType="slide" onRequestClose={onClose}>
+      <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={isWorking}>
+            <ThemedText style={styles.closeText}>✕ بند کریں</ThemedText>
+          </TouchableOpacity>
+          <ThemedText type="subtitle">{mode === 'restore' ? 'بیک اپ بحال کریں' : 'بیک اپ بنائیں'}</ThemedText>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {mode === 'backup' ? (
+            <ThemedText style={styles.infoText}>
+              تمام عطیات، اخراجات اور رسیدوں کی تصاویر ایک فائل میں محفوظ ہوں گی جو پاس فریز سے لاک ہوگی۔
+              فائل کو گوگل ڈرائیو یا کسی دوسری جگہ محفوظ کریں۔ پاس فریز یاد رکھیں، اس کے بغیر بیک اپ بحال نہیں ہو سکتا۔
+            </ThemedText>
+          ) : (
+            <>
+              <ThemedText style={styles.infoText}>
+                بیک اپ فائل منتخب کریں اور وہ پاس فریز درج کریں جو بیک اپ بناتے وقت رکھا گیا تھا۔
+              </ThemedText>
+              <TouchableOpacity style={styles.fileButton} onPress={pickFile} disabled={isWorking}>
+                <ThemedText style={styles.fileButtonText}>📂 {file ? file.name : 'فائل منتخب کریں'}</ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <TextInput
+            style={styles.input}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="پاس فریز"
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {mode === 'backup' && (
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              placeholder="پاس فریز دوبارہ درج کریں"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+
+          {isWorking ? (
+            <View style={styles.workingRow}>
+              <ActivityIndicator size="large" color="#007AFF" />
+              <ThemedText style={styles.infoText}>
+                {mode === 'restore' ? 'بیک اپ بحال ہو رہا ہے...' : 'بیک اپ تیار ہو رہا ہے...'}
+              </ThemedText>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+              </View>
+              <ThemedText style={styles.infoText}>{Math.round(progress * 100)}%</ThemedText>
+            </View>
+          ) : mode === 'backup' ? (
+            <TouchableOpacity
+              style={[styles.actionButton, !passphrase && styles.actionButtonDisabled]}
+              onPress={createBackup}
+              disabled={!passphrase}
+            >
+              <ThemedText style={styles.actionButtonText}>💾 بیک اپ بنائیں اور شیئر کریں</ThemedText>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.restoreButton, (!file || !passphrase) && styles.actionButtonDisabled]}
+              onPress={confirmRestore}
+              disabled={!file || !passphrase}
+            >
+              <ThemedText style={styles.actionButtonText}>♻️ بحال کریں</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'right',
+  },
+  fileButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  fileButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    textAlign: 'right',
+  },
+  workingRow: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#007AFF',
+  },
+  actionButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  restoreButton: {
+    backgroundColor: '#F57C00',
+  },
+  actionButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
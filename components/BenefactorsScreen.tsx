@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useBenefactors } from '../hooks/useBenefactors';
+import { BenefactorProfile, BenefactorSummary } from '../types/data';
+import { BASE_CURRENCY, formatMoney } from '../utils/currency';
+import { formatAmount } from '../utils/money';
+import { CATEGORY_LABELS } from '../utils/receipt';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const PAGE_SIZE = 50;
+
+export function BenefactorsScreen() {
+  const { getBenefactors, getBenefactorProfile } = useBenefactors();
+  const [benefactors, setBenefactors] = useState<BenefactorSummary[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+  const [profile, setProfile] = useState<BenefactorProfile | null>(null);
+  const insets = useSafeAreaInsets();
+
+  const loadBenefactors = useCallback(async (query: string, offset = 0) => {
+    const page = await getBenefactors(PAGE_SIZE, offset, query);
+    setBenefactors(prev => (offset === 0 ? page : [...prev, ...page]));
+    setHasMore(page.length === PAGE_SIZE);
+    setLoading(false);
+  }, [getBenefactors]);
+
+  useEffect(() => {
+    loadBenefactors(searchQuery);
+  }, [searchQuery, loadBenefactors]);
+
+  const openProfile = async (phone: string) => {
+    setProfile(await getBenefactorProfile(phone));
+  };
+
+  const renderBenefactor = ({ item }: { item: BenefactorSummary }) => (
+    <TouchableOpacity style={styles.benefactorItem} onPress={() => openProfile(item.benefactor.phone)}>
+      <View style={styles.benefactorHeader}>
+        <ThemedText type="defaultSemiBold">{item.benefactor.name}</ThemedText>
+        <ThemedText type="defaultSemiBold" style={styles.amount}>{formatMoney(item.totalAmount)}</ThemedText>
+      </View>
+      <ThemedText style={styles.meta}>
+        {item.benefactor.phone} • {item.donationCount} عطیات • آخری: {new Date(item.benefactor.lastDonationAt).toLocaleDateString()}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.searchContainer}>
+        <TextInput
+          style={styles.searchInput}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="نام یا فون نمبر سے تلاش کریں"
+          placeholderTextColor="#999"
+        />
+      </ThemedView>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+      ) : (
+        <FlatList
+          data={benefactors}
+          keyExtractor={item => item.benefactor.phone}
+          renderItem={renderBenefactor}
+          contentContainerStyle={styles.listContent}
+          onEndReached={() => hasMore && loadBenefactors(searchQuery, benefactors.length)}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={<ThemedText style={styles.emptyText}>کوئی عطیہ دہندہ نہیں ملا</ThemedText>}
+        />
+      )}
+
+      {/* Profile */}
+      <Modal visible={profile !== null} animationType="slide" onRequestClose={() => setProfile(null)}>
+        <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setProfile(null)}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">عطیہ دہندہ</ThemedText>
+          </View>
+          {profile && (
+            <ScrollView contentContainerStyle={styles.listContent}>
+              <ThemedText type="subtitle" style={styles.rightText}>{profile.benefactor.name}</ThemedText>
+              <ThemedText style={styles.meta}>📞 {profile.benefactor.phone}</ThemedText>
+              {profile.benefactor.address && <ThemedText style={styles.meta}>📍 {profile.benefactor.address}</ThemedText>}
+              <ThemedText style={styles.meta}>
+                پہلا عطیہ: {new Date(profile.benefactor.firstDonationAt).toLocaleDateString()} • آخری عطیہ: {new Date(profile.benefactor.lastDonationAt).toLocaleDateString()}
+              </ThemedText>
+
+              <View style={styles.totalsRow}>
+                <View style={styles.totalBox}>
+                  <ThemedText type="defaultSemiBold">{profile.donationCount}</ThemedText>
+                  <ThemedText style={styles.meta}>عطیات</ThemedText>
+                </View>
+                <View style={styles.totalBox}>
+                  <ThemedText type="defaultSemiBold">{formatMoney(profile.totalAmount)}</ThemedText>
+                  <ThemedText style={styles.meta}>کل رقم</ThemedText>
+                </View>
+              </View>
+
+              <ThemedText type="defaultSemiBold" style={styles.rightText}>قسم کے لحاظ سے</ThemedText>
+              {profile.totalsByCategory.map(item => (
+                <View key={item.category} style={styles.row}>
+                  <ThemedText style={styles.amount}>{formatMoney(item.total)}</ThemedText>
+                  <ThemedText>{CATEGORY_LABELS[item.category]?.ur ?? item.category} ({item.count})</ThemedText>
+                </View>
+              ))}
+
+              <ThemedText type="defaultSemiBold" style={styles.rightText}>عطیات کی تاریخ</ThemedText>
+              {profile.donations.map(donation => (
+                <View key={donation.id} style={[styles.row, !!donation.voidedAt && styles.voidedRow]}>
+                  <ThemedText style={styles.amount}>
+                    {donation.currency} {formatAmount(donation.amount)}
+                    {donation.currency !== BASE_CURRENCY && donation.baseAmount !== undefined ? ` (≈ ${formatMoney(donation.baseAmount)})` : ''}
+                    {donation.voidedAt ? ' (منسوخ)' : ''}
+                  </ThemedText>
+                  <ThemedText style={styles.meta}>
+                    {new Date(donation.date).toLocaleDateString()} • {CATEGORY_LABELS[donation.category]?.ur ?? donation.category}
+                  </ThemedText>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </ThemedView>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  searchInput: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    textAlign: 'right',
+  },
+  listContent: {
+    padding: 20,
+    paddingTop: 0,
+    gap: 10,
+  },
+  benefactorItem: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 4,
+  },
+  benefactorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  amount: {
+    color: '#007AFF',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  rightText: {
+    textAlign: 'right',
+    marginTop: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  totalBox: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  voidedRow: {
+    opacity: 0.5,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCloseText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+});
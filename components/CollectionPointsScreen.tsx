@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Linking, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useCollectionPoints } from '../hooks/useCollectionPoints';
+import { formatMoney } from '../utils/currency';
+import { CollectionCluster, getMapUrl } from '../utils/geo';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+type Period = 'this-month' | 'this-year' | 'all';
+
+const PERIODS: { label: string; value: Period }[] = [
+  { label: 'یہ مہینہ', value: 'this-month' },
+  { label: 'یہ سال', value: 'this-year' },
+  { label: 'تمام', value: 'all' },
+];
+
+const CELL_SIZES_KM = [1, 5, 25];
+
+const getPeriodStart = (period: Period): string | undefined => {
+  const today = new Date();
+  switch (period) {
+    case 'this-month':
+      return new Date(today.getFullYear(), today.getMonth(), 1).toISOString();
+    case 'this-year':
+      return new Date(today.getFullYear(), 0, 1).toISOString();
+    default:
+      return undefined;
+  }
+};
+
+// Groups located donations into nearby collection points, for zone supervisors
+export function CollectionPointsScreen() {
+  const { getCollectionClusters } = useCollectionPoints();
+  const [period, setPeriod] = useState<Period>('this-month');
+  const [cellSizeKm, setCellSizeKm] = useState(CELL_SIZES_KM[0]);
+  const [clusters, setClusters] = useState<CollectionCluster[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadClusters = useCallback(async () => {
+    setClusters(await getCollectionClusters(cellSizeKm, getPeriodStart(period)));
+    setLoading(false);
+  }, [getCollectionClusters, cellSizeKm, period]);
+
+  useEffect(() => {
+    loadClusters();
+  }, [loadClusters]);
+
+  const openInMaps = async (cluster: CollectionCluster) => {
+    try {
+      await Linking.openURL(getMapUrl(cluster.latitude, cluster.longitude));
+    } catch (error) {
+      console.error('Error opening map:', error);
+      Alert.alert('خرابی', 'نقشہ نہیں کھل سکا');
+    }
+  };
+
+  const donationCount = clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+
+  const renderCluster = ({ item, index }: { item: CollectionCluster; index: number }) => (
+    <ThemedView style={styles.clusterItem}>
+      <View style={styles.clusterHeader}>
+        <ThemedText type="defaultSemiBold" style={styles.amount}>{formatMoney(item.total)}</ThemedText>
+        <ThemedText type="defaultSemiBold">📍 مقام {index + 1}</ThemedText>
+      </View>
+      <ThemedText style={styles.meta}>
+        {item.count} عطیات • آخری: {new Date(item.lastDate).toLocaleDateString()}
+      </ThemedText>
+      {item.unconverted > 0 && (
+        <ThemedText style={styles.warningText}>{item.unconverted} عطیات شرح مبادلہ نہ ہونے کی وجہ سے میزان میں شامل نہیں</ThemedText>
+      )}
+      <View style={styles.clusterFooter}>
+        <TouchableOpacity onPress={() => openInMaps(item)}>
+          <ThemedText style={styles.linkText}>🗺️ نقشے میں دیکھیں</ThemedText>
+        </TouchableOpacity>
+        <ThemedText style={styles.coordinates}>
+          {item.latitude.toFixed(4)}, {item.longitude.toFixed(4)}
+        </ThemedText>
+      </View>
+    </ThemedView>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={clusters}
+        keyExtractor={item => `${item.latitude}:${item.longitude}`}
+        renderItem={renderCluster}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <ThemedView style={styles.filters}>
+            <View style={styles.optionRow}>
+              {PERIODS.map(item => (
+                <TouchableOpacity
+                  key={item.value}
+                  style={[styles.optionButton, period === item.value && styles.optionButtonSelected]}
+                  onPress={() => setPeriod(item.value)}
+                >
+                  <ThemedText style={[styles.optionText, period === item.value && styles.optionTextSelected]}>
+                    {item.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <ThemedText style={styles.meta}>قریبی عطیات کو ایک مقام میں شمار کرنے کا فاصلہ</ThemedText>
+            <View style={styles.optionRow}>
+              {CELL_SIZES_KM.map(size => (
+                <TouchableOpacity
+                  key={size}
+                  style={[styles.optionButton, cellSizeKm === size && styles.optionButtonSelected]}
+                  onPress={() => setCellSizeKm(size)}
+                >
+                  <ThemedText style={[styles.optionText, cellSizeKm === size && styles.optionTextSelected]}>
+                    {size} کلومیٹر
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {!loading && clusters.length > 0 && (
+              <ThemedText style={styles.meta}>
+                {clusters.length} مقامات پر {donationCount} عطیات۔ مقام کے بغیر محفوظ عطیات شامل نہیں۔
+              </ThemedText>
+            )}
+          </ThemedView>
+        }
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+          ) : (
+            <ThemedText style={styles.emptyText}>اس مدت میں مقام کے ساتھ کوئی عطیہ نہیں</ThemedText>
+          )
+        }
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    gap: 12,
+  },
+  filters: {
+    gap: 10,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  loader: {
+    marginTop: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  clusterItem: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 6,
+  },
+  clusterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clusterFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  amount: {
+    color: '#4CAF50',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    textAlign: 'right',
+  },
+  coordinates: {
+    fontSize: 12,
+    color: '#999',
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+});
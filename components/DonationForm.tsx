@@ -1,10 +1,11 @@
 import DateTimePicker from '@react-native-community/datetimepicker';
 import * as SecureStore from 'expo-secure-store';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   KeyboardAvoidingView,
+  Modal,
   Platform,
   ScrollView,
   StyleSheet,
@@ -12,9 +13,23 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useBenefactors } from '../hooks/useBenefactors';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useReceiptBooks } from '../hooks/useReceiptBooks';
 import { useSync } from '../hooks/useSync';
+import { LocationService } from '../services/LocationService';
+import { Benefactor, DonationRecord, ExchangeRate } from '../types/data';
+import { BASE_CURRENCY, convertToBase, formatMoney, getCurrencyOptions } from '../utils/currency';
+import { validateDonationFields } from '../utils/donationValidation';
+import { formatMoneyInput, parseMoney, toMinorUnits } from '../utils/money';
+import { describeReceiptSerialWarning } from '../utils/receiptBooks';
+import { ZakatResult } from '../utils/zakat';
+import { ReceiptImagePicker } from './ReceiptImagePicker';
+import { ThankYouMessageModal } from './ThankYouMessageModal';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
+import { ZakatCalculator } from './ZakatCalculator';
 
 interface DonationFormData {
   amount: string;
@@ -28,9 +43,9 @@ interface DonationFormData {
   date: Date;
   bookNo?: string;
   receiptSerialNo?: string;
+  receiptImage?: string;
 }
 
-const CURRENCIES = ['PKR'];
 const CATEGORIES = [
   { label: 'خیرات', value: 'charity' },
   { label: 'زکوٰۃ', value: 'zakat' },
@@ -38,14 +53,40 @@ const CATEGORIES = [
   { label: 'دیگر', value: 'other' },
 ];
 
-export function DonationForm() {
-  const { saveDonation } = useSync();
+// Fewer characters match most benefactors (every phone starts with "03")
+const MIN_SUGGESTION_QUERY_LENGTH = 3;
+const SUGGESTION_DELAY_MS = 300;
+
+interface DonationFormProps {
+  // When given, the form edits this donation instead of creating a new one
+  donation?: DonationRecord;
+  onSaved?: (donation: DonationRecord) => void;
+}
+
+export function DonationForm({ donation, onSaved }: DonationFormProps = {}) {
+  const { saveDonation, updateDonation } = useSync();
+  const { getNextReceipt, checkSerial } = useReceiptBooks();
+  const { searchBenefactors } = useBenefactors();
+  const { getRates } = useExchangeRates();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
-  const [formData, setFormData] = useState<DonationFormData>({
+  const [formData, setFormData] = useState<DonationFormData>(donation ? {
+    amount: formatMoneyInput(donation.amount),
+    currency: donation.currency,
+    benefactorName: donation.benefactorName,
+    benefactorPhone: donation.benefactorPhone,
+    benefactorAddress: donation.benefactorAddress || '',
+    category: donation.category,
+    description: donation.description || '',
+    date: new Date(donation.date),
+    bookNo: donation.bookNo || '',
+    receiptSerialNo: donation.receiptSerialNo !== undefined ? String(donation.receiptSerialNo) : '',
+    receiptImage: donation.receiptImage,
+  } : {
     amount: '',
-    currency: 'PKR',
+    currency: BASE_CURRENCY,
     benefactorName: '',
     benefactorPhone: '',
     benefactorAddress: '',
@@ -57,6 +98,13 @@ export function DonationForm() {
   });
   const [username, setUsername] = useState('');
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [thankYouDonation, setThankYouDonation] = useState<DonationRecord | null>(null);
+  const [showZakatCalculator, setShowZakatCalculator] = useState(false);
+  const insets = useSafeAreaInsets();
+  const [suggestions, setSuggestions] = useState<{ field: 'name' | 'phone'; benefactors: Benefactor[] } | null>(null);
+  const suggestionTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped on every keystroke, so an older lookup that finishes late is ignored
+  const suggestionRequest = useRef(0);
 
   useEffect(() => {
     SecureStore.getItemAsync('username').then(val => {
@@ -64,37 +112,157 @@ export function DonationForm() {
     });
   }, []);
 
-  const handleSubmit = async () => {
-    if (!formData.amount || !formData.benefactorName || !formData.benefactorPhone) {
-      Alert.alert('خرابی', 'براہ کرم تمام ضروری خانے پُر کریں');
-      return;
+  useEffect(() => {
+    getRates().then(setRates);
+  }, [getRates]);
+
+  useEffect(() => () => {
+    if (suggestionTimer.current) clearTimeout(suggestionTimer.current);
+  }, []);
+
+  // An edited donation keeps its currency even if its rate has since been removed
+  const currencies = Array.from(new Set([...getCurrencyOptions(rates), formData.currency]));
+  const parsedAmount = parseMoney(formData.amount);
+  const baseAmountPreview = formData.currency !== BASE_CURRENCY && parsedAmount
+    ? convertToBase(parsedAmount, formData.currency, rates)
+    : undefined;
+
+  // Pre-fill the next serial from the collector's issued receipt books
+  const fillNextReceipt = useCallback(async (collector: string) => {
+    const next = await getNextReceipt(collector);
+    if (next) {
+      setFormData(prev => ({ ...prev, bookNo: next.bookNo, receiptSerialNo: String(next.serial) }));
     }
+  }, [getNextReceipt]);
 
-    // Validate international phone number: starts with +, 11-15 digits
-    if (!/^\+\d{11,15}$/.test(formData.benefactorPhone)) {
-      Alert.alert('خرابی', 'براہ کرم درست فون نمبر بین الاقوامی فارمیٹ میں درج کریں، مثلاً +923001234567');
-      return;
+  useEffect(() => {
+    if (!donation && username) {
+      fillNextReceipt(username);
     }
+  }, [donation, username, fillNextReceipt]);
+
+  const cancelSuggestions = () => {
+    if (suggestionTimer.current) clearTimeout(suggestionTimer.current);
+    suggestionTimer.current = null;
+    suggestionRequest.current += 1;
+    setSuggestions(null);
+  };
+
+  // Suggest known benefactors once typing pauses on a name or phone long enough to narrow the list
+  const updateBenefactorField = (field: 'name' | 'phone', text: string) => {
+    setFormData(prev => (field === 'name' ? { ...prev, benefactorName: text } : { ...prev, benefactorPhone: text }));
+    cancelSuggestions();
+    if (text.trim().length < MIN_SUGGESTION_QUERY_LENGTH) return;
+
+    const request = suggestionRequest.current;
+    suggestionTimer.current = setTimeout(async () => {
+      const benefactors = await searchBenefactors(text);
+      if (request !== suggestionRequest.current) return;
+      setSuggestions(benefactors.length > 0 ? { field, benefactors } : null);
+    }, SUGGESTION_DELAY_MS);
+  };
 
-    const amount = parseFloat(formData.amount);
-    if (isNaN(amount) || amount <= 0) {
-      Alert.alert('خرابی', 'براہ کرم درست رقم درج کریں');
+  const selectBenefactor = (benefactor: Benefactor) => {
+    setFormData(prev => ({
+      ...prev,
+      benefactorName: benefactor.name,
+      benefactorPhone: benefactor.phone,
+      benefactorAddress: benefactor.address || prev.benefactorAddress,
+    }));
+    cancelSuggestions();
+  };
+
+  const renderSuggestions = (field: 'name' | 'phone') =>
+    suggestions?.field === field && (
+      <ThemedView style={styles.pickerContainer}>
+        {suggestions.benefactors.map(benefactor => (
+          <TouchableOpacity key={benefactor.phone} style={styles.pickerItem} onPress={() => selectBenefactor(benefactor)}>
+            <ThemedText style={styles.pickerItemText}>{benefactor.name}</ThemedText>
+            <ThemedText style={styles.suggestionDetail}>
+              {benefactor.phone}{benefactor.address ? ` • ${benefactor.address}` : ''}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+    );
+
+  const applyZakatResult = (result: ZakatResult) => {
+    setFormData(prev => ({
+      ...prev,
+      amount: formatMoneyInput(toMinorUnits(result.zakatDue)),
+      category: 'zakat',
+      description: prev.description || `${result.netAssets.toLocaleString()} کے قابل زکوٰۃ اثاثوں پر 2.5%`,
+    }));
+    setShowZakatCalculator(false);
+  };
+
+  // Duplicate, skipped or out-of-book serials need the collector's confirmation
+  const confirmReceiptSerial = async (bookNo: string, serial: number): Promise<boolean> => {
+    const warnings = await checkSerial(bookNo, serial, donation?.id);
+    if (warnings.length === 0) return true;
+
+    return new Promise(resolve => {
+      Alert.alert(
+        'رسید سیریل نمبر',
+        warnings.map(describeReceiptSerialWarning).join('\n'),
+        [
+          { text: 'منسوخ کریں', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'پھر بھی محفوظ کریں', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateDonationFields(formData);
+    if (!validation.valid) {
+      Alert.alert('خرابی', validation.error);
       return;
     }
+    const { amount, receiptSerialNo } = validation;
+
+    setIsSubmitting(true);
 
-    let receiptSerialNo: number | undefined = undefined;
-    if (formData.receiptSerialNo && formData.receiptSerialNo.trim() !== '') {
-      receiptSerialNo = parseInt(formData.receiptSerialNo, 10);
-      if (isNaN(receiptSerialNo)) {
-        Alert.alert('خرابی', 'براہ کرم درست رسید سیریل نمبر درج کریں (صرف عدد)');
+    try {
+      if (formData.bookNo && receiptSerialNo !== undefined && !(await confirmReceiptSerial(formData.bookNo, receiptSerialNo))) {
+        setIsSubmitting(false);
         return;
       }
+    } catch (error) {
+      console.error('Error checking receipt serial:', error);
     }
 
-    setIsSubmitting(true);
+    if (donation) {
+      try {
+        const updated = await updateDonation(donation.id, {
+          amount,
+          currency: formData.currency,
+          benefactorName: formData.benefactorName,
+          benefactorPhone: formData.benefactorPhone,
+          benefactorAddress: formData.benefactorAddress || undefined,
+          category: formData.category,
+          description: formData.description || undefined,
+          date: formData.date.toISOString(),
+          bookNo: formData.bookNo || undefined,
+          receiptSerialNo,
+          receiptImage: formData.receiptImage,
+        });
+        Alert.alert('کامیابی', 'عطیہ میں تبدیلی محفوظ ہو گئی!', [
+          { text: 'ٹھیک ہے', onPress: () => onSaved?.(updated) },
+        ]);
+      } catch (error) {
+        console.error('Error updating donation:', error);
+        Alert.alert('خرابی', 'تبدیلی محفوظ نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔');
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
 
     try {
-      await saveDonation({
+      const location = await LocationService.getDonationLocation(username);
+      const saved = await saveDonation({
         amount,
         currency: formData.currency,
         benefactorName: formData.benefactorName,
@@ -106,28 +274,36 @@ export function DonationForm() {
         date: formData.date.toISOString(),
         bookNo: formData.bookNo || undefined,
         receiptSerialNo,
+        receiptImage: formData.receiptImage,
+        location,
       });
 
+      const resetForm = () => {
+        setFormData({
+          amount: '',
+          currency: BASE_CURRENCY,
+          benefactorName: '',
+          benefactorPhone: '',
+          benefactorAddress: '',
+          category: 'charity',
+          description: '',
+          date: new Date(),
+          bookNo: '',
+          receiptSerialNo: '',
+        });
+        fillNextReceipt(username);
+      };
+
       Alert.alert(
         'کامیابی',
         'عطیہ کامیابی سے محفوظ ہو گیا!۔',
         [
+          { text: 'ٹھیک ہے', onPress: resetForm },
           {
-            text: 'ٹھیک ہے',
+            text: 'شکریہ کا پیغام بھیجیں',
             onPress: () => {
-              // Reset form
-              setFormData({
-                amount: '',
-                currency: 'PKR',
-                benefactorName: '',
-                benefactorPhone: '',
-                benefactorAddress: '',
-                category: 'charity',
-                description: '',
-                date: new Date(),
-                bookNo: '',
-                receiptSerialNo: '',
-              });
+              resetForm();
+              setThankYouDonation(saved);
             },
           },
         ]
@@ -178,7 +354,7 @@ export function DonationForm() {
             {/* Currency Picker */}
             {showCurrencyPicker && (
               <ThemedView style={styles.pickerContainer}>
-                {CURRENCIES.map((currency) => (
+                {currencies.map((currency) => (
                   <TouchableOpacity
                     key={currency}
                     style={[
@@ -200,6 +376,13 @@ export function DonationForm() {
                 ))}
               </ThemedView>
             )}
+            {baseAmountPreview !== undefined && (
+              <ThemedText style={[styles.conversionText, baseAmountPreview === null && styles.conversionWarning]}>
+                {baseAmountPreview !== null
+                  ? `≈ ${formatMoney(baseAmountPreview)}`
+                  : `⚠️ ${formData.currency} کی شرح مبادلہ درج نہیں، یہ رقم میزان میں شامل نہیں ہوگی`}
+              </ThemedText>
+            )}
           </ThemedView>
 
           {/* Benefactor Name */}
@@ -208,10 +391,11 @@ export function DonationForm() {
             <TextInput
               style={styles.textInput}
               value={formData.benefactorName}
-              onChangeText={(text) => setFormData(prev => ({ ...prev, benefactorName: text }))}
+              onChangeText={(text) => updateBenefactorField('name', text)}
               placeholder="عطیہ کرنےوالے کا مکمل نام"
               editable={!isSubmitting}
             />
+            {renderSuggestions('name')}
           </ThemedView>
 
           {/* Benefactor Phone Number */}
@@ -220,12 +404,13 @@ export function DonationForm() {
             <TextInput
               style={styles.textInput}
               value={formData.benefactorPhone}
-              onChangeText={(text) => setFormData(prev => ({ ...prev, benefactorPhone: text }))}
+              onChangeText={(text) => updateBenefactorField('phone', text)}
               placeholder="+92xxxxxxxxxx"
               keyboardType="phone-pad"
               editable={!isSubmitting}
               maxLength={16}
             />
+            {renderSuggestions('phone')}
           </ThemedView>
 
           {/* Benefactor Address (Optional) */}
@@ -278,6 +463,9 @@ export function DonationForm() {
                 ))}
               </ThemedView>
             )}
+            <TouchableOpacity onPress={() => setShowZakatCalculator(true)} disabled={isSubmitting}>
+              <ThemedText style={styles.linkText}>🧮 زکوٰۃ کا حساب لگائیں</ThemedText>
+            </TouchableOpacity>
           </ThemedView>
 
           {/* Description */}
@@ -346,6 +534,16 @@ export function DonationForm() {
             />
           </ThemedView>
 
+          {/* Receipt Photo */}
+          <ThemedView style={styles.inputGroup}>
+            <ThemedText type="subtitle" style={styles.label}>رسید کی تصویر</ThemedText>
+            <ReceiptImagePicker
+              value={formData.receiptImage}
+              onChange={(receiptImage) => setFormData(prev => ({ ...prev, receiptImage }))}
+              disabled={isSubmitting}
+            />
+          </ThemedView>
+
           {/* Submit Button */}
           <TouchableOpacity
             style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
@@ -356,12 +554,31 @@ export function DonationForm() {
               <ActivityIndicator color="#fff" />
             ) : (
               <ThemedText style={styles.submitButtonText}>
-                عطیہ محفوظ کریں
+                {donation ? 'تبدیلیاں محفوظ کریں' : 'عطیہ محفوظ کریں'}
               </ThemedText>
             )}
           </TouchableOpacity>
         </ThemedView>
       </ScrollView>
+
+      <ThankYouMessageModal donation={thankYouDonation} onClose={() => setThankYouDonation(null)} />
+
+      {/* Zakat Calculator */}
+      <Modal
+        visible={showZakatCalculator}
+        animationType="slide"
+        onRequestClose={() => setShowZakatCalculator(false)}
+      >
+        <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowZakatCalculator(false)}>
+              <ThemedText style={styles.linkText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">زکوٰۃ کیلکولیٹر</ThemedText>
+          </View>
+          <ZakatCalculator onUseAmount={applyZakatResult} />
+        </ThemedView>
+      </Modal>
     </KeyboardAvoidingView>
   );
 }
@@ -444,6 +661,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'right',
   },
+  suggestionDetail: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
   pickerItemTextSelected: {
     color: '#fff',
     fontWeight: '500',
@@ -491,4 +713,25 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     fontWeight: '400',
   },
+  conversionText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  conversionWarning: {
+    color: '#D32F2F',
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+    textAlign: 'right',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
 }); 
\ No newline at end of file
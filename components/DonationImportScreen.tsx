@@ -0,0 +1,242 @@
+import * as SecureStore from 'expo-secure-store';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useDonationImport } from '../hooks/useDonationImport';
+import { formatMoney } from '../utils/currency';
+import { DonationImportPreview, DonationImportRow, IMPORT_COLUMN_LABELS } from '../utils/donationImport';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+interface DonationImportScreenProps {
+  onImported?: () => void;
+}
+
+// Bulk entry of receipts first written in paper books, from a CSV file
+export function DonationImportScreen({ onImported }: DonationImportScreenProps) {
+  const { pickImportFile, importDonations } = useDonationImport();
+  const [username, setUsername] = useState('');
+  const [preview, setPreview] = useState<DonationImportPreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    SecureStore.getItemAsync('username').then(value => {
+      if (value) setUsername(value);
+    });
+  }, []);
+
+  const validCount = preview?.rows.filter(row => row.donation).length ?? 0;
+  const invalidCount = (preview?.rows.length ?? 0) - validCount;
+
+  const pickFile = async () => {
+    setIsBusy(true);
+    try {
+      const result = await pickImportFile(username);
+      if (result) setPreview(result);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      Alert.alert('خرابی', 'فائل نہیں پڑھی جا سکی۔ براہ کرم CSV فائل منتخب کریں۔');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveRows = async () => {
+    if (!preview) return;
+    setIsBusy(true);
+    try {
+      const count = await importDonations(preview.rows);
+      setPreview(null);
+      Alert.alert('کامیابی', `${count} عطیات محفوظ ہو گئے اور سنک کے لیے تیار ہیں۔`, [
+        { text: 'ٹھیک ہے', onPress: onImported },
+      ]);
+    } catch (error) {
+      console.error('Error importing donations:', error);
+      Alert.alert('خرابی', 'عطیات محفوظ نہیں ہو سکے۔ براہ کرم دوبارہ کوشش کریں۔');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const confirmImport = () => {
+    if (invalidCount === 0) {
+      saveRows();
+      return;
+    }
+    Alert.alert(
+      'غلط سطریں',
+      `${invalidCount} سطروں میں غلطیاں ہیں اور وہ درآمد نہیں ہوں گی۔ باقی ${validCount} عطیات محفوظ کریں؟`,
+      [
+        { text: 'منسوخ کریں', style: 'cancel' },
+        { text: 'محفوظ کریں', onPress: saveRows },
+      ]
+    );
+  };
+
+  const renderRow = ({ item }: { item: DonationImportRow }) => (
+    <ThemedView style={[styles.rowItem, item.errors.length > 0 && styles.rowItemInvalid]}>
+      <View style={styles.rowHeader}>
+        <ThemedText style={styles.rowAmount}>
+          {item.donation ? formatMoney(item.donation.amount, item.donation.currency) : item.values.amount}
+        </ThemedText>
+        <ThemedText type="defaultSemiBold">
+          {item.values.benefactorName || '—'} • سطر {item.rowNumber}
+        </ThemedText>
+      </View>
+      <ThemedText style={styles.meta}>
+        {[item.values.date, item.values.benefactorPhone, item.values.bookNo && `${item.values.bookNo} / ${item.values.receiptSerialNo ?? ''}`]
+          .filter(Boolean)
+          .join(' • ')}
+      </ThemedText>
+      {item.errors.map(error => (
+        <ThemedText key={error} style={styles.errorText}>❌ {error}</ThemedText>
+      ))}
+      {item.warnings.map(warning => (
+        <ThemedText key={warning} style={styles.warningText}>⚠️ {warning}</ThemedText>
+      ))}
+    </ThemedView>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={preview?.rows ?? []}
+        keyExtractor={item => String(item.rowNumber)}
+        renderItem={renderRow}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <ThemedView style={styles.intro}>
+            <ThemedText style={styles.meta}>
+              پہلی سطر میں کالم کے عنوانات ہوں۔ ضروری کالم:{' '}
+              {IMPORT_COLUMN_LABELS.filter(column => column.required).map(column => column.label).join('، ')}۔ دیگر کالم:{' '}
+              {IMPORT_COLUMN_LABELS.filter(column => !column.required).map(column => column.label).join('، ')}۔
+            </ThemedText>
+            <ThemedText style={styles.meta}>
+              فون نمبر +923001234567 کی طرح اور تاریخ 2024-03-15 یا 15/03/2024 کی طرح لکھیں۔
+            </ThemedText>
+            <TouchableOpacity
+              style={[styles.pickButton, isBusy && styles.buttonDisabled]}
+              onPress={pickFile}
+              disabled={isBusy}
+            >
+              <ThemedText style={styles.pickButtonText}>📂 {preview ? 'دوسری فائل منتخب کریں' : 'CSV فائل منتخب کریں'}</ThemedText>
+            </TouchableOpacity>
+
+            {isBusy && <ActivityIndicator size="large" color="#007AFF" />}
+
+            {preview && preview.missingColumns.length > 0 && (
+              <ThemedText style={styles.errorText}>
+                فائل میں یہ ضروری کالم نہیں ملے: {preview.missingColumns.join('، ')}
+              </ThemedText>
+            )}
+
+            {preview && preview.missingColumns.length === 0 && (
+              <>
+                <ThemedText style={styles.summaryText}>
+                  {validCount} درست • {invalidCount} غلط
+                </ThemedText>
+                <TouchableOpacity
+                  style={[styles.importButton, (isBusy || validCount === 0) && styles.buttonDisabled]}
+                  onPress={confirmImport}
+                  disabled={isBusy || validCount === 0}
+                >
+                  <ThemedText style={styles.importButtonText}>📥 {validCount} عطیات درآمد کریں</ThemedText>
+                </TouchableOpacity>
+              </>
+            )}
+          </ThemedView>
+        }
+        ListEmptyComponent={
+          preview && preview.missingColumns.length === 0 ? (
+            <ThemedText style={styles.emptyText}>فائل میں کوئی سطر نہیں</ThemedText>
+          ) : null
+        }
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    gap: 12,
+  },
+  intro: {
+    gap: 10,
+    marginBottom: 8,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  pickButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  pickButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  rowItem: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 4,
+  },
+  rowItemInvalid: {
+    borderColor: '#D32F2F',
+    backgroundColor: '#FFF5F5',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowAmount: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    textAlign: 'right',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#F57C00',
+    textAlign: 'right',
+  },
+});
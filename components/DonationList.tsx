@@ -1,25 +1,44 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
+    Alert,
     FlatList,
+    Modal,
     RefreshControl,
+    ScrollView,
     StyleSheet,
     TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { captureRef } from 'react-native-view-shot';
 import { useSync } from '../hooks/useSync';
-import { DonationRecord } from '../types/data';
+import { ReceiptService } from '../services/ReceiptService';
+import { DonationRecord, DonationRevision } from '../types/data';
+import { BASE_CURRENCY, formatMoney } from '../utils/currency';
+import { ZERO_MONEY } from '../utils/money';
+import { describeRevisionChanges, DONATION_FIELD_LABELS } from '../utils/revisions';
+import { DonationForm } from './DonationForm';
+import { DonationReceipt } from './DonationReceipt';
+import { ThankYouMessageModal } from './ThankYouMessageModal';
+import { ReceiptThumbnail } from './ReceiptImagePicker';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 
 export function DonationList() {
-  const { getDonations, getStatistics } = useSync();
+  const { getDonations, getStatistics, voidDonation, getDonationRevisions, retryDonationSync } = useSync();
+  const [editingDonation, setEditingDonation] = useState<DonationRecord | null>(null);
+  const [historyDonation, setHistoryDonation] = useState<DonationRecord | null>(null);
+  const [revisions, setRevisions] = useState<DonationRevision[]>([]);
+  const [receiptDonation, setReceiptDonation] = useState<DonationRecord | null>(null);
+  const [thankYouDonation, setThankYouDonation] = useState<DonationRecord | null>(null);
+  const [isSharingReceipt, setIsSharingReceipt] = useState(false);
+  const receiptRef = useRef<View>(null);
   const [donations, setDonations] = useState<DonationRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [stats, setStats] = useState({ totalDonations: 0, totalAmount: 0 });
+  const [stats, setStats] = useState({ totalDonations: 0, totalAmount: ZERO_MONEY });
   const insets = useSafeAreaInsets();
   
   // Search and pagination state
@@ -130,17 +149,89 @@ export function DonationList() {
     loadDonations(currentSearchTerm, 1);
   };
 
+  const handleVoid = (donation: DonationRecord) => {
+    Alert.alert(
+      'عطیہ منسوخ کریں',
+      `کیا آپ واقعی ${donation.benefactorName} کا ${formatMoney(donation.amount, donation.currency)} کا عطیہ منسوخ کرنا چاہتے ہیں؟ یہ ریکارڈ حذف نہیں ہوگا بلکہ منسوخ شدہ کے طور پر محفوظ رہے گا۔`,
+      [
+        { text: 'واپس', style: 'cancel' },
+        {
+          text: 'منسوخ کریں',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await voidDonation(donation.id);
+              loadDonations(currentSearchTerm, currentPage);
+            } catch (error) {
+              console.error('Error voiding donation:', error);
+              Alert.alert('خرابی', 'عطیہ منسوخ نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRetrySync = async (donation: DonationRecord) => {
+    await retryDonationSync(donation.id);
+    loadDonations(currentSearchTerm, currentPage);
+  };
+
+  const openHistory = async (donation: DonationRecord) => {
+    setHistoryDonation(donation);
+    setRevisions(await getDonationRevisions(donation.id));
+  };
+
+  const closeHistory = () => {
+    setHistoryDonation(null);
+    setRevisions([]);
+  };
+
+  const shareReceipt = async (format: 'pdf' | 'image') => {
+    if (!receiptDonation) return;
+    try {
+      setIsSharingReceipt(true);
+      const shared = format === 'pdf'
+        ? await ReceiptService.sharePdf(receiptDonation)
+        : await ReceiptService.shareImage(await captureRef(receiptRef, { format: 'png', quality: 1 }));
+      if (!shared) {
+        Alert.alert('خرابی', 'رسید شیئر نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔');
+      }
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('خرابی', 'رسید شیئر نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔');
+    } finally {
+      setIsSharingReceipt(false);
+    }
+  };
+
   const renderDonationItem = ({ item }: { item: DonationRecord }) => (
-    <ThemedView style={styles.donationItem}>
+    <ThemedView style={[styles.donationItem, !!item.voidedAt && styles.donationItemVoided]}>
       {/* Header with name and amount */}
       <View style={styles.donationHeader}>
         <ThemedText type="subtitle" style={styles.benefactorName}>
           {item.benefactorName}
         </ThemedText>
-        <ThemedText type="defaultSemiBold" style={styles.amount}>
-          {item.currency} {item.amount.toFixed(2)}
+        {!!item.voidedAt && (
+          <ThemedText style={styles.voidedBadge}>منسوخ شدہ</ThemedText>
+        )}
+        <ThemedText type="defaultSemiBold" style={[styles.amount, !!item.voidedAt && styles.amountVoided]}>
+          {formatMoney(item.amount, item.currency)}
         </ThemedText>
       </View>
+      {item.currency !== BASE_CURRENCY && (
+        <ThemedText style={styles.baseAmountText}>
+          {item.baseAmount !== undefined ? `≈ ${formatMoney(item.baseAmount)}` : 'شرح مبادلہ درج نہیں، میزان میں شامل نہیں'}
+        </ThemedText>
+      )}
+      {item.receiptImage && (
+        <View style={styles.attachmentRow}>
+          {item.receiptImageStatus === 'pending' && (
+            <ThemedText style={styles.attachmentText}>تصویر اپ لوڈ ہونا باقی ہے</ThemedText>
+          )}
+          <ReceiptThumbnail fileName={item.receiptImage} />
+        </View>
+      )}
       
       {/* Contact Information and Category */}
       <View style={styles.contactInfo}>
@@ -220,16 +311,97 @@ export function DonationList() {
               styles.statusDot,
               item.syncStatus === 'synced' ? styles.statusSynced :
               item.syncStatus === 'failed' ? styles.statusFailed :
+              item.syncStatus === 'sms_sent' ? styles.statusSmsSent :
               styles.statusPending
             ]} />
             <ThemedText style={styles.statusText}>
               {item.syncStatus === 'synced' ? 'Synced' :
                item.syncStatus === 'failed' ? 'Failed' :
+               item.syncStatus === 'sms_sent' ? 'Sent by SMS' :
                'Pending'}
             </ThemedText>
           </View>
         </View>
       </View>
+
+      {/* Last sync failure */}
+      {item.syncFailure && item.syncStatus !== 'synced' && (
+        <View style={styles.syncFailureContainer}>
+          <ThemedText style={styles.syncFailureText}>
+            {item.syncStatus === 'failed' ? 'سنک ناکام' : 'سنک دوبارہ کوشش'}
+            {item.syncFailure.attempts > 0 ? ` (${item.syncFailure.attempts} کوششیں)` : ''}
+            {item.syncFailure.httpStatus ? ` • HTTP ${item.syncFailure.httpStatus}` : ''}
+          </ThemedText>
+          {item.syncFailure.lastError && (
+            <ThemedText style={styles.syncFailureText} numberOfLines={2}>
+              {item.syncFailure.lastError}
+            </ThemedText>
+          )}
+          {item.syncFailure.nextRetryAt && (
+            <ThemedText style={styles.syncFailureText}>
+              اگلی کوشش: {new Date(item.syncFailure.nextRetryAt).toLocaleString()}
+            </ThemedText>
+          )}
+        </View>
+      )}
+
+      {/* Actions */}
+      <View style={styles.actionsRow}>
+        {item.syncStatus === 'failed' && !item.voidedAt && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleRetrySync(item)}>
+            <ThemedText style={styles.actionButtonText}>🔄 دوبارہ بھیجیں</ThemedText>
+          </TouchableOpacity>
+        )}
+        {!item.voidedAt && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => setThankYouDonation(item)}>
+            <ThemedText style={styles.actionButtonText}>
+              {item.notifiedAt ? '✅ دوبارہ پیغام' : '💬 شکریہ کا پیغام'}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.actionButton} onPress={() => setReceiptDonation(item)}>
+          <ThemedText style={styles.actionButtonText}>🧾 رسید</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => openHistory(item)}>
+          <ThemedText style={styles.actionButtonText}>🕘 تاریخچہ</ThemedText>
+        </TouchableOpacity>
+        {!item.voidedAt && (
+          <>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleVoid(item)}>
+              <ThemedText style={[styles.actionButtonText, styles.voidActionText]}>🚫 منسوخ</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setEditingDonation(item)}>
+              <ThemedText style={styles.actionButtonText}>✏️ ترمیم</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ThemedView>
+  );
+
+  const renderRevision = (revision: DonationRevision) => (
+    <ThemedView key={revision.id} style={styles.revisionItem}>
+      <View style={styles.revisionHeader}>
+        <ThemedText style={styles.revisionMeta}>
+          {new Date(revision.changedAt).toLocaleString()} • {revision.changedBy}
+        </ThemedText>
+        <ThemedText style={styles.revisionAction}>
+          {revision.action === 'void' ? 'منسوخی' : 'ترمیم'}
+        </ThemedText>
+      </View>
+      {describeRevisionChanges(revision, DONATION_FIELD_LABELS).map(change => (
+        <ThemedText key={change.key} style={styles.revisionChange}>
+          {change.label}: {change.from} ← {change.to}
+        </ThemedText>
+      ))}
+      {revision.syncStatus === 'pending' && (
+        <ThemedText style={styles.revisionPending}>سرور پر بھیجنا باقی ہے</ThemedText>
+      )}
+      {revision.syncStatus === 'failed' && (
+        <ThemedText style={styles.syncFailureText}>
+          ترمیم سنک نہیں ہو سکی، دستی سنک پر دوبارہ بھیجی جائے گی{revision.syncFailure?.lastError ? `: ${revision.syncFailure.lastError}` : ''}
+        </ThemedText>
+      )}
     </ThemedView>
   );
 
@@ -291,7 +463,7 @@ export function DonationList() {
             <ThemedText style={styles.statLabel}>کل عطیات</ThemedText>
           </ThemedView>
           <ThemedView style={styles.statItem}>
-            <ThemedText type="subtitle">PKR {stats.totalAmount?.toLocaleString(undefined, { maximumFractionDigits: 2 })}</ThemedText>
+            <ThemedText type="subtitle">{formatMoney(stats.totalAmount)}</ThemedText>
             <ThemedText style={styles.statLabel}>کل رقم</ThemedText>
           </ThemedView>
         </View>
@@ -361,6 +533,95 @@ export function DonationList() {
           {renderPaginationControls()}
         </>
       )}
+
+      {/* Edit Donation */}
+      <Modal
+        visible={editingDonation !== null}
+        animationType="slide"
+        onRequestClose={() => setEditingDonation(null)}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setEditingDonation(null)}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">عطیہ میں ترمیم</ThemedText>
+          </View>
+          {editingDonation && (
+            <DonationForm
+              donation={editingDonation}
+              onSaved={() => {
+                setEditingDonation(null);
+                loadDonations(currentSearchTerm, currentPage);
+              }}
+            />
+          )}
+        </ThemedView>
+      </Modal>
+
+      {/* Revision History */}
+      <Modal
+        visible={historyDonation !== null}
+        animationType="slide"
+        onRequestClose={closeHistory}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={closeHistory}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">تبدیلیوں کا تاریخچہ</ThemedText>
+          </View>
+          <ScrollView contentContainerStyle={styles.revisionList}>
+            {revisions.length === 0 ? (
+              <ThemedText style={styles.emptyText}>اس عطیہ میں کوئی تبدیلی نہیں کی گئی</ThemedText>
+            ) : (
+              revisions.map(renderRevision)
+            )}
+          </ScrollView>
+        </ThemedView>
+      </Modal>
+
+      <ThankYouMessageModal
+        donation={thankYouDonation}
+        onClose={() => setThankYouDonation(null)}
+        onSent={updated => setDonations(prev => prev.map(item => (item.id === updated.id ? updated : item)))}
+      />
+
+      {/* Receipt */}
+      <Modal
+        visible={receiptDonation !== null}
+        animationType="slide"
+        onRequestClose={() => setReceiptDonation(null)}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setReceiptDonation(null)}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">رسید</ThemedText>
+          </View>
+          <ScrollView contentContainerStyle={styles.receiptPreview}>
+            {receiptDonation && <DonationReceipt ref={receiptRef} donation={receiptDonation} />}
+          </ScrollView>
+          <View style={[styles.receiptActions, { paddingBottom: insets.bottom + 12 }]}>
+            <TouchableOpacity
+              style={[styles.searchButton, styles.receiptShareButton, isSharingReceipt && styles.receiptShareButtonDisabled]}
+              onPress={() => shareReceipt('pdf')}
+              disabled={isSharingReceipt}
+            >
+              <ThemedText style={styles.searchButtonText}>📄 PDF شیئر کریں</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.searchButton, styles.receiptShareButton, isSharingReceipt && styles.receiptShareButtonDisabled]}
+              onPress={() => shareReceipt('image')}
+              disabled={isSharingReceipt}
+            >
+              <ThemedText style={styles.searchButtonText}>🖼️ تصویر شیئر کریں</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+      </Modal>
     </ThemedView>
   );
 }
@@ -600,6 +861,9 @@ const styles = StyleSheet.create({
   statusFailed: {
     backgroundColor: '#F44336',
   },
+  statusSmsSent: {
+    backgroundColor: '#2196F3',
+  },
   statusText: {
     fontSize: 12,
     color: '#666',
@@ -693,4 +957,147 @@ const styles = StyleSheet.create({
   paginationButtonTextDisabled: {
     color: '#999',
   },
+  donationItemVoided: {
+    opacity: 0.6,
+    borderColor: '#F44336',
+  },
+  voidedBadge: {
+    fontSize: 12,
+    color: '#fff',
+    backgroundColor: '#F44336',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    marginRight: 8,
+    overflow: 'hidden',
+  },
+  baseAmountText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  attachmentRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  attachmentText: {
+    fontSize: 12,
+    color: '#FF9800',
+  },
+  attachmentMissingText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    textAlign: 'right',
+    marginBottom: 8,
+  },
+  amountVoided: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  syncFailureContainer: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#FFEBEE',
+    gap: 2,
+  },
+  syncFailureText: {
+    fontSize: 12,
+    color: '#C62828',
+    textAlign: 'right',
+  },
+  actionsRow: {
+    flexWrap: 'wrap',
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+  },
+  actionButtonText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  voidActionText: {
+    color: '#F44336',
+  },
+  receiptPreview: {
+    padding: 20,
+  },
+  receiptActions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  receiptShareButton: {
+    flex: 1,
+  },
+  receiptShareButtonDisabled: {
+    opacity: 0.6,
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCloseText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  revisionList: {
+    padding: 20,
+    gap: 12,
+  },
+  revisionItem: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 4,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  revisionAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: '#888',
+  },
+  revisionChange: {
+    fontSize: 14,
+    color: '#555',
+    textAlign: 'right',
+  },
+  revisionPending: {
+    fontSize: 12,
+    color: '#FF9800',
+    textAlign: 'right',
+  },
 }); 
\ No newline at end of file
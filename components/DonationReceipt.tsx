@@ -0,0 +1,119 @@
+import React, { forwardRef } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { DonationRecord } from '../types/data';
+import { buildReceiptContent, ORGANIZATION_NAME } from '../utils/receipt';
+import { Logo } from './Logo';
+
+interface DonationReceiptProps {
+  donation: DonationRecord;
+}
+
+// On-screen receipt. Plain Views with a fixed light palette, so the image
+// captured from it looks the same in dark mode.
+export const DonationReceipt = forwardRef<View, DonationReceiptProps>(({ donation }, ref) => {
+  const content = buildReceiptContent(donation);
+
+  return (
+    <View ref={ref} collapsable={false} style={styles.receipt}>
+      <Logo size="medium" />
+      <Text style={styles.organization}>{ORGANIZATION_NAME.ur} · {ORGANIZATION_NAME.en}</Text>
+      <Text style={styles.title}>{content.title.ur} · {content.title.en}</Text>
+
+      <Text style={styles.amount}>{content.amount}</Text>
+      <Text style={styles.words}>{content.amountInWords.en}</Text>
+      <Text style={[styles.words, styles.urdu]}>{content.amountInWords.ur}</Text>
+
+      <View style={styles.rows}>
+        {content.rows.map(row => (
+          <View key={row.en} style={styles.row}>
+            <Text style={styles.labelEnglish}>{row.en}</Text>
+            <Text style={styles.value}>{row.value}</Text>
+            <Text style={[styles.labelUrdu, styles.urdu]}>{row.ur}</Text>
+          </View>
+        ))}
+      </View>
+
+      {content.voided && <Text style={styles.voided}>VOID / منسوخ</Text>}
+      <Text style={styles.footer}>جزاک اللہ خیر · Thank you for your donation</Text>
+    </View>
+  );
+});
+
+DonationReceipt.displayName = 'DonationReceipt';
+
+const styles = StyleSheet.create({
+  receipt: {
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#007AFF',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  organization: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#222',
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 4,
+  },
+  amount: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#007AFF',
+    marginTop: 16,
+  },
+  words: {
+    fontSize: 12,
+    color: '#444',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  urdu: {
+    writingDirection: 'rtl',
+  },
+  rows: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+    gap: 8,
+  },
+  labelEnglish: {
+    width: '28%',
+    fontSize: 13,
+    color: '#666',
+  },
+  value: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#222',
+    textAlign: 'center',
+  },
+  labelUrdu: {
+    width: '28%',
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  voided: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#F44336',
+    marginTop: 12,
+  },
+  footer: {
+    fontSize: 11,
+    color: '#888',
+    marginTop: 16,
+  },
+});
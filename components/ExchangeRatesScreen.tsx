@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { ExchangeRate } from '../types/data';
+import { BASE_CURRENCY, isValidCurrencyCode, normalizeCurrencyCode } from '../utils/currency';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const emptyRateForm = { currency: '', rate: '' };
+
+export function ExchangeRatesScreen() {
+  const { getRates, saveRate, deleteRate, importRates, getUnconvertedCurrencies } = useExchangeRates();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [unconverted, setUnconverted] = useState<{ currency: string; count: number }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rateForm, setRateForm] = useState(emptyRateForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRates = useCallback(async () => {
+    const [exchangeRates, unconvertedCurrencies] = await Promise.all([getRates(), getUnconvertedCurrencies()]);
+    setRates(exchangeRates);
+    setUnconverted(unconvertedCurrencies);
+    setLoading(false);
+  }, [getRates, getUnconvertedCurrencies]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleSave = async () => {
+    const currency = normalizeCurrencyCode(rateForm.currency);
+    const rate = parseFloat(rateForm.rate);
+    if (!isValidCurrencyCode(currency) || currency === BASE_CURRENCY) {
+      Alert.alert('خرابی', `براہ کرم تین حرفی کرنسی کوڈ درج کریں (مثلاً USD)، ${BASE_CURRENCY} کے علاوہ`);
+      return;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      Alert.alert('خرابی', 'براہ کرم درست شرح درج کریں');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveRate(currency, rate);
+      setRateForm(emptyRateForm);
+      await loadRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      Alert.alert('خرابی', 'شرح محفوظ نہیں ہو سکی');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsSaving(true);
+      const result = await importRates();
+      if (!result) return;
+      await loadRates();
+      Alert.alert(
+        result.imported > 0 ? 'کامیاب' : 'خرابی',
+        [`${result.imported} شرحیں امپورٹ ہو گئیں`, ...result.errors].join('\n')
+      );
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      Alert.alert('خرابی', 'فائل امپورٹ نہیں ہو سکی');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (item: ExchangeRate) => {
+    Alert.alert(
+      'شرح حذف کریں',
+      `کیا آپ ${item.currency} کی شرح حذف کرنا چاہتے ہیں؟ پہلے سے درج رقوم کی تبدیل شدہ رقم برقرار رہے گی۔`,
+      [
+        { text: 'منسوخ', style: 'cancel' },
+        {
+          text: 'حذف کریں',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRate(item.currency);
+              await loadRates();
+            } catch (error) {
+              console.error('Error deleting exchange rate:', error);
+              Alert.alert('خرابی', 'شرح حذف نہیں ہو سکی');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRate = ({ item }: { item: ExchangeRate }) => (
+    <ThemedView style={styles.rateItem}>
+      <View style={styles.rateHeader}>
+        <TouchableOpacity onPress={() => handleDelete(item)}>
+          <ThemedText style={styles.deleteText}>🗑️</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setRateForm({ currency: item.currency, rate: String(item.rate) })}>
+          <ThemedText type="defaultSemiBold">
+            1 {item.currency} = {BASE_CURRENCY} {item.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+      <ThemedText style={styles.meta}>آخری تبدیلی: {new Date(item.updatedAt).toLocaleString()}</ThemedText>
+    </ThemedView>
+  );
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={rates}
+        keyExtractor={item => item.currency}
+        renderItem={renderRate}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <ThemedView style={styles.rateForm}>
+            <ThemedText style={styles.meta}>
+              تمام میزان اور بیلنس {BASE_CURRENCY} میں دکھائے جاتے ہیں۔ ہر ریکارڈ اسی شرح پر محفوظ رہتا ہے جس پر وہ پہلی بار تبدیل ہوا۔
+            </ThemedText>
+            {unconverted.length > 0 && (
+              <ThemedText style={styles.warningText}>
+                ⚠️ شرح نہ ہونے کی وجہ سے میزان میں شامل نہیں:{' '}
+                {unconverted.map(item => `${item.currency} (${item.count})`).join('، ')}
+              </ThemedText>
+            )}
+
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.textInput, styles.rateInput]}
+                value={rateForm.rate}
+                onChangeText={text => setRateForm(prev => ({ ...prev, rate: text }))}
+                placeholder={`شرح (${BASE_CURRENCY})`}
+                keyboardType="numeric"
+                editable={!isSaving}
+              />
+              <TextInput
+                style={[styles.textInput, styles.currencyInput]}
+                value={rateForm.currency}
+                onChangeText={text => setRateForm(prev => ({ ...prev, currency: text }))}
+                placeholder="USD"
+                autoCapitalize="characters"
+                maxLength={3}
+                editable={!isSaving}
+              />
+            </View>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, styles.importButton, isSaving && styles.buttonDisabled]}
+                onPress={handleImport}
+                disabled={isSaving}
+              >
+                <ThemedText style={styles.buttonText}>📂 فائل سے امپورٹ</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, isSaving && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                <ThemedText style={styles.buttonText}>شرح محفوظ کریں</ThemedText>
+              </TouchableOpacity>
+            </View>
+            <ThemedText style={styles.meta}>فائل میں ہر سطر پر کرنسی اور شرح لکھیں، مثلاً USD,278.5</ThemedText>
+          </ThemedView>
+        }
+        ListEmptyComponent={<ThemedText style={styles.emptyText}>ابھی تک کوئی شرح درج نہیں کی گئی</ThemedText>}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 20,
+    gap: 12,
+  },
+  rateForm: {
+    gap: 10,
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    textAlign: 'right',
+  },
+  rateInput: {
+    flex: 2,
+  },
+  currencyInput: {
+    flex: 1,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  rateItem: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 6,
+  },
+  rateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  deleteText: {
+    fontSize: 18,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,103 @@
+import React from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { ExpenseChangeReason } from '../types/data';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+export const EXPENSE_CHANGE_REASONS: { label: string; value: ExpenseChangeReason }[] = [
+  { label: 'غلط رقم', value: 'wrong_amount' },
+  { label: 'غلط قسم', value: 'wrong_category' },
+  { label: 'غلط تاریخ', value: 'wrong_date' },
+  { label: 'دوہرا اندراج', value: 'duplicate' },
+  { label: 'غلطی سے درج ہوا', value: 'entered_by_mistake' },
+  { label: 'دیگر', value: 'other' },
+];
+
+export const getExpenseChangeReasonLabel = (reason: ExpenseChangeReason) =>
+  EXPENSE_CHANGE_REASONS.find(item => item.value === reason)?.label || reason;
+
+interface ExpenseChangeReasonPickerProps {
+  reasonCode: ExpenseChangeReason | null;
+  reasonNote: string;
+  onChangeReason: (reason: ExpenseChangeReason) => void;
+  onChangeNote: (note: string) => void;
+  disabled?: boolean;
+}
+
+export function ExpenseChangeReasonPicker({
+  reasonCode,
+  reasonNote,
+  onChangeReason,
+  onChangeNote,
+  disabled,
+}: ExpenseChangeReasonPickerProps) {
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="subtitle" style={styles.label}>تبدیلی کی وجہ *</ThemedText>
+      <View style={styles.reasonGrid}>
+        {EXPENSE_CHANGE_REASONS.map(reason => (
+          <TouchableOpacity
+            key={reason.value}
+            style={[styles.reasonItem, reasonCode === reason.value && styles.reasonItemSelected]}
+            onPress={() => onChangeReason(reason.value)}
+            disabled={disabled}
+          >
+            <ThemedText style={[styles.reasonText, reasonCode === reason.value && styles.reasonTextSelected]}>
+              {reason.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        style={styles.noteInput}
+        value={reasonNote}
+        onChangeText={onChangeNote}
+        placeholder={reasonCode === 'other' ? 'وجہ کی تفصیل (ضروری)' : 'مزید تفصیل (اختیاری)'}
+        editable={!disabled}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  label: {
+    textAlign: 'right',
+  },
+  reasonGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  reasonItem: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  reasonItemSelected: {
+    backgroundColor: '#F44336',
+    borderColor: '#F44336',
+  },
+  reasonText: {
+    fontSize: 14,
+  },
+  reasonTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    textAlign: 'right',
+  },
+});
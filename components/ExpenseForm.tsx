@@ -10,7 +10,13 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
+import { useExchangeRates } from '../hooks/useExchangeRates';
 import { useExpenseSync } from '../hooks/useExpenseSync';
+import { ExchangeRate, ExpenseChangeReason, ExpenseRecord } from '../types/data';
+import { BASE_CURRENCY, convertToBase, formatMoney, getCurrencyOptions } from '../utils/currency';
+import { formatMoneyInput, parseMoney } from '../utils/money';
+import { ExpenseChangeReasonPicker } from './ExpenseChangeReasonPicker';
+import { ReceiptImagePicker } from './ReceiptImagePicker';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 
@@ -22,9 +28,9 @@ interface ExpenseFormData {
   description: string;
   isPersonal: boolean;
   date: Date;
+  receiptImage?: string;
 }
 
-const CURRENCIES = ['PKR'];
 const CATEGORIES = [
   { label: 'دفتری سامان', value: 'office_supplies' },
   { label: 'بلز', value: 'utilities' },
@@ -39,19 +45,38 @@ const CATEGORIES = [
   { label: 'دیگر', value: 'other' },
 ];
 
-export function ExpenseForm() {
-  const { saveExpense } = useExpenseSync();
+interface ExpenseFormProps {
+  // When given, the form edits this expense instead of creating a new one
+  expense?: ExpenseRecord;
+  onSaved?: (expense: ExpenseRecord) => void;
+}
+
+export function ExpenseForm({ expense, onSaved }: ExpenseFormProps = {}) {
+  const { saveExpense, updateExpense } = useExpenseSync();
+  const { getRates } = useExchangeRates();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
-  const [formData, setFormData] = useState<ExpenseFormData>({
+  const [formData, setFormData] = useState<ExpenseFormData>(expense ? {
+    amount: formatMoneyInput(expense.amount),
+    currency: expense.currency,
+    payee: expense.payee,
+    category: expense.category,
+    description: expense.description || '',
+    isPersonal: expense.isPersonal,
+    date: new Date(expense.date),
+    receiptImage: expense.receiptImage,
+  } : {
     amount: '',
-    currency: 'PKR',
+    currency: BASE_CURRENCY,
     category: 'office_supplies',
     description: '',
     isPersonal: false,
     date: new Date(),
   });
+  const [reasonCode, setReasonCode] = useState<ExpenseChangeReason | null>(null);
+  const [reasonNote, setReasonNote] = useState('');
   const [username, setUsername] = useState('');
   const [showDatePicker, setShowDatePicker] = useState(false);
 
@@ -61,18 +86,64 @@ export function ExpenseForm() {
     });
   }, []);
 
+  useEffect(() => {
+    getRates().then(setRates);
+  }, [getRates]);
+
+  // An edited expense keeps its currency even if its rate has since been removed
+  const currencies = Array.from(new Set([...getCurrencyOptions(rates), formData.currency]));
+  const parsedAmount = parseMoney(formData.amount);
+  const baseAmountPreview = formData.currency !== BASE_CURRENCY && parsedAmount
+    ? convertToBase(parsedAmount, formData.currency, rates)
+    : undefined;
+
   const handleSubmit = async () => {
     if (!formData.amount) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
 
-    const amount = parseFloat(formData.amount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = parseMoney(formData.amount);
+    if (!amount) {
       Alert.alert('Error', 'Please enter a valid amount');
       return;
     }
 
+    // Auditors need a bill for every expense
+    if (!formData.receiptImage) {
+      Alert.alert('خرابی', 'براہ کرم بل کی تصویر شامل کریں');
+      return;
+    }
+
+    if (expense) {
+      if (!reasonCode || (reasonCode === 'other' && !reasonNote.trim())) {
+        Alert.alert('خرابی', 'براہ کرم تبدیلی کی وجہ منتخب کریں');
+        return;
+      }
+
+      setIsSubmitting(true);
+      try {
+        const updated = await updateExpense(expense.id, {
+          amount,
+          currency: formData.currency,
+          category: formData.category,
+          description: formData.description || undefined,
+          date: formData.date.toISOString(),
+          isPersonal: formData.isPersonal,
+          receiptImage: formData.receiptImage,
+        }, { reasonCode, reasonNote });
+        Alert.alert('کامیابی', 'خرچ میں تبدیلی محفوظ ہو گئی!', [
+          { text: 'ٹھیک ہے', onPress: () => onSaved?.(updated) },
+        ]);
+      } catch (error) {
+        console.error('Error updating expense:', error);
+        Alert.alert('خرابی', 'تبدیلی محفوظ نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔');
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -84,6 +155,7 @@ export function ExpenseForm() {
         description: formData.description || undefined,
         date: formData.date.toISOString(),
         isPersonal: formData.isPersonal,
+        receiptImage: formData.receiptImage,
       });
 
       Alert.alert(
@@ -95,7 +167,7 @@ export function ExpenseForm() {
             onPress: () => {
               setFormData({
                 amount: '',
-                currency: 'PKR',
+                currency: BASE_CURRENCY,
                 category: 'office_supplies',
                 description: '',
                 isPersonal: false,
@@ -139,7 +211,7 @@ export function ExpenseForm() {
           </View>
           {showCurrencyPicker && (
             <ThemedView style={styles.pickerContainer}>
-              {CURRENCIES.map((currency) => (
+              {currencies.map((currency) => (
                 <TouchableOpacity
                   key={currency}
                   style={[
@@ -161,6 +233,13 @@ export function ExpenseForm() {
               ))}
             </ThemedView>
           )}
+          {baseAmountPreview !== undefined && (
+            <ThemedText style={[styles.conversionText, baseAmountPreview === null && styles.conversionWarning]}>
+              {baseAmountPreview !== null
+                ? `≈ ${formatMoney(baseAmountPreview)}`
+                : `⚠️ ${formData.currency} کی شرح مبادلہ درج نہیں، یہ رقم میزان میں شامل نہیں ہوگی`}
+            </ThemedText>
+          )}
         </ThemedView>
 
         {/* Category */}
@@ -243,6 +322,27 @@ export function ExpenseForm() {
           )}
         </ThemedView>
 
+        {/* Bill Photo */}
+        <ThemedView style={styles.inputGroup}>
+          <ThemedText type="subtitle" style={{textAlign: 'right'}}>بل کی تصویر *</ThemedText>
+          <ReceiptImagePicker
+            value={formData.receiptImage}
+            onChange={(receiptImage) => setFormData(prev => ({ ...prev, receiptImage }))}
+            disabled={isSubmitting}
+          />
+        </ThemedView>
+
+        {/* Change reason, required when editing */}
+        {expense && (
+          <ExpenseChangeReasonPicker
+            reasonCode={reasonCode}
+            reasonNote={reasonNote}
+            onChangeReason={setReasonCode}
+            onChangeNote={setReasonNote}
+            disabled={isSubmitting}
+          />
+        )}
+
         {/* Submit Button */}
         <TouchableOpacity
           style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
@@ -253,7 +353,7 @@ export function ExpenseForm() {
             <ActivityIndicator color="#fff" />
           ) : (
             <ThemedText style={styles.submitButtonText}>
-              خرچ محفوظ کریں
+              {expense ? 'تبدیلیاں محفوظ کریں' : 'خرچ محفوظ کریں'}
             </ThemedText>
           )}
         </TouchableOpacity>
@@ -369,6 +469,14 @@ const styles = StyleSheet.create({
   toggleLabel: {
     flex: 1,
   },
+  conversionText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  conversionWarning: {
+    color: '#D32F2F',
+  },
   submitButton: {
     backgroundColor: '#F44336',
     padding: 16,
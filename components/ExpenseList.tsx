@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import {
     ActivityIndicator,
+    Alert,
     FlatList,
+    Modal,
     RefreshControl,
+    ScrollView,
     StyleSheet,
     TextInput,
     TouchableOpacity,
@@ -10,16 +13,29 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useExpenseSync } from '../hooks/useExpenseSync';
-import { ExpenseRecord } from '../types/data';
+import { ExpenseChangeReason, ExpenseRecord, ExpenseRevision } from '../types/data';
+import { BASE_CURRENCY, formatMoney } from '../utils/currency';
+import { ZERO_MONEY } from '../utils/money';
+import { describeRevisionChanges, EXPENSE_FIELD_LABELS } from '../utils/revisions';
+import { ExpenseChangeReasonPicker, getExpenseChangeReasonLabel } from './ExpenseChangeReasonPicker';
+import { ExpenseForm } from './ExpenseForm';
+import { ReceiptThumbnail } from './ReceiptImagePicker';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 
 export function ExpenseList() {
-  const { getExpenses, getStatistics } = useExpenseSync();
+  const { getExpenses, getStatistics, deleteExpense, getExpenseRevisions, retryExpenseSync } = useExpenseSync();
+  const [editingExpense, setEditingExpense] = useState<ExpenseRecord | null>(null);
+  const [deletingExpense, setDeletingExpense] = useState<ExpenseRecord | null>(null);
+  const [deleteReasonCode, setDeleteReasonCode] = useState<ExpenseChangeReason | null>(null);
+  const [deleteReasonNote, setDeleteReasonNote] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [historyExpense, setHistoryExpense] = useState<ExpenseRecord | null>(null);
+  const [revisions, setRevisions] = useState<ExpenseRevision[]>([]);
   const [expenses, setExpenses] = useState<ExpenseRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [stats, setStats] = useState({ totalExpenses: 0, totalAmount: 0 });
+  const [stats, setStats] = useState({ totalExpenses: 0, totalAmount: ZERO_MONEY });
   const insets = useSafeAreaInsets();
   
   // Search and pagination state
@@ -144,8 +160,49 @@ export function ExpenseList() {
     loadExpenses(currentSearchTerm, 1);
   };
 
+  const openDelete = (expense: ExpenseRecord) => {
+    setDeleteReasonCode(null);
+    setDeleteReasonNote('');
+    setDeletingExpense(expense);
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingExpense) return;
+    if (!deleteReasonCode || (deleteReasonCode === 'other' && !deleteReasonNote.trim())) {
+      Alert.alert('خرابی', 'براہ کرم حذف کرنے کی وجہ منتخب کریں');
+      return;
+    }
+
+    try {
+      setIsDeleting(true);
+      await deleteExpense(deletingExpense.id, { reasonCode: deleteReasonCode, reasonNote: deleteReasonNote });
+      setDeletingExpense(null);
+      loadExpenses(currentSearchTerm, currentPage);
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+      Alert.alert('خرابی', 'خرچ حذف نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleRetrySync = async (expense: ExpenseRecord) => {
+    await retryExpenseSync(expense.id);
+    loadExpenses(currentSearchTerm, currentPage);
+  };
+
+  const openHistory = async (expense: ExpenseRecord) => {
+    setHistoryExpense(expense);
+    setRevisions(await getExpenseRevisions(expense.id));
+  };
+
+  const closeHistory = () => {
+    setHistoryExpense(null);
+    setRevisions([]);
+  };
+
   const renderExpenseItem = ({ item }: { item: ExpenseRecord }) => (
-    <ThemedView style={styles.expenseItem}>
+    <ThemedView style={[styles.expenseItem, !!item.deletedAt && styles.expenseItemDeleted]}>
       {/* Header with category and amount */}
       <View style={styles.expenseHeader}>
         <View style={styles.categoryContainer}>
@@ -157,9 +214,24 @@ export function ExpenseList() {
           </ThemedText>
         </View>
         <ThemedText type="defaultSemiBold" style={styles.amount}>
-          PKR {item.amount.toFixed(2)}
+          {formatMoney(item.amount, item.currency)}
         </ThemedText>
       </View>
+      {item.currency !== BASE_CURRENCY && (
+        <ThemedText style={styles.baseAmountText}>
+          {item.baseAmount !== undefined ? `≈ ${formatMoney(item.baseAmount)}` : 'شرح مبادلہ درج نہیں، میزان میں شامل نہیں'}
+        </ThemedText>
+      )}
+      {item.receiptImage ? (
+        <View style={styles.attachmentRow}>
+          {item.receiptImageStatus === 'pending' && (
+            <ThemedText style={styles.attachmentText}>تصویر اپ لوڈ ہونا باقی ہے</ThemedText>
+          )}
+          <ReceiptThumbnail fileName={item.receiptImage} />
+        </View>
+      ) : !item.deletedAt && (
+        <ThemedText style={styles.attachmentMissingText}>⚠️ بل کی تصویر موجود نہیں</ThemedText>
+      )}
       
       {/* Body - Description only */}
       {item.description && (
@@ -194,6 +266,81 @@ export function ExpenseList() {
           </View>
         </View>
       </View>
+
+      {/* Last sync failure */}
+      {item.syncFailure && item.syncStatus !== 'synced' && (
+        <View style={styles.syncFailureContainer}>
+          <ThemedText style={styles.syncFailureText}>
+            {item.syncStatus === 'failed' ? 'سنک ناکام' : 'سنک دوبارہ کوشش'}
+            {item.syncFailure.attempts > 0 ? ` (${item.syncFailure.attempts} کوششیں)` : ''}
+            {item.syncFailure.httpStatus ? ` • HTTP ${item.syncFailure.httpStatus}` : ''}
+          </ThemedText>
+          {item.syncFailure.lastError && (
+            <ThemedText style={styles.syncFailureText} numberOfLines={2}>
+              {item.syncFailure.lastError}
+            </ThemedText>
+          )}
+          {item.syncFailure.nextRetryAt && (
+            <ThemedText style={styles.syncFailureText}>
+              اگلی کوشش: {new Date(item.syncFailure.nextRetryAt).toLocaleString()}
+            </ThemedText>
+          )}
+        </View>
+      )}
+
+      {/* Actions */}
+      <View style={styles.actionsRow}>
+        {!!item.deletedAt && (
+          <ThemedText style={styles.deletedBadge}>حذف شدہ</ThemedText>
+        )}
+        {item.syncStatus === 'failed' && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleRetrySync(item)}>
+            <ThemedText style={styles.actionButtonText}>🔄 دوبارہ بھیجیں</ThemedText>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.actionButton} onPress={() => openHistory(item)}>
+          <ThemedText style={styles.actionButtonText}>🕘 تاریخچہ</ThemedText>
+        </TouchableOpacity>
+        {!item.deletedAt && (
+          <>
+            <TouchableOpacity style={styles.actionButton} onPress={() => openDelete(item)}>
+              <ThemedText style={[styles.actionButtonText, styles.deleteActionText]}>🗑️ حذف</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setEditingExpense(item)}>
+              <ThemedText style={styles.actionButtonText}>✏️ ترمیم</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ThemedView>
+  );
+
+  const renderRevision = (revision: ExpenseRevision) => (
+    <ThemedView key={revision.id} style={styles.revisionItem}>
+      <View style={styles.revisionHeader}>
+        <ThemedText style={styles.revisionMeta}>
+          {new Date(revision.changedAt).toLocaleString()} • {revision.changedBy}
+        </ThemedText>
+        <ThemedText style={styles.revisionAction}>
+          {revision.action === 'delete' ? 'حذف' : 'ترمیم'}
+        </ThemedText>
+      </View>
+      <ThemedText style={styles.revisionReason}>
+        وجہ: {getExpenseChangeReasonLabel(revision.reasonCode)}{revision.reasonNote ? ` — ${revision.reasonNote}` : ''}
+      </ThemedText>
+      {describeRevisionChanges(revision, EXPENSE_FIELD_LABELS).map(change => (
+        <ThemedText key={change.key} style={styles.revisionChange}>
+          {change.label}: {change.from} ← {change.to}
+        </ThemedText>
+      ))}
+      {revision.syncStatus === 'pending' && (
+        <ThemedText style={styles.revisionPending}>سرور پر بھیجنا باقی ہے</ThemedText>
+      )}
+      {revision.syncStatus === 'failed' && (
+        <ThemedText style={styles.syncFailureText}>
+          ترمیم سنک نہیں ہو سکی، دستی سنک پر دوبارہ بھیجی جائے گی{revision.syncFailure?.lastError ? `: ${revision.syncFailure.lastError}` : ''}
+        </ThemedText>
+      )}
     </ThemedView>
   );
 
@@ -253,7 +400,7 @@ export function ExpenseList() {
             <ThemedText style={styles.statLabel}>کل خرچے</ThemedText>
           </ThemedView>
           <ThemedView style={styles.statItem}>
-            <ThemedText type="subtitle">PKR {stats.totalAmount?.toLocaleString(undefined, { maximumFractionDigits: 2 })}</ThemedText>
+            <ThemedText type="subtitle">{formatMoney(stats.totalAmount)}</ThemedText>
             <ThemedText style={styles.statLabel}>کل رقم</ThemedText>
           </ThemedView>
         </View>
@@ -323,6 +470,100 @@ export function ExpenseList() {
           {renderPaginationControls()}
         </>
       )}
+
+      {/* Edit Expense */}
+      <Modal
+        visible={editingExpense !== null}
+        animationType="slide"
+        onRequestClose={() => setEditingExpense(null)}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setEditingExpense(null)}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">خرچ میں ترمیم</ThemedText>
+          </View>
+          {editingExpense && (
+            <ExpenseForm
+              expense={editingExpense}
+              onSaved={() => {
+                setEditingExpense(null);
+                loadExpenses(currentSearchTerm, currentPage);
+              }}
+            />
+          )}
+        </ThemedView>
+      </Modal>
+
+      {/* Delete Expense */}
+      <Modal
+        visible={deletingExpense !== null}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setDeletingExpense(null)}
+      >
+        <View style={styles.dialogOverlay}>
+          <ThemedView style={styles.dialog}>
+            <ThemedText type="subtitle" style={styles.dialogTitle}>خرچ حذف کریں</ThemedText>
+            {deletingExpense && (
+              <ThemedText style={styles.dialogText}>
+                {getCategoryInUrdu(deletingExpense.category)} • {formatMoney(deletingExpense.amount, deletingExpense.currency)} • {new Date(deletingExpense.date).toLocaleDateString()}
+              </ThemedText>
+            )}
+            <ExpenseChangeReasonPicker
+              reasonCode={deleteReasonCode}
+              reasonNote={deleteReasonNote}
+              onChangeReason={setDeleteReasonCode}
+              onChangeNote={setDeleteReasonNote}
+              disabled={isDeleting}
+            />
+            <View style={styles.dialogButtons}>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.dialogCancelButton]}
+                onPress={() => setDeletingExpense(null)}
+                disabled={isDeleting}
+              >
+                <ThemedText style={styles.dialogCancelText}>واپس</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dialogButton, styles.dialogDeleteButton]}
+                onPress={confirmDelete}
+                disabled={isDeleting}
+              >
+                {isDeleting ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <ThemedText style={styles.dialogDeleteText}>حذف کریں</ThemedText>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ThemedView>
+        </View>
+      </Modal>
+
+      {/* Revision History */}
+      <Modal
+        visible={historyExpense !== null}
+        animationType="slide"
+        onRequestClose={closeHistory}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={closeHistory}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">تبدیلیوں کا تاریخچہ</ThemedText>
+          </View>
+          <ScrollView contentContainerStyle={styles.revisionList}>
+            {revisions.length === 0 ? (
+              <ThemedText style={styles.emptyText}>اس خرچ میں کوئی تبدیلی نہیں کی گئی</ThemedText>
+            ) : (
+              revisions.map(renderRevision)
+            )}
+          </ScrollView>
+        </ThemedView>
+      </Modal>
     </ThemedView>
   );
 }
@@ -452,6 +693,30 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#F44336',
   },
+  baseAmountText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  attachmentRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  attachmentText: {
+    fontSize: 12,
+    color: '#FF9800',
+  },
+  attachmentMissingText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    textAlign: 'right',
+    marginBottom: 8,
+  },
   amount: {
     fontSize: 18,
     fontWeight: '700',
@@ -566,6 +831,154 @@ const styles = StyleSheet.create({
   paginationButtonTextDisabled: {
     color: '#999',
   },
+  expenseItemDeleted: {
+    opacity: 0.6,
+    borderColor: '#F44336',
+  },
+  deletedBadge: {
+    fontSize: 12,
+    color: '#fff',
+    backgroundColor: '#F44336',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    overflow: 'hidden',
+    alignSelf: 'center',
+  },
+  syncFailureContainer: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#FFEBEE',
+    gap: 2,
+  },
+  syncFailureText: {
+    fontSize: 12,
+    color: '#C62828',
+    textAlign: 'right',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+  },
+  actionButtonText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  deleteActionText: {
+    color: '#F44336',
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCloseText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  dialogOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    borderRadius: 12,
+    padding: 20,
+    gap: 16,
+  },
+  dialogTitle: {
+    textAlign: 'right',
+  },
+  dialogText: {
+    fontSize: 14,
+    color: '#555',
+    textAlign: 'right',
+  },
+  dialogButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dialogButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  dialogCancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  dialogCancelText: {
+    color: '#333',
+    fontWeight: '500',
+  },
+  dialogDeleteButton: {
+    backgroundColor: '#F44336',
+  },
+  dialogDeleteText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  revisionList: {
+    padding: 20,
+    gap: 12,
+  },
+  revisionItem: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 4,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  revisionAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: '#888',
+  },
+  revisionReason: {
+    fontSize: 14,
+    color: '#F44336',
+    textAlign: 'right',
+  },
+  revisionChange: {
+    fontSize: 14,
+    color: '#555',
+    textAlign: 'right',
+  },
+  revisionPending: {
+    fontSize: 12,
+    color: '#FF9800',
+    textAlign: 'right',
+  },
   statsTextContainer: {
     flex: 1,
   },
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ExportOptions, ExportRecordType, ExportService } from '../services/ExportService';
+import { EXPENSE_CATEGORY_LABELS, ExportFormat, ExportLanguage } from '../utils/export';
+import { CATEGORY_LABELS } from '../utils/receipt';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const RECORD_TYPES: { label: string; value: ExportRecordType }[] = [
+  { label: 'عطیات', value: 'donations' },
+  { label: 'اخراجات', value: 'expenses' },
+];
+
+const FORMATS: { label: string; value: ExportFormat }[] = [
+  { label: 'Excel (XLSX)', value: 'xlsx' },
+  { label: 'CSV', value: 'csv' },
+];
+
+const LANGUAGES: { label: string; value: ExportLanguage }[] = [
+  { label: 'اردو', value: 'ur' },
+  { label: 'English', value: 'en' },
+];
+
+interface ExportModalProps {
+  visible: boolean;
+  startDate: Date;
+  endDate: Date;
+  onClose: () => void;
+  onExported?: (options: ExportOptions) => void; // called with what went into the shared file
+}
+
+// Export options for a date range chosen by the caller, e.g. on the reports screen
+export function ExportModal({ visible, startDate, endDate, onClose, onExported }: ExportModalProps) {
+  const [recordType, setRecordType] = useState<ExportRecordType>('donations');
+  const [category, setCategory] = useState<ExportOptions['category']>();
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [includePersonal, setIncludePersonal] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [language, setLanguage] = useState<ExportLanguage>('ur');
+  const [isExporting, setIsExporting] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  const categoryLabels = recordType === 'donations' ? CATEGORY_LABELS : EXPENSE_CATEGORY_LABELS;
+  const categories: { label: string; value: ExportOptions['category'] }[] = [
+    { label: 'تمام', value: undefined },
+    ...Object.entries(categoryLabels).map(([value, label]) => ({
+      label: label.ur,
+      value: value as ExportOptions['category'],
+    })),
+  ];
+
+  const selectRecordType = (value: ExportRecordType) => {
+    setRecordType(value);
+    setCategory(undefined);
+  };
+
+  const runExport = async () => {
+    const options: ExportOptions = {
+      recordType,
+      startDate,
+      endDate,
+      category,
+      includeInactive,
+      includePersonal,
+      format,
+      language,
+    };
+    setIsExporting(true);
+    const result = await ExportService.exportRecords(options);
+    setIsExporting(false);
+
+    switch (result.status) {
+      case 'shared':
+        onClose();
+        onExported?.(options);
+        break;
+      case 'empty':
+        Alert.alert('کوئی ریکارڈ نہیں', 'اس مدت اور انتخاب کے مطابق کوئی ریکارڈ موجود نہیں۔');
+        break;
+      case 'unavailable':
+        Alert.alert('خرابی', 'اس ڈیوائس پر فائل شیئر کرنا دستیاب نہیں۔');
+        break;
+      case 'error':
+        Alert.alert('خرابی', 'فائل تیار نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔');
+        break;
+    }
+  };
+
+  const renderOptions = <T,>(options: { label: string; value: T }[], selected: T, onSelect: (value: T) => void) => (
+    <View style={styles.optionRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.label}
+          style={[styles.optionButton, selected === option.value && styles.optionButtonSelected]}
+          onPress={() => onSelect(option.value)}
+        >
+          <ThemedText style={[styles.optionText, selected === option.value && styles.optionTextSelected]}>
+            {option.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>✕ بند کریں</ThemedText>
+          </TouchableOpacity>
+          <ThemedText type="subtitle">ایکسپورٹ</ThemedText>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <ThemedText style={styles.rangeText}>
+            {startDate.toLocaleDateString()} سے {endDate.toLocaleDateString()} تک
+          </ThemedText>
+
+          <ThemedText style={styles.label}>ریکارڈ</ThemedText>
+          {renderOptions(RECORD_TYPES, recordType, selectRecordType)}
+
+          <ThemedText style={styles.label}>قسم</ThemedText>
+          {renderOptions(categories, category, setCategory)}
+
+          <View style={styles.switchRow}>
+            <Switch value={includeInactive} onValueChange={setIncludeInactive} />
+            <ThemedText style={styles.switchLabel}>
+              {recordType === 'donations' ? 'منسوخ شدہ عطیات شامل کریں' : 'حذف شدہ اخراجات شامل کریں'}
+            </ThemedText>
+          </View>
+          {recordType === 'expenses' && (
+            <View style={styles.switchRow}>
+              <Switch value={includePersonal} onValueChange={setIncludePersonal} />
+              <ThemedText style={styles.switchLabel}>ذاتی اخراجات شامل کریں</ThemedText>
+            </View>
+          )}
+
+          <ThemedText style={styles.label}>فائل کی قسم</ThemedText>
+          {renderOptions(FORMATS, format, setFormat)}
+
+          <ThemedText style={styles.label}>کالم کے عنوانات</ThemedText>
+          {renderOptions(LANGUAGES, language, setLanguage)}
+
+          <TouchableOpacity
+            style={[styles.exportButton, isExporting && styles.exportButtonDisabled]}
+            onPress={runExport}
+            disabled={isExporting}
+          >
+            <ThemedText style={styles.exportButtonText}>
+              {isExporting ? 'فائل تیار ہو رہی ہے...' : '📤 ایکسپورٹ اور شیئر کریں'}
+            </ThemedText>
+          </TouchableOpacity>
+        </ScrollView>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  rangeText: {
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'right',
+  },
+  optionRow: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    fontSize: 15,
+  },
+  exportButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  exportButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,12 +1,13 @@
 import Bugsnag from '@bugsnag/expo';
 import * as Network from 'expo-network';
 import * as SecureStore from 'expo-secure-store';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, BackHandler, Button, KeyboardAvoidingView, Platform, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { API_BASE_URL } from '../constants/Config';
 import { databaseService } from '../services/DatabaseService';
-import { HistoricalSyncService } from '../services/HistoricalSyncService';
+import { formatHistoricalSyncProgress, HistoricalSyncService } from '../services/HistoricalSyncService';
 import { Logo } from './Logo';
+import { ResetDatabaseModal } from './ResetDatabaseModal';
 
 interface LoginScreenProps {
   onLoginSuccess: () => void;
@@ -20,7 +21,9 @@ export default function LoginScreen({ onLoginSuccess, onLayout }: LoginScreenPro
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState('');
+  const syncAbortController = useRef<AbortController | null>(null);
   const [isDevelopment] = useState(__DEV__); // Check if in development mode
+  const [showResetModal, setShowResetModal] = useState(false);
 
   useEffect(() => {
     Network.getNetworkStateAsync().then(state => {
@@ -84,13 +87,17 @@ export default function LoginScreen({ onLoginSuccess, onLayout }: LoginScreenPro
       try {
         console.log('Starting historical data sync after login...');
         setSyncMessage('عطیات کا ڈیٹا ڈاؤن لوڈ ہو رہا ہے...');
-        const donationsResult = await HistoricalSyncService.syncHistoricalDonations();
+        syncAbortController.current = new AbortController();
+        const result = await HistoricalSyncService.syncAllHistoricalData({
+          onProgress: progress => setSyncMessage(formatHistoricalSyncProgress(progress)),
+          signal: syncAbortController.current.signal,
+        });
+        syncAbortController.current = null;
         
-        setSyncMessage('اخراجات کا ڈیٹا ڈاؤن لوڈ ہو رہا ہے...');
-        const expensesResult = await HistoricalSyncService.syncHistoricalExpenses();
-        
-        console.log('Historical data sync completed:', { donations: donationsResult, expenses: expensesResult });
-        setSyncMessage(`مکمل! ${donationsResult} عطیات اور ${expensesResult} اخراجات ڈاؤن لوڈ ہوئے`);
+        console.log('Historical data sync completed:', result);
+        setSyncMessage(result.cancelled
+          ? 'ڈاؤن لوڈ روک دیا گیا۔ باقی ڈیٹا بعد میں خودکار طور پر ڈاؤن لوڈ ہوگا۔'
+          : `مکمل! ${result.donations} عطیات اور ${result.expenses} اخراجات ڈاؤن لوڈ ہوئے`);
         
         // Wait a moment to show completion message
         setTimeout(() => {
@@ -115,59 +122,38 @@ export default function LoginScreen({ onLoginSuccess, onLayout }: LoginScreenPro
     }
   };
 
-  const handleResetDatabase = async () => {
-    Alert.alert(
-      'Reset Database',
-      'This will delete all local data and close the app. Are you sure?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Reset & Close',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              console.log('Resetting database...');
-              
-              // Reset the database (delete file and reinitialize)
-              await databaseService.resetDatabase();
-              
-              // Clear all secure store data
-              await SecureStore.deleteItemAsync('username');
-              await SecureStore.deleteItemAsync('signingKey');
-              
-              console.log('Database reset completed, closing app...');
-              
-              // Close the app
-              if (Platform.OS === 'android') {
+  // Runs once ResetDatabaseModal has deleted the database and its key; the next login starts a new one
+  const handleDatabaseReset = async () => {
+    try {
+      // Clear all secure store data
+      await SecureStore.deleteItemAsync('username');
+      await SecureStore.deleteItemAsync('signingKey');
+      
+      console.log('Database reset completed, closing app...');
+      
+      // Close the app
+      if (Platform.OS === 'android') {
+        BackHandler.exitApp();
+      } else {
+        // On iOS, we can't force close, but we can show a message
+        Alert.alert(
+          'Database Reset Complete',
+          'Please manually close and restart the app to see the changes.',
+          [
+            {
+              text: 'OK',
+              onPress: () => {
+                // Try to exit anyway
                 BackHandler.exitApp();
-              } else {
-                // On iOS, we can't force close, but we can show a message
-                Alert.alert(
-                  'Database Reset Complete',
-                  'Please manually close and restart the app to see the changes.',
-                  [
-                    {
-                      text: 'OK',
-                      onPress: () => {
-                        // Try to exit anyway
-                        BackHandler.exitApp();
-                      },
-                    },
-                  ]
-                );
-              }
-            } catch (error) {
-              Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-              console.error('Error resetting database:', error);
-              Alert.alert('Error', 'Failed to reset database. Please try again.');
-            }
-          },
-        },
-      ]
-    );
+              },
+            },
+          ]
+        );
+      }
+    } catch (error) {
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      console.error('Error clearing credentials after reset:', error);
+    }
   };
 
   // Show syncing screen when syncing is in progress
@@ -199,6 +185,12 @@ export default function LoginScreen({ onLoginSuccess, onLayout }: LoginScreenPro
         }}>
           براہ کرم انتظار کریں، یہ صرف چند سیکنڈ لگے گا
         </Text>
+        <TouchableOpacity
+          style={{ marginTop: 24, paddingVertical: 10, paddingHorizontal: 24, borderRadius: 8, borderWidth: 1, borderColor: '#1976D2' }}
+          onPress={() => syncAbortController.current?.abort()}
+        >
+          <Text style={{ fontSize: 16, color: '#1976D2' }}>روکیں اور جاری رکھیں</Text>
+        </TouchableOpacity>
       </View>
     );
   }
@@ -259,7 +251,7 @@ export default function LoginScreen({ onLoginSuccess, onLayout }: LoginScreenPro
                 borderWidth: 2,
                 borderColor: '#d32f2f',
               }}
-              onPress={handleResetDatabase}
+              onPress={() => setShowResetModal(true)}
             >
               <Text style={{ color: '#fff', fontSize: 16, fontWeight: 'bold' }}>
                 🗑️ Reset Database (Dev Only)
@@ -274,6 +266,11 @@ export default function LoginScreen({ onLoginSuccess, onLayout }: LoginScreenPro
             }}>
               This button only appears in development mode
             </Text>
+            <ResetDatabaseModal
+              visible={showResetModal}
+              onClose={() => setShowResetModal(false)}
+              onReset={handleDatabaseReset}
+            />
           </View>
         )}
       </ScrollView>
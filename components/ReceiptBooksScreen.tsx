@@ -0,0 +1,340 @@
+import * as SecureStore from 'expo-secure-store';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useReceiptBooks } from '../hooks/useReceiptBooks';
+import { ReceiptBookReconciliation } from '../types/data';
+import { formatSerialList } from '../utils/receiptBooks';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const emptyIssueForm = { bookNo: '', collector: '', startSerial: '', endSerial: '' };
+
+export function ReceiptBooksScreen() {
+  const { getReceiptBooks, issueReceiptBook, setReceiptBookClosed, getReconciliation } = useReceiptBooks();
+  const [books, setBooks] = useState<ReceiptBookReconciliation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [issueForm, setIssueForm] = useState(emptyIssueForm);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [selected, setSelected] = useState<ReceiptBookReconciliation | null>(null);
+  const insets = useSafeAreaInsets();
+
+  const loadBooks = useCallback(async () => {
+    try {
+      const receiptBooks = await getReceiptBooks();
+      setBooks(await Promise.all(receiptBooks.map(getReconciliation)));
+    } catch (error) {
+      console.error('Error loading receipt books:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [getReceiptBooks, getReconciliation]);
+
+  useEffect(() => {
+    loadBooks();
+    SecureStore.getItemAsync('username').then(username => {
+      if (username) setIssueForm(prev => ({ ...prev, collector: prev.collector || username }));
+    });
+  }, [loadBooks]);
+
+  const handleIssue = async () => {
+    const startSerial = parseInt(issueForm.startSerial, 10);
+    const endSerial = parseInt(issueForm.endSerial, 10);
+    if (!issueForm.bookNo.trim() || !issueForm.collector.trim() || isNaN(startSerial) || isNaN(endSerial)) {
+      Alert.alert('خرابی', 'براہ کرم تمام خانے پُر کریں');
+      return;
+    }
+    if (startSerial < 1 || endSerial < startSerial) {
+      Alert.alert('خرابی', 'آخری سیریل نمبر پہلے سیریل نمبر سے بڑا ہونا چاہیے');
+      return;
+    }
+
+    try {
+      setIsIssuing(true);
+      await issueReceiptBook({ bookNo: issueForm.bookNo, collector: issueForm.collector, startSerial, endSerial });
+      setIssueForm(prev => ({ ...emptyIssueForm, collector: prev.collector }));
+      await loadBooks();
+    } catch (error) {
+      console.error('Error issuing receipt book:', error);
+      Alert.alert('خرابی', `رسید بک جاری نہیں ہو سکی۔ ہو سکتا ہے رسید بک نمبر ${issueForm.bookNo} پہلے سے جاری ہو۔`);
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const toggleClosed = async (item: ReceiptBookReconciliation) => {
+    try {
+      await setReceiptBookClosed(item.book, !item.book.closedAt);
+      await loadBooks();
+    } catch (error) {
+      console.error('Error updating receipt book:', error);
+      Alert.alert('خرابی', 'رسید بک اپ ڈیٹ نہیں ہو سکی');
+    }
+  };
+
+  const renderBook = ({ item }: { item: ReceiptBookReconciliation }) => {
+    const total = item.book.endSerial - item.book.startSerial + 1;
+    const hasProblems = item.missing.length + item.duplicates.length + item.outOfRange.length > 0;
+    return (
+      <ThemedView style={[styles.bookItem, !!item.book.closedAt && styles.bookItemClosed]}>
+        <View style={styles.bookHeader}>
+          <ThemedText type="defaultSemiBold">📖 {item.book.bookNo}</ThemedText>
+          <ThemedText style={styles.bookMeta}>{item.book.collector}</ThemedText>
+        </View>
+        <ThemedText style={styles.bookMeta}>
+          {item.book.startSerial} تا {item.book.endSerial} • {total} میں سے {item.used.length} استعمال شدہ
+          {item.book.closedAt ? ' • بند' : item.nextSerial !== null ? ` • اگلا: ${item.nextSerial}` : ' • مکمل'}
+        </ThemedText>
+        {hasProblems && (
+          <ThemedText style={styles.warningText}>
+            ⚠️ {item.missing.length} غائب، {item.duplicates.length} دوہرے، {item.outOfRange.length} حد سے باہر
+          </ThemedText>
+        )}
+        <View style={styles.actionsRow}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => toggleClosed(item)}>
+            <ThemedText style={styles.actionButtonText}>{item.book.closedAt ? '🔓 دوبارہ کھولیں' : '🔒 بند کریں'}</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setSelected(item)}>
+            <ThemedText style={styles.actionButtonText}>🔍 مطابقت</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    );
+  };
+
+  const renderSerialSection = (title: string, serials: number[], style?: object) => (
+    <ThemedView style={styles.serialSection}>
+      <ThemedText type="defaultSemiBold" style={styles.serialTitle}>{title} ({serials.length})</ThemedText>
+      <ThemedText style={[styles.serialList, style]}>{serials.length > 0 ? formatSerialList(serials) : '—'}</ThemedText>
+    </ThemedView>
+  );
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={books}
+        keyExtractor={item => item.book.id}
+        renderItem={renderBook}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <ThemedView style={styles.issueForm}>
+            <ThemedText type="subtitle" style={styles.label}>نئی رسید بک جاری کریں</ThemedText>
+            <TextInput
+              style={styles.textInput}
+              value={issueForm.bookNo}
+              onChangeText={text => setIssueForm(prev => ({ ...prev, bookNo: text }))}
+              placeholder="رسیدبک نمبر"
+              editable={!isIssuing}
+            />
+            <TextInput
+              style={styles.textInput}
+              value={issueForm.collector}
+              onChangeText={text => setIssueForm(prev => ({ ...prev, collector: text }))}
+              placeholder="وصول کنندہ (یوزر نیم)"
+              autoCapitalize="none"
+              editable={!isIssuing}
+            />
+            <View style={styles.serialRow}>
+              <TextInput
+                style={[styles.textInput, styles.serialInput]}
+                value={issueForm.endSerial}
+                onChangeText={text => setIssueForm(prev => ({ ...prev, endSerial: text }))}
+                placeholder="آخری سیریل"
+                keyboardType="numeric"
+                editable={!isIssuing}
+              />
+              <TextInput
+                style={[styles.textInput, styles.serialInput]}
+                value={issueForm.startSerial}
+                onChangeText={text => setIssueForm(prev => ({ ...prev, startSerial: text }))}
+                placeholder="پہلا سیریل"
+                keyboardType="numeric"
+                editable={!isIssuing}
+              />
+            </View>
+            <TouchableOpacity
+              style={[styles.issueButton, isIssuing && styles.issueButtonDisabled]}
+              onPress={handleIssue}
+              disabled={isIssuing}
+            >
+              <ThemedText style={styles.issueButtonText}>رسید بک جاری کریں</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        }
+        ListEmptyComponent={<ThemedText style={styles.emptyText}>ابھی تک کوئی رسید بک جاری نہیں کی گئی</ThemedText>}
+      />
+
+      {/* Reconciliation */}
+      <Modal visible={selected !== null} animationType="slide" onRequestClose={() => setSelected(null)}>
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setSelected(null)}>
+              <ThemedText style={styles.modalCloseText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">رسید بک {selected?.book.bookNo}</ThemedText>
+          </View>
+          {selected && (
+            <ScrollView contentContainerStyle={styles.listContent}>
+              <ThemedText style={styles.bookMeta}>
+                {selected.book.collector} • {selected.book.startSerial} تا {selected.book.endSerial} • جاری: {new Date(selected.book.issuedAt).toLocaleDateString()}
+              </ThemedText>
+              {renderSerialSection('استعمال شدہ', selected.used)}
+              {renderSerialSection('منسوخ شدہ', selected.voided)}
+              {renderSerialSection('غائب', selected.missing, styles.warningText)}
+              {renderSerialSection('دوہرے', selected.duplicates, styles.warningText)}
+              {renderSerialSection('حد سے باہر', selected.outOfRange, styles.warningText)}
+              <ThemedText style={styles.bookMeta}>
+                {selected.nextSerial !== null ? `اگلا سیریل نمبر: ${selected.nextSerial}` : 'تمام سیریل نمبر استعمال ہو چکے ہیں'}
+              </ThemedText>
+            </ScrollView>
+          )}
+        </ThemedView>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 20,
+    gap: 12,
+  },
+  issueForm: {
+    gap: 10,
+    marginBottom: 8,
+  },
+  label: {
+    textAlign: 'right',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    textAlign: 'right',
+  },
+  serialRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  serialInput: {
+    flex: 1,
+  },
+  issueButton: {
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  issueButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  issueButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 20,
+  },
+  bookItem: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+    gap: 6,
+  },
+  bookItemClosed: {
+    opacity: 0.6,
+  },
+  bookHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  bookMeta: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#D32F2F',
+    textAlign: 'right',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  actionButtonText: {
+    fontSize: 14,
+  },
+  serialSection: {
+    gap: 4,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  serialTitle: {
+    textAlign: 'right',
+  },
+  serialList: {
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCloseText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+});
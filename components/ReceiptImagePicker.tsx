@@ -0,0 +1,181 @@
+import { Image } from 'expo-image';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { AttachmentService, AttachmentSource } from '../services/AttachmentService';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+interface ReceiptImagePickerProps {
+  value?: string; // file name as stored on the record
+  onChange: (fileName: string | undefined) => void;
+  disabled?: boolean;
+}
+
+// Form field for attaching a photo of a receipt or bill
+export function ReceiptImagePicker({ value, onChange, disabled }: ReceiptImagePickerProps) {
+  const [isCapturing, setIsCapturing] = useState(false);
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  // A photo taken here is only moved into place when the form is saved; one
+  // still waiting when the form closes was never saved
+  useEffect(() => () => {
+    if (valueRef.current && AttachmentService.isUnsaved(valueRef.current)) {
+      AttachmentService.delete(valueRef.current);
+    }
+  }, []);
+
+  // Drops the previous photo when it was taken here and never saved
+  const change = (fileName: string | undefined) => {
+    if (value && AttachmentService.isUnsaved(value)) {
+      AttachmentService.delete(value);
+    }
+    onChange(fileName);
+  };
+
+  const capture = async (source: AttachmentSource) => {
+    setIsCapturing(true);
+    const result = await AttachmentService.capture(source);
+    setIsCapturing(false);
+
+    switch (result.status) {
+      case 'captured':
+        change(result.fileName);
+        break;
+      case 'permission_denied':
+        Alert.alert(
+          'اجازت درکار ہے',
+          source === 'camera'
+            ? 'تصویر لینے کے لیے ترتیبات میں کیمرے کی اجازت دیں۔'
+            : 'تصویر منتخب کرنے کے لیے ترتیبات میں گیلری کی اجازت دیں۔'
+        );
+        break;
+      case 'error':
+        Alert.alert('خرابی', 'تصویر محفوظ نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔');
+        break;
+    }
+  };
+
+  const isDisabled = disabled || isCapturing;
+
+  return (
+    <View style={styles.container}>
+      {value && (
+        <View style={styles.previewRow}>
+          <TouchableOpacity onPress={() => change(undefined)} disabled={isDisabled}>
+            <ThemedText style={styles.removeText}>✕ تصویر ہٹائیں</ThemedText>
+          </TouchableOpacity>
+          <ReceiptThumbnail fileName={value} size={96} />
+        </View>
+      )}
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, isDisabled && styles.buttonDisabled]}
+          onPress={() => capture('library')}
+          disabled={isDisabled}
+        >
+          <ThemedText style={styles.buttonText}>🖼️ گیلری</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, isDisabled && styles.buttonDisabled]}
+          onPress={() => capture('camera')}
+          disabled={isDisabled}
+        >
+          <ThemedText style={styles.buttonText}>📷 {value ? 'نئی تصویر' : 'تصویر لیں'}</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+interface ReceiptThumbnailProps {
+  fileName: string;
+  size?: number;
+}
+
+// Small preview that opens the full photo when tapped
+export function ReceiptThumbnail({ fileName, size = 48 }: ReceiptThumbnailProps) {
+  const [showFull, setShowFull] = useState(false);
+  const insets = useSafeAreaInsets();
+  const uri = AttachmentService.getUri(fileName);
+
+  return (
+    <>
+      <TouchableOpacity onPress={() => setShowFull(true)} accessibilityLabel="رسید کی تصویر دیکھیں">
+        <Image source={{ uri }} style={[styles.thumbnail, { width: size, height: size }]} contentFit="cover" />
+      </TouchableOpacity>
+      <Modal visible={showFull} animationType="slide" onRequestClose={() => setShowFull(false)}>
+        <ThemedView style={[styles.modalContainer, { paddingTop: insets.top }]}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowFull(false)}>
+              <ThemedText style={styles.closeText}>✕ بند کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">رسید کی تصویر</ThemedText>
+          </View>
+          <Image source={{ uri }} style={styles.fullImage} contentFit="contain" />
+        </ThemedView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#D32F2F',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  button: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  buttonDisabled: {
+    borderColor: '#ccc',
+  },
+  buttonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  thumbnail: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f5f5f5',
+  },
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  closeText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  fullImage: {
+    flex: 1,
+    margin: 20,
+  },
+});
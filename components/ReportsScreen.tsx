@@ -0,0 +1,410 @@
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Report, ReportService } from '../services/ReportService';
+import { BASE_CURRENCY } from '../utils/currency';
+import { formatAmount } from '../utils/money';
+import { ExportModal } from './ExportModal';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+type RangePreset = 'this-month' | 'last-month' | 'this-year' | 'custom';
+
+const PRESETS: { label: string; value: RangePreset }[] = [
+  { label: 'یہ مہینہ', value: 'this-month' },
+  { label: 'پچھلا مہینہ', value: 'last-month' },
+  { label: 'یہ سال', value: 'this-year' },
+];
+
+const DONATION_CATEGORIES: { [key: string]: string } = {
+  'charity': 'خیرات',
+  'zakat': 'زکٰوۃ',
+  'sadaqah': 'صدقہ',
+  'other': 'دیگر',
+};
+
+const EXPENSE_CATEGORIES: { [key: string]: string } = {
+  'office_supplies': 'دفتری سامان',
+  'utilities': 'بلز',
+  'rent': 'کرایہ',
+  'maintenance': 'مرمت',
+  'transportation': 'نقل و حمل',
+  'meals': 'کھانا',
+  'events': 'تقریبات',
+  'marketing': 'تشہیر',
+  'equipment': 'آلات',
+  'services': 'خدمات',
+  'other': 'دیگر',
+};
+
+const getPresetRange = (preset: RangePreset): { start: Date; end: Date } => {
+  const today = new Date();
+  switch (preset) {
+    case 'last-month':
+      return {
+        start: new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        end: new Date(today.getFullYear(), today.getMonth(), 0),
+      };
+    case 'this-year':
+      return { start: new Date(today.getFullYear(), 0, 1), end: today };
+    case 'this-month':
+    default:
+      return { start: new Date(today.getFullYear(), today.getMonth(), 1), end: today };
+  }
+};
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+export function ReportsScreen() {
+  const [preset, setPreset] = useState<RangePreset>('this-month');
+  const [range, setRange] = useState(() => getPresetRange('this-month'));
+  const [showPicker, setShowPicker] = useState<'start' | 'end' | null>(null);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setError(false);
+      const result = await ReportService.generateReport(range.start, range.end);
+      setReport(result);
+    } catch (err) {
+      console.error('Error loading report:', err);
+      setError(true);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadReport();
+  }, [loadReport]);
+
+  const selectPreset = (value: RangePreset) => {
+    setPreset(value);
+    setRange(getPresetRange(value));
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadReport();
+  };
+
+  const renderCategoryRows = (rows: Report['donationCategories'], labels: { [key: string]: string }, color: string) => {
+    if (rows.length === 0) {
+      return <ThemedText style={styles.emptyText}>اس مدت میں کوئی ریکارڈ نہیں</ThemedText>;
+    }
+    return rows.map(row => (
+      <View key={row.category} style={styles.tableRow}>
+        <ThemedText style={[styles.tableAmount, { color }]}>{BASE_CURRENCY} {formatAmount(row.total)}</ThemedText>
+        <ThemedText style={styles.tableCount}>{row.count}</ThemedText>
+        <ThemedText style={styles.tableLabel}>{labels[row.category] || row.category}</ThemedText>
+      </View>
+    ));
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#007AFF']} />}
+    >
+      {/* Date range selection */}
+      <ThemedView style={styles.section}>
+        <View style={styles.presetRow}>
+          {PRESETS.map(item => (
+            <TouchableOpacity
+              key={item.value}
+              style={[styles.presetButton, preset === item.value && styles.presetButtonSelected]}
+              onPress={() => selectPreset(item.value)}
+            >
+              <ThemedText style={[styles.presetButtonText, preset === item.value && styles.presetButtonTextSelected]}>
+                {item.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.dateRow}>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowPicker('end')}>
+            <ThemedText style={styles.dateLabel}>تک</ThemedText>
+            <ThemedText>{range.end.toLocaleDateString()}</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowPicker('start')}>
+            <ThemedText style={styles.dateLabel}>سے</ThemedText>
+            <ThemedText>{range.start.toLocaleDateString()}</ThemedText>
+          </TouchableOpacity>
+        </View>
+        {showPicker && (
+          <DateTimePicker
+            value={showPicker === 'start' ? range.start : range.end}
+            mode="date"
+            display="default"
+            minimumDate={showPicker === 'end' ? range.start : undefined}
+            maximumDate={showPicker === 'start' ? range.end : new Date()}
+            onChange={(event, selectedDate) => {
+              const field = showPicker;
+              setShowPicker(null);
+              if (selectedDate && field) {
+                setPreset('custom');
+                setRange(prev => ({ ...prev, [field]: selectedDate }));
+              }
+            }}
+          />
+        )}
+        <TouchableOpacity style={styles.exportButton} onPress={() => setShowExport(true)}>
+          <ThemedText style={styles.exportButtonText}>📤 CSV / Excel میں ایکسپورٹ کریں</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
+      <ExportModal
+        visible={showExport}
+        startDate={range.start}
+        endDate={range.end}
+        onClose={() => setShowExport(false)}
+      />
+
+      {loading ? (
+        <ThemedView style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <ThemedText style={styles.loadingText}>رپورٹ تیار ہو رہی ہے...</ThemedText>
+        </ThemedView>
+      ) : error || !report ? (
+        <ThemedView style={styles.loadingContainer}>
+          <ThemedText style={styles.loadingText}>رپورٹ تیار نہیں ہو سکی۔ براہ کرم دوبارہ کوشش کریں۔</ThemedText>
+        </ThemedView>
+      ) : (
+        <>
+          {/* Summary */}
+          <View style={styles.summaryRow}>
+            <ThemedView style={styles.summaryItem}>
+              <ThemedText style={styles.summaryLabel}>ابتدائی بیلنس</ThemedText>
+              <ThemedText style={styles.summaryValue}>{formatAmount(report.openingBalance)}</ThemedText>
+            </ThemedView>
+            <ThemedView style={styles.summaryItem}>
+              <ThemedText style={styles.summaryLabel}>عطیات</ThemedText>
+              <ThemedText style={[styles.summaryValue, styles.donationText]}>{formatAmount(report.totalDonations)}</ThemedText>
+            </ThemedView>
+            <ThemedView style={styles.summaryItem}>
+              <ThemedText style={styles.summaryLabel}>اخراجات</ThemedText>
+              <ThemedText style={[styles.summaryValue, styles.expenseText]}>{formatAmount(report.totalExpenses)}</ThemedText>
+            </ThemedView>
+            <ThemedView style={styles.summaryItem}>
+              <ThemedText style={styles.summaryLabel}>اختتامی بیلنس</ThemedText>
+              <ThemedText style={styles.summaryValue}>{formatAmount(report.closingBalance)}</ThemedText>
+            </ThemedView>
+          </View>
+
+          {/* Monthly totals with running balance */}
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>ماہانہ حساب ({BASE_CURRENCY})</ThemedText>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              <ThemedText style={styles.tableHeaderText}>بیلنس</ThemedText>
+              <ThemedText style={styles.tableHeaderText}>اخراجات</ThemedText>
+              <ThemedText style={styles.tableHeaderText}>عطیات</ThemedText>
+              <ThemedText style={styles.tableHeaderText}>مہینہ</ThemedText>
+            </View>
+            {report.months.map(row => (
+              <View key={row.month} style={styles.tableRow}>
+                <ThemedText style={[styles.tableCell, styles.balanceText]}>{formatAmount(row.balance)}</ThemedText>
+                <ThemedText style={[styles.tableCell, styles.expenseText]}>{formatAmount(row.expenses)}</ThemedText>
+                <ThemedText style={[styles.tableCell, styles.donationText]}>{formatAmount(row.donations)}</ThemedText>
+                <ThemedText style={styles.tableCell}>{formatMonth(row.month)}</ThemedText>
+              </View>
+            ))}
+          </ThemedView>
+
+          {/* Donations by category */}
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>عطیات بلحاظ قسم</ThemedText>
+            {renderCategoryRows(report.donationCategories, DONATION_CATEGORIES, '#007AFF')}
+          </ThemedView>
+
+          {/* Expenses by category */}
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>اخراجات بلحاظ قسم</ThemedText>
+            {renderCategoryRows(report.expenseCategories, EXPENSE_CATEGORIES, '#F44336')}
+          </ThemedView>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 16,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 12,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1976D2',
+    textAlign: 'right',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  presetButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  presetButtonSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  presetButtonText: {
+    fontSize: 14,
+  },
+  presetButtonTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    backgroundColor: '#fff',
+  },
+  dateLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  exportButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    padding: 8,
+    backgroundColor: '#f7fafd',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: '#666',
+    textAlign: 'center',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#222',
+    textAlign: 'center',
+  },
+  donationText: {
+    color: '#007AFF',
+  },
+  expenseText: {
+    color: '#F44336',
+  },
+  balanceText: {
+    fontWeight: '600',
+  },
+  tableHeader: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  tableHeaderText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'right',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 8,
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 13,
+    textAlign: 'right',
+  },
+  tableLabel: {
+    flex: 2,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  tableCount: {
+    width: 40,
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+  },
+  tableAmount: {
+    flex: 2,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
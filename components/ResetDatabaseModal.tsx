@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { databaseService } from '../services/DatabaseService';
+import { ExportOptions, ExportRecordType } from '../services/ExportService';
+import { UnsyncedSummary } from '../types/data';
+import { BackupModal } from './BackupModal';
+import { ExportModal } from './ExportModal';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+// Typed by the user to confirm; kept in Latin script so it is the same on every keyboard
+const CONFIRMATION_TEXT = 'RESET';
+
+type ExportedTypes = { [key in ExportRecordType]: boolean };
+
+const NOTHING_EXPORTED: ExportedTypes = { donations: false, expenses: false };
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const unsyncedTotalOf = (summary: UnsyncedSummary) => summary.donations + summary.expenses + summary.attachments;
+
+// The database is not opened yet when the modal is reached from the login screen
+async function loadUnsyncedSummary(): Promise<UnsyncedSummary> {
+  await databaseService.ensureInitialized();
+  return databaseService.getUnsyncedSummary();
+}
+
+// An export only stands in for a backup when it holds every unsynced record of its type
+function coversUnsynced(options: ExportOptions, summary: UnsyncedSummary): boolean {
+  if (options.category || !options.includeInactive) return false;
+  if (options.recordType === 'expenses' && !options.includePersonal) return false;
+  return (!summary.oldestDate || startOfDay(options.startDate) <= startOfDay(new Date(summary.oldestDate))) &&
+    (!summary.newestDate || startOfDay(options.endDate) >= startOfDay(new Date(summary.newestDate)));
+}
+
+interface ResetDatabaseModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onReset: () => void;
+}
+
+/**
+ * Deletes the local database, but only once the user has seen what has not
+ * reached the server yet and, if anything has not, saved all of it: with a
+ * backup, or with exports of every unsynced record type when no photos are
+ * waiting. The reset itself needs the confirmation word typed out, and stays
+ * blocked while the unsynced records cannot be counted.
+ */
+export function ResetDatabaseModal({ visible, onClose, onReset }: ResetDatabaseModalProps) {
+  const [summary, setSummary] = useState<UnsyncedSummary | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isBackedUp, setIsBackedUp] = useState(false);
+  const [exported, setExported] = useState<ExportedTypes>(NOTHING_EXPORTED);
+  const [confirmation, setConfirmation] = useState('');
+  const [showBackup, setShowBackup] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => {
+    if (!visible) return;
+    setSummary(null);
+    setLoadFailed(false);
+    setIsBackedUp(false);
+    setExported(NOTHING_EXPORTED);
+    setConfirmation('');
+    loadUnsyncedSummary()
+      .then(setSummary)
+      .catch(error => {
+        console.error('Error loading unsynced summary:', error);
+        setLoadFailed(true);
+      });
+  }, [visible]);
+
+  const unsyncedTotal = summary ? unsyncedTotalOf(summary) : 0;
+  const isSaved = summary !== null && (isBackedUp || (
+    summary.attachments === 0 &&
+    (summary.donations === 0 || exported.donations) &&
+    (summary.expenses === 0 || exported.expenses)
+  ));
+  const needsSafeguard = summary === null || (unsyncedTotal > 0 && !isSaved);
+  const canReset = !needsSafeguard && confirmation.trim() === CONFIRMATION_TEXT;
+
+  // Export range covering every unsynced record, including any dated after today
+  const exportStartDate = summary?.oldestDate ? new Date(summary.oldestDate) : new Date();
+  const exportEndDate = new Date(Math.max(Date.now(), summary?.newestDate ? new Date(summary.newestDate).getTime() : 0));
+
+  const handleExported = (options: ExportOptions) => {
+    if (summary && coversUnsynced(options, summary)) {
+      setExported(prev => ({ ...prev, [options.recordType]: true }));
+      return;
+    }
+    Alert.alert(
+      'ایکسپورٹ نامکمل',
+      'ری سیٹ سے پہلے ایکسپورٹ میں تمام اقسام، منسوخ یا حذف شدہ اور ذاتی ریکارڈ شامل ہونا ضروری ہیں۔'
+    );
+  };
+
+  const resetDatabase = async () => {
+    if (!summary) return;
+    setIsResetting(true);
+    try {
+      // Count again: records added or changed since they were saved would be lost unseen
+      const current = await databaseService.getUnsyncedSummary();
+      const currentTotal = unsyncedTotalOf(current);
+      if (currentTotal > 0 && (!isSaved || JSON.stringify(current) !== JSON.stringify(summary))) {
+        setSummary(current);
+        setIsBackedUp(false);
+        setExported(NOTHING_EXPORTED);
+        Alert.alert('ڈیٹا بدل گیا ہے', 'محفوظ کرنے کے بعد غیر سنک شدہ ڈیٹا میں تبدیلی ہوئی ہے۔ براہ کرم دوبارہ محفوظ کریں۔');
+        return;
+      }
+
+      await databaseService.resetDatabase({ discardUnsynced: currentTotal > 0 });
+      onClose();
+      onReset();
+    } catch (error) {
+      console.error('Error resetting database:', error);
+      Alert.alert('خرابی', 'ڈیٹا بیس ری سیٹ نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const renderSummary = () => {
+    if (loadFailed) {
+      return (
+        <ThemedText style={[styles.infoText, styles.warningText]}>
+          یہ معلوم نہیں ہو سکا کہ کتنا ڈیٹا ابھی سنک نہیں ہوا، اس لیے ری سیٹ نہیں کیا جا سکتا۔
+        </ThemedText>
+      );
+    }
+    if (!summary) {
+      return <ActivityIndicator size="large" color="#007AFF" />;
+    }
+    if (unsyncedTotal === 0) {
+      return <ThemedText style={styles.infoText}>✓ تمام ڈیٹا سرور پر موجود ہے۔</ThemedText>;
+    }
+    return (
+      <View style={styles.summaryBox}>
+        <ThemedText style={[styles.infoText, styles.warningText]}>
+          یہ ریکارڈ ابھی سرور پر نہیں پہنچے اور ری سیٹ سے ضائع ہو جائیں گے:
+        </ThemedText>
+        <ThemedText style={styles.countText}>عطیات: {summary.donations}</ThemedText>
+        <ThemedText style={styles.countText}>اخراجات: {summary.expenses}</ThemedText>
+        <ThemedText style={styles.countText}>رسیدوں کی تصاویر: {summary.attachments}</ThemedText>
+      </View>
+    );
+  };
+
+  const renderSafeguard = () => {
+    if (!summary || unsyncedTotal === 0) return null;
+    if (isSaved) {
+      return <ThemedText style={styles.savedText}>✓ ڈیٹا محفوظ کر لیا گیا</ThemedText>;
+    }
+    return (
+      <>
+        <ThemedText style={styles.label}>پہلے یہ ڈیٹا محفوظ کریں</ThemedText>
+        <TouchableOpacity style={styles.saveButton} onPress={() => setShowBackup(true)}>
+          <ThemedText style={styles.saveButtonText}>💾 بیک اپ بنائیں</ThemedText>
+        </TouchableOpacity>
+        {summary.attachments > 0 ? (
+          <ThemedText style={styles.infoText}>رسیدوں کی تصاویر صرف بیک اپ میں محفوظ ہوتی ہیں۔</ThemedText>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.saveButton} onPress={() => setShowExport(true)}>
+              <ThemedText style={styles.saveButtonText}>📤 CSV / Excel میں ایکسپورٹ کریں</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.infoText}>
+              ایکسپورٹ میں تمام اقسام، منسوخ یا حذف شدہ اور ذاتی ریکارڈ شامل کریں۔
+            </ThemedText>
+            {summary.donations > 0 && (
+              <ThemedText style={styles.infoText}>{exported.donations ? '✓' : '○'} عطیات</ThemedText>
+            )}
+            {summary.expenses > 0 && (
+              <ThemedText style={styles.infoText}>{exported.expenses ? '✓' : '○'} اخراجات</ThemedText>
+            )}
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={isResetting}>
+            <ThemedText style={styles.closeText}>✕ بند کریں</ThemedText>
+          </TouchableOpacity>
+          <ThemedText type="subtitle">ڈیٹا بیس ری سیٹ</ThemedText>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <ThemedText style={styles.infoText}>
+            اس فون پر موجود تمام عطیات اور اخراجات حذف ہو جائیں گے۔ یہ عمل واپس نہیں ہو سکتا۔
+          </ThemedText>
+
+          {renderSummary()}
+
+          {renderSafeguard()}
+
+          <ThemedText style={styles.label}>تصدیق کے لیے {CONFIRMATION_TEXT} لکھیں</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={confirmation}
+            onChangeText={setConfirmation}
+            placeholder={CONFIRMATION_TEXT}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            editable={!needsSafeguard}
+          />
+
+          {isResetting ? (
+            <ActivityIndicator size="large" color="#f44336" />
+          ) : (
+            <TouchableOpacity
+              style={[styles.resetButton, !canReset && styles.resetButtonDisabled]}
+              onPress={resetDatabase}
+              disabled={!canReset}
+            >
+              <ThemedText style={styles.resetButtonText}>🗑️ ڈیٹا بیس ری سیٹ کریں</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+
+        <BackupModal
+          mode={showBackup ? 'backup' : null}
+          onClose={() => setShowBackup(false)}
+          onBackedUp={() => setIsBackedUp(true)}
+        />
+        <ExportModal
+          visible={showExport}
+          startDate={exportStartDate}
+          endDate={exportEndDate}
+          onClose={() => setShowExport(false)}
+          onExported={handleExported}
+        />
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'right',
+  },
+  warningText: {
+    color: '#d32f2f',
+    fontWeight: '600',
+  },
+  summaryBox: {
+    borderWidth: 1,
+    borderColor: '#f44336',
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+    backgroundColor: '#FFEBEE',
+  },
+  countText: {
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'right',
+  },
+  savedText: {
+    fontSize: 15,
+    color: '#4CAF50',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  saveButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  saveButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    textAlign: 'center',
+  },
+  resetButton: {
+    backgroundColor: '#f44336',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  resetButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  resetButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,42 +1,122 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import * as SecureStore from 'expo-secure-store';
-import React, { useState } from 'react';
-import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
 import { useExpenseSync } from '../hooks/useExpenseSync';
 import { useSync } from '../hooks/useSync';
 import { databaseService } from '../services/DatabaseService';
-import { HistoricalSyncService } from '../services/HistoricalSyncService';
+import { formatHistoricalSyncProgress, HistoricalSyncService } from '../services/HistoricalSyncService';
+import { LocationService } from '../services/LocationService';
+import { DEFAULT_SYNC_CONFIG, SyncConfigService } from '../services/SyncConfigService';
+import { syncScheduler } from '../services/SyncScheduler';
+import { FiscalYearDefinition } from '../types/data';
+import { getFiscalYearRange, GREGORIAN_MONTHS, HIJRI_MONTHS } from '../utils/fiscalYear';
 import { getDetailedVersionInfo, getVersionDisplay } from '../utils/version';
+import { BackupMode, BackupModal } from './BackupModal';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 
 interface SettingsScreenProps {
   onLogout: () => void;
   onBack: () => void;
+  onOpenExchangeRates?: () => void;
 }
 
-export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps) {
+export default function SettingsScreen({ onLogout, onBack, onOpenExchangeRates }: SettingsScreenProps) {
   const [isSyncing, setIsSyncing] = useState(false);
+  const [historicalSyncProgress, setHistoricalSyncProgress] = useState('');
+  const historicalSyncAbort = useRef<AbortController | null>(null);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
-  const { manualSync, syncStatus, updateSyncStatus } = useSync();
+  const [smsFallbackNumber, setSmsFallbackNumber] = useState('');
+  const [fiscalYear, setFiscalYear] = useState<FiscalYearDefinition>(DEFAULT_SYNC_CONFIG.fiscalYear);
+  const [historicalYears, setHistoricalYears] = useState(DEFAULT_SYNC_CONFIG.historicalYears);
+  const [username, setUsername] = useState('');
+  const [locationCapture, setLocationCapture] = useState(true);
+  const [backupMode, setBackupMode] = useState<BackupMode | null>(null);
+  const { manualSync, sendDonationsBySms, syncStatus, updateSyncStatus } = useSync();
   const { manualSync: manualExpenseSync, syncStatus: expenseSyncStatus, updateSyncStatus: updateExpenseSyncStatus } = useExpenseSync();
 
+  useEffect(() => {
+    SyncConfigService.getConfig().then(config => {
+      setSmsFallbackNumber(config.smsFallbackNumber);
+      setFiscalYear(config.fiscalYear);
+      setHistoricalYears(config.historicalYears);
+    });
+    SecureStore.getItemAsync('username').then(async value => {
+      if (!value) return;
+      setUsername(value);
+      setLocationCapture(await LocationService.isCaptureEnabled(value));
+    });
+  }, []);
+
+  const saveLocationCapture = async (enabled: boolean) => {
+    setLocationCapture(enabled);
+    try {
+      await LocationService.setCaptureEnabled(username, enabled);
+    } catch (error) {
+      console.error('Error saving location setting:', error);
+      Alert.alert('خرابی', 'مقام کی ترتیب محفوظ نہیں ہو سکی');
+      setLocationCapture(!enabled);
+    }
+  };
+
+  const saveFiscalYearSettings = async (changes: { fiscalYear?: FiscalYearDefinition; historicalYears?: number }) => {
+    if (changes.fiscalYear) setFiscalYear(changes.fiscalYear);
+    if (changes.historicalYears !== undefined) setHistoricalYears(changes.historicalYears);
+    try {
+      await SyncConfigService.saveConfig(changes);
+    } catch (error) {
+      console.error('Error saving fiscal year settings:', error);
+      Alert.alert('خرابی', 'مالی سال کی ترتیبات محفوظ نہیں ہو سکیں');
+    }
+  };
+
+  // The current fiscal year and the four before it, newest first
+  const fiscalYearOptions = [0, 1, 2, 3, 4].map(yearsBack => getFiscalYearRange(fiscalYear, yearsBack));
+  const oldestFiscalYear = getFiscalYearRange(fiscalYear, historicalYears);
+  const monthNames = fiscalYear.calendar === 'hijri' ? HIJRI_MONTHS : GREGORIAN_MONTHS;
+
+  const saveSmsFallbackNumber = async () => {
+    try {
+      await SyncConfigService.saveConfig({ smsFallbackNumber: smsFallbackNumber.trim() });
+    } catch (error) {
+      console.error('Error saving SMS fallback number:', error);
+      Alert.alert('خرابی', 'ایس ایم ایس نمبر محفوظ نہیں ہو سکا');
+    }
+  };
+
   const handleHistoricalSync = async () => {
     try {
       setIsSyncing(true);
-      Alert.alert('پرانا ڈیٹا سنک', 'ڈیٹا سنک شروع ہو رہا ہے...');
+      setHistoricalSyncProgress('ڈیٹا سنک شروع ہو رہا ہے...');
+      historicalSyncAbort.current = new AbortController();
       
-      const result = await HistoricalSyncService.syncAllHistoricalData();
-      
-              Alert.alert(
-          'ڈیٹا سنک مکمل',
+      // Shares a lock with the automatic pull so the two never overlap
+      const ran = await syncScheduler.runExclusive('pull', async () => {
+        const result = await HistoricalSyncService.syncAllHistoricalData({
+          // From the start of the chosen fiscal year up to the end of the current one
+          range: {
+            start: oldestFiscalYear.start,
+            end: fiscalYearOptions[0].end,
+          },
+          onProgress: progress => setHistoricalSyncProgress(formatHistoricalSyncProgress(progress)),
+          signal: historicalSyncAbort.current?.signal,
+        });
+        Alert.alert(
+          result.cancelled ? 'ڈیٹا سنک روک دیا گیا' : 'ڈیٹا سنک مکمل',
           `عطیات: ${result.donations}\nاخراجات: ${result.expenses}`
         );
+      });
+      if (!ran) {
+        Alert.alert('سنک پہلے سے جاری ہے۔ براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔');
+      }
     } catch (error) {
       Alert.alert('خرابی', 'تاریخی ڈیٹا سنک ناکام ہوا');
       console.error('Historical sync error:', error);
     } finally {
+      historicalSyncAbort.current = null;
+      setHistoricalSyncProgress('');
       setIsSyncing(false);
     }
   };
@@ -48,8 +128,8 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
       setIsLoggingOut(true);
       
       // Check if there are pending sync items
-      const hasPendingDonations = syncStatus.pendingCount > 0;
-      const hasPendingExpenses = expenseSyncStatus.pendingCount > 0;
+      const hasPendingDonations = syncStatus.pendingCount + syncStatus.failedCount > 0;
+      const hasPendingExpenses = expenseSyncStatus.pendingCount + expenseSyncStatus.failedCount > 0;
       
       if (hasPendingDonations || hasPendingExpenses) {
         Alert.alert(
@@ -93,13 +173,15 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
       await Promise.all([updateSyncStatus(), updateExpenseSyncStatus()]);
       
       // Get fresh data directly from database to check actual pending counts
-      const [actualPendingDonations, actualPendingExpenses] = await Promise.all([
+      const [actualPendingDonations, actualPendingExpenses, failedDonations, failedExpenses] = await Promise.all([
         databaseService.getPendingSyncCount(),
         databaseService.getPendingSyncExpenseCount(),
+        databaseService.getFailedSyncCount(),
+        databaseService.getFailedSyncExpenseCount(),
       ]);
       
-      // Check if there are still pending items using fresh database data
-      if (actualPendingDonations > 0 || actualPendingExpenses > 0) {
+      // Check if there are still pending or failed items using fresh database data
+      if (actualPendingDonations + actualPendingExpenses + failedDonations + failedExpenses > 0) {
         Alert.alert(
           'ڈیٹا سنک ناکام',
           'کچھ ڈیٹا سنک نہیں ہو سکا۔ براہ کرم ایڈمن سے رابطہ کریں۔'
@@ -152,30 +234,85 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
           
           {/* Historical Sync */}
           <TouchableOpacity
-            style={[styles.settingItem, isSyncing && styles.settingItemDisabled]}
-            onPress={handleHistoricalSync}
-            disabled={isSyncing}
+            style={styles.settingItem}
+            onPress={isSyncing ? () => historicalSyncAbort.current?.abort() : handleHistoricalSync}
           >
             <ThemedView style={styles.settingContent}>
               <Ionicons name="cloud-download" size={24} color="#FF9800" />
               <ThemedView style={styles.settingText}>
                 <ThemedText style={styles.settingTitle}>تاریخی ڈیٹا سنک</ThemedText>
                 <ThemedText style={styles.settingDescription}>
-                  سرور سے تاریخی ڈیٹا ڈاؤن لوڈ کریں
+                  {isSyncing
+                    ? `${historicalSyncProgress} (روکنے کے لیے دبائیں)`
+                    : `مالی سال ${oldestFiscalYear.label} سے اب تک کا ڈیٹا ڈاؤن لوڈ کریں`}
                 </ThemedText>
               </ThemedView>
             </ThemedView>
             {isSyncing ? (
-              <Ionicons name="sync" size={20} color="#007AFF" />
+              <Ionicons name="close-circle" size={20} color="#F44336" />
             ) : (
               <Ionicons name="chevron-forward" size={20} color="#666" />
             )}
           </TouchableOpacity>
 
+          {/* Fiscal Year */}
+          <ThemedView style={styles.settingItem}>
+            <ThemedView style={styles.settingContent}>
+              <Ionicons name="calendar" size={24} color="#FF9800" />
+              <ThemedView style={styles.settingText}>
+                <ThemedText style={styles.settingTitle}>مالی سال</ThemedText>
+                <View style={styles.optionRow}>
+                  {([['gregorian', 'عیسوی'], ['hijri', 'ہجری']] as const).map(([calendar, label]) => (
+                    <TouchableOpacity
+                      key={calendar}
+                      style={[styles.optionChip, fiscalYear.calendar === calendar && styles.optionChipSelected]}
+                      onPress={() => saveFiscalYearSettings({ fiscalYear: { ...fiscalYear, calendar } })}
+                      disabled={isSyncing}
+                    >
+                      <ThemedText style={[styles.optionText, fiscalYear.calendar === calendar && styles.optionTextSelected]}>
+                        {label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <ThemedText style={styles.settingDescription}>سال کا پہلا مہینہ</ThemedText>
+                <View style={styles.optionRow}>
+                  {monthNames.map((name, index) => (
+                    <TouchableOpacity
+                      key={name}
+                      style={[styles.optionChip, fiscalYear.startMonth === index + 1 && styles.optionChipSelected]}
+                      onPress={() => saveFiscalYearSettings({ fiscalYear: { ...fiscalYear, startMonth: index + 1 } })}
+                      disabled={isSyncing}
+                    >
+                      <ThemedText style={[styles.optionText, fiscalYear.startMonth === index + 1 && styles.optionTextSelected]}>
+                        {name}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <ThemedText style={styles.settingDescription}>کس مالی سال سے ڈیٹا ڈاؤن لوڈ کریں</ThemedText>
+                <View style={styles.optionRow}>
+                  {fiscalYearOptions.map((option, yearsBack) => (
+                    <TouchableOpacity
+                      key={option.start}
+                      style={[styles.optionChip, historicalYears === yearsBack && styles.optionChipSelected]}
+                      onPress={() => saveFiscalYearSettings({ historicalYears: yearsBack })}
+                      disabled={isSyncing}
+                    >
+                      <ThemedText style={[styles.optionText, historicalYears === yearsBack && styles.optionTextSelected]}>
+                        {option.label}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+
           {/* Manual Donation Sync */}
           <TouchableOpacity
             style={[styles.settingItem, syncStatus?.isSyncing && styles.settingItemDisabled]}
-            onPress={manualSync}
+            onPress={() => manualSync()}
             disabled={syncStatus?.isSyncing}
           >
             <ThemedView style={styles.settingContent}>
@@ -183,7 +320,7 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
               <ThemedView style={styles.settingText}>
                 <ThemedText style={styles.settingTitle}>عطیات ڈیٹا سنک</ThemedText>
                 <ThemedText style={styles.settingDescription}>
-                  {syncStatus?.isSyncing ? 'ڈیٹا سنک ہو رہا ہے...' : `(${syncStatus?.pendingCount || 0} زیر التواء)`}
+                  {syncStatus?.isSyncing ? 'ڈیٹا سنک ہو رہا ہے...' : `(${syncStatus?.pendingCount || 0} زیر التواء${syncStatus?.failedCount ? `، ${syncStatus.failedCount} ناکام` : ''})`}
                 </ThemedText>
               </ThemedView>
             </ThemedView>
@@ -197,7 +334,7 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
           {/* Manual Expense Sync */}
           <TouchableOpacity
             style={[styles.settingItem, expenseSyncStatus?.isSyncing && styles.settingItemDisabled]}
-            onPress={manualExpenseSync}
+            onPress={() => manualExpenseSync()}
             disabled={expenseSyncStatus?.isSyncing}
           >
             <ThemedView style={styles.settingContent}>
@@ -205,7 +342,7 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
               <ThemedView style={styles.settingText}>
                 <ThemedText style={styles.settingTitle}>اخراجات ڈیٹا سنک</ThemedText>
                 <ThemedText style={styles.settingDescription}>
-                  {expenseSyncStatus?.isSyncing ? 'ڈیٹا سنک ہو رہا ہے...' : `(${expenseSyncStatus?.pendingCount || 0} زیر التواء)`}
+                  {expenseSyncStatus?.isSyncing ? 'ڈیٹا سنک ہو رہا ہے...' : `(${expenseSyncStatus?.pendingCount || 0} زیر التواء${expenseSyncStatus?.failedCount ? `، ${expenseSyncStatus.failedCount} ناکام` : ''})`}
                 </ThemedText>
               </ThemedView>
             </ThemedView>
@@ -216,9 +353,115 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
             )}
           </TouchableOpacity>
 
+          {/* SMS Fallback */}
+          <ThemedView style={styles.settingItem}>
+            <ThemedView style={styles.settingContent}>
+              <Ionicons name="chatbubble-ellipses" size={24} color="#2196F3" />
+              <ThemedView style={styles.settingText}>
+                <ThemedText style={styles.settingTitle}>ایس ایم ایس نمبر</ThemedText>
+                <TextInput
+                  style={styles.settingInput}
+                  value={smsFallbackNumber}
+                  onChangeText={setSmsFallbackNumber}
+                  onEndEditing={saveSmsFallbackNumber}
+                  placeholder="+92..."
+                  keyboardType="phone-pad"
+                />
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+
+          <TouchableOpacity
+            style={[styles.settingItem, syncStatus?.isSyncing && styles.settingItemDisabled]}
+            onPress={sendDonationsBySms}
+            disabled={syncStatus?.isSyncing}
+          >
+            <ThemedView style={styles.settingContent}>
+              <Ionicons name="chatbox" size={24} color="#2196F3" />
+              <ThemedView style={styles.settingText}>
+                <ThemedText style={styles.settingTitle}>ایس ایم ایس کے ذریعے بھیجیں</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  انٹرنیٹ نہ ہونے پر زیر التواء عطیات ایس ایم ایس سے بھیجیں
+                </ThemedText>
+              </ThemedView>
+            </ThemedView>
+            <Ionicons name="chevron-forward" size={20} color="#666" />
+          </TouchableOpacity>
+
 
         </ThemedView>
 
+        {/* Location Section */}
+        {!!username && (
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>مقام</ThemedText>
+
+            <ThemedView style={styles.settingItem}>
+              <ThemedView style={styles.settingContent}>
+                <Ionicons name="location" size={24} color="#4CAF50" />
+                <ThemedView style={styles.settingText}>
+                  <ThemedText style={styles.settingTitle}>عطیہ کا مقام محفوظ کریں</ThemedText>
+                  <ThemedText style={styles.settingDescription}>
+                    نیا عطیہ محفوظ کرتے وقت آپ کا موجودہ مقام ساتھ محفوظ ہوگا
+                  </ThemedText>
+                </ThemedView>
+              </ThemedView>
+              <Switch value={locationCapture} onValueChange={saveLocationCapture} />
+            </ThemedView>
+          </ThemedView>
+        )}
+
+        {/* Currency Section */}
+        {onOpenExchangeRates && (
+          <ThemedView style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>کرنسی</ThemedText>
+
+            <TouchableOpacity style={styles.settingItem} onPress={onOpenExchangeRates}>
+              <ThemedView style={styles.settingContent}>
+                <Ionicons name="swap-horizontal" size={24} color="#2196F3" />
+                <ThemedView style={styles.settingText}>
+                  <ThemedText style={styles.settingTitle}>شرح مبادلہ</ThemedText>
+                  <ThemedText style={styles.settingDescription}>
+                    دیگر کرنسیوں کی شرح درج یا فائل سے امپورٹ کریں
+                  </ThemedText>
+                </ThemedView>
+              </ThemedView>
+              <Ionicons name="chevron-forward" size={20} color="#666" />
+            </TouchableOpacity>
+          </ThemedView>
+        )}
+
+        {/* Backup Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>بیک اپ</ThemedText>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => setBackupMode('backup')}>
+            <ThemedView style={styles.settingContent}>
+              <Ionicons name="archive" size={24} color="#4CAF50" />
+              <ThemedView style={styles.settingText}>
+                <ThemedText style={styles.settingTitle}>بیک اپ بنائیں</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  تمام ڈیٹا اور تصاویر پاس فریز سے محفوظ فائل میں
+                </ThemedText>
+              </ThemedView>
+            </ThemedView>
+            <Ionicons name="chevron-forward" size={20} color="#666" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => setBackupMode('restore')}>
+            <ThemedView style={styles.settingContent}>
+              <Ionicons name="refresh-circle" size={24} color="#F57C00" />
+              <ThemedView style={styles.settingText}>
+                <ThemedText style={styles.settingTitle}>بیک اپ بحال کریں</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  اس فون کا ڈیٹا بیک اپ فائل سے بدل دیں
+                </ThemedText>
+              </ThemedView>
+            </ThemedView>
+            <Ionicons name="chevron-forward" size={20} color="#666" />
+          </TouchableOpacity>
+        </ThemedView>
+
         {/* Account Section */}
         <ThemedView style={styles.section}>
           <ThemedText style={styles.sectionTitle}>اکاؤنٹ</ThemedText>
@@ -276,6 +519,12 @@ export default function SettingsScreen({ onLogout, onBack }: SettingsScreenProps
           </ThemedText>
         </TouchableOpacity>
       </ScrollView>
+
+      <BackupModal
+        mode={backupMode}
+        onClose={() => setBackupMode(null)}
+        onRestored={() => Promise.all([updateSyncStatus(), updateExpenseSyncStatus()])}
+      />
     </ThemedView>
   );
 }
@@ -355,6 +604,42 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  settingInput: {
+    marginTop: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    backgroundColor: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginVertical: 6,
+  },
+  optionChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  optionChipSelected: {
+    backgroundColor: '#FF9800',
+    borderColor: '#FF9800',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
   logoutItem: {
     borderColor: '#F44336',
     backgroundColor: '#fff5f5',
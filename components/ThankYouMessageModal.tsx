@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { DonorNotificationService, NotificationChannel } from '../services/DonorNotificationService';
+import { DonationRecord } from '../types/data';
+import { buildThankYouMessage, MessageLanguage } from '../utils/thankYouMessage';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+const CHANNELS: { label: string; value: NotificationChannel }[] = [
+  { label: '✉️ ایس ایم ایس', value: 'sms' },
+  { label: '💬 واٹس ایپ', value: 'whatsapp' },
+  { label: '📤 دیگر', value: 'share' },
+];
+
+interface ThankYouMessageModalProps {
+  donation: DonationRecord | null;
+  onClose: () => void;
+  onSent?: (donation: DonationRecord) => void;
+}
+
+export function ThankYouMessageModal({ donation, onClose, onSent }: ThankYouMessageModalProps) {
+  const [language, setLanguage] = useState<MessageLanguage>('ur');
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  useEffect(() => {
+    if (donation) {
+      setMessage(buildThankYouMessage(donation, language));
+    }
+  }, [donation, language]);
+
+  const send = async (channel: NotificationChannel) => {
+    if (!donation) return;
+    setIsSending(true);
+    const result = await DonorNotificationService.send(donation, channel, message);
+    setIsSending(false);
+
+    if (result === 'sent') {
+      onSent?.({ ...donation, notifiedAt: new Date().toISOString() });
+      onClose();
+    } else if (result === 'unavailable') {
+      Alert.alert('خرابی', 'اس ڈیوائس پر یہ طریقہ دستیاب نہیں۔ براہ کرم کوئی دوسرا طریقہ منتخب کریں۔');
+    }
+  };
+
+  return (
+    <Modal visible={donation !== null} animationType="slide" onRequestClose={onClose}>
+      <ThemedView style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>✕ بند کریں</ThemedText>
+          </TouchableOpacity>
+          <ThemedText type="subtitle">شکریہ کا پیغام</ThemedText>
+        </View>
+
+        {donation && (
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <ThemedText style={styles.recipientText}>
+              {donation.benefactorName} • {donation.benefactorPhone}
+            </ThemedText>
+            {donation.notifiedAt && (
+              <ThemedText style={styles.notifiedText}>
+                پچھلا پیغام: {new Date(donation.notifiedAt).toLocaleString()}
+              </ThemedText>
+            )}
+
+            <View style={styles.languageRow}>
+              {([['ur', 'اردو'], ['en', 'English']] as const).map(([value, label]) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.languageOption, language === value && styles.languageOptionSelected]}
+                  onPress={() => setLanguage(value)}
+                >
+                  <ThemedText style={[styles.languageText, language === value && styles.languageTextSelected]}>
+                    {label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={[styles.messageInput, language === 'ur' && styles.messageInputUrdu]}
+              value={message}
+              onChangeText={setMessage}
+              multiline
+            />
+
+            <View style={styles.channelRow}>
+              {CHANNELS.map(channel => (
+                <TouchableOpacity
+                  key={channel.value}
+                  style={[styles.channelButton, (isSending || !message.trim()) && styles.channelButtonDisabled]}
+                  onPress={() => send(channel.value)}
+                  disabled={isSending || !message.trim()}
+                >
+                  <ThemedText style={styles.channelButtonText}>{channel.label}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        )}
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  recipientText: {
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  notifiedText: {
+    fontSize: 13,
+    color: '#4CAF50',
+    textAlign: 'right',
+  },
+  languageRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  languageOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  languageOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  languageText: {
+    fontSize: 14,
+  },
+  languageTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  messageInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 160,
+    textAlignVertical: 'top',
+    backgroundColor: '#fff',
+  },
+  messageInputUrdu: {
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+  channelRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  channelButton: {
+    flex: 1,
+    backgroundColor: '#4CAF50',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  channelButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  channelButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { calculateZakat, GRAMS_PER_TOLA, nisabFromPrice, ZakatResult } from '../utils/zakat';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+type WeightUnit = 'tola' | 'gram';
+type NisabBasis = 'silver' | 'gold';
+
+interface ZakatCalculatorProps {
+  onUseAmount: (result: ZakatResult) => void;
+}
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export function ZakatCalculator({ onUseAmount }: ZakatCalculatorProps) {
+  const [unit, setUnit] = useState<WeightUnit>('tola');
+  const [nisabBasis, setNisabBasis] = useState<NisabBasis>('silver');
+  const [values, setValues] = useState({
+    cash: '',
+    goldWeight: '',
+    goldPrice: '',
+    silverWeight: '',
+    silverPrice: '',
+    businessAssets: '',
+    liabilities: '',
+    nisab: '',
+  });
+
+  const setValue = (key: keyof typeof values) => (text: string) => setValues(prev => ({ ...prev, [key]: text }));
+
+  // Prices are entered per tola or per gram, weights in the same unit
+  const gramsPerUnit = unit === 'tola' ? GRAMS_PER_TOLA : 1;
+  const metalPrice = { gold: toNumber(values.goldPrice), silver: toNumber(values.silverPrice) };
+  const suggestedNisab = metalPrice[nisabBasis] > 0 ? nisabFromPrice(nisabBasis, metalPrice[nisabBasis] / gramsPerUnit) : 0;
+
+  const result = calculateZakat({
+    cash: toNumber(values.cash),
+    goldValue: toNumber(values.goldWeight) * metalPrice.gold,
+    silverValue: toNumber(values.silverWeight) * metalPrice.silver,
+    businessAssets: toNumber(values.businessAssets),
+    liabilities: toNumber(values.liabilities),
+    nisab: values.nisab.trim() ? toNumber(values.nisab) : suggestedNisab,
+  });
+
+  const unitLabel = unit === 'tola' ? 'تولہ' : 'گرام';
+
+  const renderInput = (key: keyof typeof values, label: string, placeholder = '0') => (
+    <ThemedView style={styles.inputGroup}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <TextInput
+        style={styles.textInput}
+        value={values[key]}
+        onChangeText={setValue(key)}
+        placeholder={placeholder}
+        keyboardType="numeric"
+      />
+    </ThemedView>
+  );
+
+  const renderToggle = <T extends string>(options: readonly (readonly [T, string])[], selected: T, onSelect: (value: T) => void) => (
+    <View style={styles.toggleRow}>
+      {options.map(([value, label]) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.toggleOption, selected === value && styles.toggleOptionSelected]}
+          onPress={() => onSelect(value)}
+        >
+          <ThemedText style={[styles.toggleText, selected === value && styles.toggleTextSelected]}>{label}</ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      {renderInput('cash', 'نقد رقم اور بینک بیلنس')}
+
+      <ThemedText type="defaultSemiBold" style={styles.label}>سونا اور چاندی</ThemedText>
+      {renderToggle([['tola', 'تولہ'], ['gram', 'گرام']] as const, unit, setUnit)}
+      <View style={styles.row}>
+        <View style={styles.half}>{renderInput('goldPrice', `سونے کی قیمت فی ${unitLabel}`)}</View>
+        <View style={styles.half}>{renderInput('goldWeight', `سونا (${unitLabel})`)}</View>
+      </View>
+      <View style={styles.row}>
+        <View style={styles.half}>{renderInput('silverPrice', `چاندی کی قیمت فی ${unitLabel}`)}</View>
+        <View style={styles.half}>{renderInput('silverWeight', `چاندی (${unitLabel})`)}</View>
+      </View>
+
+      {renderInput('businessAssets', 'کاروباری مال اور قابل وصول رقم')}
+      {renderInput('liabilities', 'واجب الادا قرض')}
+
+      <ThemedText type="defaultSemiBold" style={styles.label}>نصاب</ThemedText>
+      {renderToggle([['silver', 'چاندی کا نصاب'], ['gold', 'سونے کا نصاب']] as const, nisabBasis, setNisabBasis)}
+      {renderInput('nisab', 'نصاب کی حد', suggestedNisab > 0 ? formatAmount(suggestedNisab) : 'قیمت درج کریں یا حد لکھیں')}
+
+      <ThemedView style={styles.resultBox}>
+        <View style={styles.resultRow}>
+          <ThemedText>{formatAmount(result.totalAssets)}</ThemedText>
+          <ThemedText style={styles.resultLabel}>کل اثاثے</ThemedText>
+        </View>
+        <View style={styles.resultRow}>
+          <ThemedText>{formatAmount(result.netAssets)}</ThemedText>
+          <ThemedText style={styles.resultLabel}>قرض کے بعد</ThemedText>
+        </View>
+        <View style={styles.resultRow}>
+          <ThemedText>{formatAmount(result.nisab)}</ThemedText>
+          <ThemedText style={styles.resultLabel}>نصاب</ThemedText>
+        </View>
+        <View style={styles.resultRow}>
+          <ThemedText type="defaultSemiBold" style={styles.zakatDue}>{formatAmount(result.zakatDue)}</ThemedText>
+          <ThemedText type="defaultSemiBold" style={styles.resultLabel}>واجب زکوٰۃ (2.5%)</ThemedText>
+        </View>
+        {!result.meetsNisab && (
+          <ThemedText style={styles.note}>
+            {result.nisab > 0 ? 'اثاثے نصاب سے کم ہیں، زکوٰۃ واجب نہیں' : 'نصاب کے لیے سونے یا چاندی کی قیمت درج کریں'}
+          </ThemedText>
+        )}
+      </ThemedView>
+
+      <TouchableOpacity
+        style={[styles.useButton, result.zakatDue <= 0 && styles.useButtonDisabled]}
+        onPress={() => onUseAmount(result)}
+        disabled={result.zakatDue <= 0}
+      >
+        <ThemedText style={styles.useButtonText}>یہ رقم زکوٰۃ عطیہ میں درج کریں</ThemedText>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    gap: 12,
+  },
+  inputGroup: {
+    gap: 6,
+  },
+  label: {
+    textAlign: 'right',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  half: {
+    flex: 1,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  toggleOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  toggleOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  toggleText: {
+    fontSize: 14,
+  },
+  toggleTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  resultBox: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#E3F2FD',
+    gap: 6,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  resultLabel: {
+    color: '#1976D2',
+  },
+  zakatDue: {
+    color: '#1976D2',
+    fontSize: 18,
+  },
+  note: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'right',
+  },
+  useButton: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  useButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  useButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { databaseService } from '../services/DatabaseService';
+import { Benefactor, BenefactorProfile, BenefactorSummary } from '../types/data';
+
+export function useBenefactors() {
+  const searchBenefactors = useCallback(async (query: string): Promise<Benefactor[]> => {
+    if (query.trim().length < 2) return [];
+    try {
+      return await databaseService.searchBenefactors(query);
+    } catch (error) {
+      console.error('Error searching benefactors:', error);
+      return [];
+    }
+  }, []);
+
+  const getBenefactors = useCallback(async (limit = 50, offset = 0, searchQuery?: string): Promise<BenefactorSummary[]> => {
+    try {
+      return await databaseService.getBenefactors(limit, offset, searchQuery);
+    } catch (error) {
+      console.error('Error getting benefactors:', error);
+      return [];
+    }
+  }, []);
+
+  const getBenefactorProfile = useCallback(async (phone: string): Promise<BenefactorProfile | null> => {
+    try {
+      return await databaseService.getBenefactorProfile(phone);
+    } catch (error) {
+      console.error('Error getting benefactor profile:', error);
+      return null;
+    }
+  }, []);
+
+  return {
+    searchBenefactors,
+    getBenefactors,
+    getBenefactorProfile,
+  };
+}
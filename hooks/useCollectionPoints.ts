@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { databaseService } from '../services/DatabaseService';
+import { clusterCollectionPoints, CollectionCluster } from '../utils/geo';
+
+export function useCollectionPoints() {
+  // startDate limits the view to donations on or after it (ISO string)
+  const getCollectionClusters = useCallback(async (cellSizeKm: number, startDate?: string): Promise<CollectionCluster[]> => {
+    try {
+      const points = await databaseService.getCollectionPoints(startDate);
+      return clusterCollectionPoints(points, cellSizeKm);
+    } catch (error) {
+      console.error('Error getting collection points:', error);
+      return [];
+    }
+  }, []);
+
+  return {
+    getCollectionClusters,
+  };
+}
@@ -0,0 +1,75 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { nanoid } from 'nanoid/non-secure';
+import { useCallback } from 'react';
+import { databaseService } from '../services/DatabaseService';
+import { DonationRecord, ReceiptBook } from '../types/data';
+import { DonationImportPreview, DonationImportRow, parseDonationImport } from '../utils/donationImport';
+import { checkReceiptSerial, describeReceiptSerialWarning, RecordedSerial } from '../utils/receiptBooks';
+
+export function useDonationImport() {
+  // Adds the receipt serial warnings DonationForm would ask about. Rows earlier
+  // in the file count as recorded, so a serial entered twice is flagged too.
+  const addSerialWarnings = useCallback(async (rows: DonationImportRow[]): Promise<void> => {
+    // Without any issued books, book numbers stay free text
+    if ((await databaseService.getReceiptBooks()).length === 0) return;
+
+    const books = new Map<string, { book: ReceiptBook | null; serials: RecordedSerial[] }>();
+    for (const row of rows) {
+      const bookNo = row.donation?.bookNo;
+      const serial = row.donation?.receiptSerialNo;
+      if (!bookNo || serial === undefined) continue;
+
+      let entry = books.get(bookNo);
+      if (!entry) {
+        const [book, serials] = await Promise.all([
+          databaseService.getReceiptBookByNo(bookNo),
+          databaseService.getReceiptSerials(bookNo),
+        ]);
+        entry = { book, serials };
+        books.set(bookNo, entry);
+      }
+      row.warnings.push(...checkReceiptSerial(entry.book, bookNo, entry.serials, serial).map(describeReceiptSerialWarning));
+      entry.serials.push({ donationId: `row-${row.rowNumber}`, serial, voided: false });
+    }
+  }, []);
+
+  // Lets the user pick a CSV file and checks every row without saving
+  // anything; null means the picker was cancelled.
+  const pickImportFile = useCallback(async (recipient: string): Promise<DonationImportPreview | null> => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) return null;
+
+    const content = await FileSystem.readAsStringAsync(picked.assets[0].uri);
+    const preview = parseDonationImport(content, recipient);
+    try {
+      await addSerialWarnings(preview.rows);
+    } catch (error) {
+      console.error('Error checking imported receipt serials:', error);
+    }
+    return preview;
+  }, [addSerialWarnings]);
+
+  // Saves the valid rows of a preview as new donations waiting to be synced
+  const importDonations = useCallback(async (rows: DonationImportRow[]): Promise<number> => {
+    const now = new Date().toISOString();
+    const donations: DonationRecord[] = rows.flatMap(row => (row.donation ? [{
+      ...row.donation,
+      id: nanoid(),
+      createdAt: now,
+      updatedAt: now,
+      syncStatus: 'pending' as const,
+    }] : []));
+
+    await databaseService.bulkSaveDonationsChunked(donations);
+    return donations.length;
+  }, []);
+
+  return {
+    pickImportFile,
+    importDonations,
+  };
+}
@@ -0,0 +1,73 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useCallback } from 'react';
+import { databaseService } from '../services/DatabaseService';
+import { ExchangeRate } from '../types/data';
+import { BASE_CURRENCY, isValidCurrencyCode, normalizeCurrencyCode, parseExchangeRateFile } from '../utils/currency';
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  errors: string[];
+}
+
+export function useExchangeRates() {
+  const getRates = useCallback(async (): Promise<ExchangeRate[]> => {
+    try {
+      return await databaseService.getExchangeRates();
+    } catch (error) {
+      console.error('Error getting exchange rates:', error);
+      return [];
+    }
+  }, []);
+
+  const saveRate = useCallback(async (currencyCode: string, rate: number): Promise<ExchangeRate> => {
+    const currency = normalizeCurrencyCode(currencyCode);
+    if (!isValidCurrencyCode(currency) || currency === BASE_CURRENCY) {
+      throw new Error(`Invalid currency code: ${currencyCode}`);
+    }
+    if (!(rate > 0)) {
+      throw new Error(`Invalid exchange rate: ${rate}`);
+    }
+
+    const exchangeRate: ExchangeRate = { currency, rate, updatedAt: new Date().toISOString() };
+    await databaseService.saveExchangeRates([exchangeRate]);
+    return exchangeRate;
+  }, []);
+
+  const deleteRate = useCallback(async (currency: string): Promise<void> => {
+    await databaseService.deleteExchangeRate(currency);
+  }, []);
+
+  // Lets the user pick a CSV/text file of `currency,rate` lines. Valid lines
+  // are saved even if others are rejected; null means the picker was cancelled.
+  const importRates = useCallback(async (): Promise<ExchangeRateImportResult | null> => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) return null;
+
+    const content = await FileSystem.readAsStringAsync(picked.assets[0].uri);
+    const { rates, errors } = parseExchangeRateFile(content);
+    const updatedAt = new Date().toISOString();
+    await databaseService.saveExchangeRates(rates.map(rate => ({ ...rate, updatedAt })));
+    return { imported: rates.length, errors };
+  }, []);
+
+  const getUnconvertedCurrencies = useCallback(async () => {
+    try {
+      return await databaseService.getUnconvertedCurrencies();
+    } catch (error) {
+      console.error('Error getting unconverted records:', error);
+      return [];
+    }
+  }, []);
+
+  return {
+    getRates,
+    saveRate,
+    deleteRate,
+    importRates,
+    getUnconvertedCurrencies,
+  };
+}
@@ -1,37 +1,74 @@
-import * as CryptoJS from 'crypto-js';
 import * as SecureStore from 'expo-secure-store';
 import { nanoid } from 'nanoid/non-secure';
 import { useCallback, useEffect, useState } from 'react';
 import { Alert } from 'react-native';
-import { API_BASE_URL } from '../constants/Config';
+import { AttachmentService } from '../services/AttachmentService';
 import { databaseService } from '../services/DatabaseService';
-import { ExpenseRecord } from '../types/data';
+import { EXPENSE_SYNC_KEYS, syncEngine } from '../services/SyncEntities';
+import { syncScheduler } from '../services/SyncScheduler';
+import { ExpenseChangeReason, ExpenseRecord, ExpenseRevision, Money } from '../types/data';
+import { ZERO_MONEY } from '../utils/money';
+import { diffFields } from '../utils/revisions';
 
 export interface ExpenseSyncStatus {
   pendingCount: number;
+  failedCount: number;
   totalExpenses: number;
   lastSyncAttempt: string | null;
   isConnected: boolean;
   isSyncing: boolean;
-  totalAmount: number;
+  totalAmount: Money;
 }
 
-function chunkArray<T>(arr: T[], size: number): T[][] {
-  const result: T[][] = [];
-  for (let i = 0; i < arr.length; i += size) {
-    result.push(arr.slice(i, i + size));
+type EditableExpenseFields = Omit<ExpenseRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'deletedAt' | 'changeReason' | 'changeNote' | 'receiptImageStatus'>;
+
+export interface ExpenseChange {
+  reasonCode: ExpenseChangeReason;
+  reasonNote?: string;
+}
+
+async function buildRevision(
+  existing: ExpenseRecord,
+  action: ExpenseRevision['action'],
+  changes: Partial<ExpenseRecord>,
+  reason: ExpenseChange
+): Promise<ExpenseRevision | null> {
+  if (!reason.reasonCode) {
+    throw new Error('A reason is required to change an expense');
+  }
+  if (reason.reasonCode === 'other' && !reason.reasonNote?.trim()) {
+    throw new Error('A note is required when the reason is "other"');
   }
-  return result;
+
+  const diff = diffFields(existing, changes);
+  if (!diff) return null;
+
+  const username = await SecureStore.getItemAsync('username');
+  return {
+    id: nanoid(),
+    expenseId: existing.id,
+    action,
+    reasonCode: reason.reasonCode,
+    reasonNote: reason.reasonNote?.trim() || undefined,
+    oldValue: diff.oldValue,
+    newValue: diff.newValue,
+    changedBy: username || '',
+    changedAt: new Date().toISOString(),
+    // Corrections to an expense the server already has go out as amendments;
+    // otherwise the expense itself is uploaded with its latest values
+    syncStatus: existing.syncStatus === 'synced' ? 'pending' : 'local',
+  };
 }
 
 export function useExpenseSync() {
   const [syncStatus, setSyncStatus] = useState<ExpenseSyncStatus>({
     pendingCount: 0,
+    failedCount: 0,
     totalExpenses: 0,
     lastSyncAttempt: null,
-    isConnected: true, // Mock as always connected
+    isConnected: syncScheduler.getState().isConnected,
     isSyncing: false,
-    totalAmount: 0,
+    totalAmount: ZERO_MONEY,
   });
 
   useEffect(() => {
@@ -48,15 +85,17 @@ export function useExpenseSync() {
 
   const updateSyncStatus = useCallback(async () => {
     try {
-      const [totalExpenses, pendingCount, totalAmount] = await Promise.all([
+      const [totalExpenses, pendingCount, failedCount, totalAmount] = await Promise.all([
         databaseService.getTotalExpenses(),
         databaseService.getPendingSyncExpenseCount(),
+        databaseService.getFailedSyncExpenseCount(),
         databaseService.getTotalExpenseAmount(),
       ]);
       setSyncStatus(prev => ({
         ...prev,
         totalExpenses,
         pendingCount,
+        failedCount,
         totalAmount,
       }));
     } catch (error) {
@@ -64,14 +103,31 @@ export function useExpenseSync() {
     }
   }, []);
 
-  const saveExpense = useCallback(async (expense: Omit<ExpenseRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => {
+  // Mirror connectivity and sync attempts from the scheduler, and refresh
+  // counts whenever a sync (manual or automatic) finishes
+  useEffect(() => {
+    return syncScheduler.subscribe(state => {
+      setSyncStatus(prev => ({
+        ...prev,
+        isConnected: state.isConnected,
+        lastSyncAttempt: state.lastSyncAttempts.expenses || null,
+      }));
+      if (!state.isSyncing && databaseService.isInitialized()) {
+        updateSyncStatus();
+      }
+    });
+  }, [updateSyncStatus]);
+
+  const saveExpense = useCallback(async (expense: Omit<ExpenseRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'receiptImageStatus'>) => {
     try {
       const newExpense: ExpenseRecord = {
         ...expense,
+        receiptImage: expense.receiptImage && await AttachmentService.keep(expense.receiptImage),
         id: nanoid(),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         syncStatus: 'pending',
+        receiptImageStatus: expense.receiptImage ? 'pending' : undefined,
       };
       await databaseService.saveExpense(newExpense);
       await updateSyncStatus();
@@ -82,83 +138,132 @@ export function useExpenseSync() {
     }
   }, [updateSyncStatus]);
 
-  const manualSync = useCallback(async () => {
+  const updateExpense = useCallback(async (id: string, changes: Partial<EditableExpenseFields>, reason: ExpenseChange) => {
     try {
-      setSyncStatus(prev => ({ ...prev, isSyncing: true }));
-      // 1. Get credentials
-      const username = await SecureStore.getItemAsync('username');
-      const signingKey = await SecureStore.getItemAsync('signingKey');
-      if (!username || !signingKey) {
-        Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
-        return;
+      const existing = await databaseService.getExpenseById(id);
+      if (!existing) {
+        throw new Error(`Expense ${id} not found`);
       }
-      // 2. Get all pending expenses
-      const pendingExpenses = await databaseService.getPendingSyncExpenses();
-      if (pendingExpenses.length === 0) return;
-      // 3. Chunk into batches of 100
-      const batches = chunkArray(pendingExpenses, 100);
-      let hadError = false;
-      for (const batch of batches) {
-        const timestamp = new Date().toISOString();
-        
-        // Filter out internal fields before sending to API
-        const cleanBatch = batch.map(expense => ({
-          id: expense.id,
-          amount: expense.amount,
-          currency: expense.currency,
-          payee: expense.payee,
-          category: expense.category,
-          description: expense.description,
-          date: expense.date,
-          isPersonal: expense.isPersonal,
-        }));
-        
-        const batchString = JSON.stringify(cleanBatch);
-        const dataToSign = batchString + timestamp + username;
-        // 4. Calculate signature (HMAC-SHA256)
-        const signature = CryptoJS.HmacSHA256(
-          dataToSign,
-          signingKey
-        ).toString();
-
-        try {
-
-          const body = {
-            expenses: cleanBatch,
-            timestamp,
-            username,
-            signature,
-          };
-
-          console.log('Expense Sync Body', body);
-          const res = await fetch(`${API_BASE_URL}/expenses/bulk-save`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(body),
-          });
-          if (res.ok) {
-            for (const expense of batch) {
-              await databaseService.updateExpenseSyncStatus(expense.id, 'synced');
-            }
-          } else {
-            hadError = true;
-          }
-        } catch (err) {
-          hadError = true;
-        }
+      if (existing.deletedAt) {
+        throw new Error(`Expense ${id} is deleted and cannot be edited`);
       }
-      if (hadError) {
-        Alert.alert('کچھ اخراجات ڈیٹا سنک نہیں ہو سکے۔ براہ کرم ایڈمن سے رابطہ کریں۔');
+      const edits = changes.receiptImage
+        ? { ...changes, receiptImage: await AttachmentService.keep(changes.receiptImage) }
+        : changes;
+      const revision = await buildRevision(existing, 'edit', edits, reason);
+      if (!revision) return existing;
+
+      const updatedExpense: ExpenseRecord = {
+        ...existing,
+        ...edits,
+        changeReason: revision.reasonCode,
+        changeNote: revision.reasonNote,
+        updatedAt: revision.changedAt,
+        // A corrected record gets a fresh set of upload attempts
+        syncStatus: existing.syncStatus === 'failed' ? 'pending' : existing.syncStatus,
+        // A replaced photo has to be uploaded again
+        receiptImageStatus: 'receiptImage' in revision.newValue
+          ? (edits.receiptImage ? 'pending' : undefined)
+          : existing.receiptImageStatus,
+      };
+      await databaseService.updateExpense(updatedExpense, revision);
+      // The replaced photo is only removed once nothing refers to it
+      if ('receiptImage' in revision.newValue && existing.receiptImage) {
+        await AttachmentService.delete(existing.receiptImage);
       }
+      await updateSyncStatus();
+      return updatedExpense;
     } catch (error) {
-      console.error('Error during manual expense sync:', error);
-    } finally {
+      console.error('Error updating expense:', error);
+      throw error;
+    }
+  }, [updateSyncStatus]);
+
+  const deleteExpense = useCallback(async (id: string, reason: ExpenseChange) => {
+    try {
+      const existing = await databaseService.getExpenseById(id);
+      if (!existing) {
+        throw new Error(`Expense ${id} not found`);
+      }
+      if (existing.deletedAt) return;
+      const revision = await buildRevision(existing, 'delete', { deletedAt: new Date().toISOString() }, reason);
+      if (!revision) return;
+
+      await databaseService.deleteExpense(id, revision);
       await updateSyncStatus();
-      setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+      throw error;
     }
   }, [updateSyncStatus]);
 
+  const getExpenseRevisions = useCallback(async (expenseId: string) => {
+    try {
+      return await databaseService.getExpenseRevisions(expenseId);
+    } catch (error) {
+      console.error('Error getting expense revisions:', error);
+      return [];
+    }
+  }, []);
+
+  const manualSync = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent && !syncScheduler.getState().isConnected) {
+      Alert.alert('انٹرنیٹ کنکشن نہیں', 'ڈیٹا انٹرنیٹ ملنے پر خودکار طور پر سنک ہو جائے گا۔');
+      return;
+    }
+    await syncScheduler.runExclusive('expenses', async () => {
+      try {
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+
+        // Automatic runs leave records that are still backing off for later;
+        // a manual sync also sends again the ones that ran out of retries
+        const result = await syncEngine.run(EXPENSE_SYNC_KEYS, { respectBackoff: silent, includeFailed: !silent });
+        if (silent) return;
+        if (result === 'no_credentials') {
+          Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
+        } else if (result === 'incomplete') {
+          Alert.alert('کچھ اخراجات ڈیٹا سنک نہیں ہو سکے۔ براہ کرم ایڈمن سے رابطہ کریں۔');
+        }
+      } catch (error) {
+        console.error('Error during manual expense sync:', error);
+      } finally {
+        await updateSyncStatus();
+        setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+      }
+    });
+  }, [updateSyncStatus]);
 
+  // Re-sends a single expense, e.g. one that was marked failed after maxRetries
+  const retryExpenseSync = useCallback(async (id: string) => {
+    const ran = await syncScheduler.runExclusive('expenses', async () => {
+      try {
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+        const result = await syncEngine.retryRecord('expenses', id);
+        if (result === 'no_credentials') {
+          Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
+        } else if (result === 'synced') {
+          Alert.alert('خرچ کامیابی سے سنک ہو گیا۔');
+        } else if (result === 'incomplete') {
+          // Rejected records are marked failed straight away; show why
+          const updated = await databaseService.getExpenseById(id);
+          Alert.alert(
+            'خرچ سنک نہیں ہو سکا',
+            updated?.syncStatus === 'failed'
+              ? updated.syncFailure?.lastError || ''
+              : 'یہ خودکار طور پر دوبارہ بھیجا جائے گا۔'
+          );
+        }
+      } catch (error) {
+        console.error('Error retrying expense sync:', error);
+      } finally {
+        await updateSyncStatus();
+        setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+      }
+    });
+    if (!ran) {
+      Alert.alert('سنک پہلے سے جاری ہے۔ براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔');
+    }
+  }, [updateSyncStatus]);
 
   const getExpenses = useCallback(async (limit = 50, offset = 0, searchQuery?: string) => {
     try {
@@ -194,7 +299,7 @@ export function useExpenseSync() {
       console.error('Error getting expense statistics:', error);
       return {
         totalExpenses: 0,
-        totalAmount: 0,
+        totalAmount: ZERO_MONEY,
         pendingCount: 0,
       };
     }
@@ -208,9 +313,13 @@ export function useExpenseSync() {
   return {
     syncStatus,
     saveExpense,
+    updateExpense,
+    deleteExpense,
     manualSync,
+    retryExpenseSync,
     getExpenses,
     getExpenseById,
+    getExpenseRevisions,
     getStatistics,
     updateSyncStatus,
   };
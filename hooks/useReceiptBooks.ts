@@ -0,0 +1,101 @@
+import { nanoid } from 'nanoid/non-secure';
+import { useCallback } from 'react';
+import { databaseService } from '../services/DatabaseService';
+import { ReceiptBook, ReceiptBookReconciliation } from '../types/data';
+import { checkReceiptSerial, reconcileReceiptBook, ReceiptSerialWarning } from '../utils/receiptBooks';
+
+export interface IssueReceiptBookInput {
+  bookNo: string;
+  collector: string;
+  startSerial: number;
+  endSerial: number;
+}
+
+export function useReceiptBooks() {
+  const getReceiptBooks = useCallback(async (collector?: string): Promise<ReceiptBook[]> => {
+    try {
+      return await databaseService.getReceiptBooks(collector);
+    } catch (error) {
+      console.error('Error getting receipt books:', error);
+      return [];
+    }
+  }, []);
+
+  const issueReceiptBook = useCallback(async (input: IssueReceiptBookInput): Promise<ReceiptBook> => {
+    const bookNo = input.bookNo.trim();
+    if (!bookNo || !input.collector.trim()) {
+      throw new Error('Book number and collector are required');
+    }
+    if (!Number.isInteger(input.startSerial) || !Number.isInteger(input.endSerial) || input.startSerial < 1 || input.endSerial < input.startSerial) {
+      throw new Error('Invalid serial range');
+    }
+    if (await databaseService.getReceiptBookByNo(bookNo)) {
+      throw new Error(`Receipt book ${bookNo} has already been issued`);
+    }
+
+    const now = new Date().toISOString();
+    const book: ReceiptBook = {
+      id: nanoid(),
+      bookNo,
+      collector: input.collector.trim(),
+      startSerial: input.startSerial,
+      endSerial: input.endSerial,
+      issuedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await databaseService.saveReceiptBook(book);
+    return book;
+  }, []);
+
+  const setReceiptBookClosed = useCallback(async (book: ReceiptBook, closed: boolean): Promise<ReceiptBook> => {
+    const now = new Date().toISOString();
+    const updated: ReceiptBook = { ...book, closedAt: closed ? now : undefined, updatedAt: now };
+    await databaseService.saveReceiptBook(updated);
+    return updated;
+  }, []);
+
+  const getReconciliation = useCallback(async (book: ReceiptBook): Promise<ReceiptBookReconciliation> => {
+    return reconcileReceiptBook(book, await databaseService.getReceiptSerials(book.bookNo));
+  }, []);
+
+  // Next unused serial from the collector's oldest open book that still has room
+  const getNextReceipt = useCallback(async (collector: string): Promise<{ bookNo: string; serial: number } | null> => {
+    try {
+      const books = (await databaseService.getReceiptBooks(collector))
+        .filter(book => !book.closedAt)
+        .reverse();
+      for (const book of books) {
+        const { nextSerial } = await getReconciliation(book);
+        if (nextSerial !== null) {
+          return { bookNo: book.bookNo, serial: nextSerial };
+        }
+      }
+      return null;
+    } catch (error) {
+      console.error('Error getting next receipt serial:', error);
+      return null;
+    }
+  }, [getReconciliation]);
+
+  const checkSerial = useCallback(async (bookNo: string, serial: number, donationId?: string): Promise<ReceiptSerialWarning[]> => {
+    const [book, serials] = await Promise.all([
+      databaseService.getReceiptBookByNo(bookNo),
+      databaseService.getReceiptSerials(bookNo),
+    ]);
+    // Without any issued books, book numbers stay free text
+    if (!book && (await databaseService.getReceiptBooks()).length === 0) {
+      return [];
+    }
+    return checkReceiptSerial(book, bookNo, serials, serial, donationId);
+  }, []);
+
+  return {
+    getReceiptBooks,
+    issueReceiptBook,
+    setReceiptBookClosed,
+    getReconciliation,
+    getNextReceipt,
+    checkSerial,
+  };
+}
@@ -1,34 +1,34 @@
-import * as CryptoJS from 'crypto-js';
 import * as SecureStore from 'expo-secure-store';
 import { nanoid } from 'nanoid/non-secure';
 import { useCallback, useEffect, useState } from 'react';
 import { Alert } from 'react-native';
-import { API_BASE_URL } from '../constants/Config';
+import { AttachmentService } from '../services/AttachmentService';
 import { databaseService } from '../services/DatabaseService';
-import { DonationRecord } from '../types/data';
+import { SmsSyncService } from '../services/SmsSyncService';
+import { DONATION_SYNC_KEYS, syncEngine } from '../services/SyncEntities';
+import { syncScheduler } from '../services/SyncScheduler';
+import { DonationRecord, DonationRevision } from '../types/data';
+import { ZERO_MONEY } from '../utils/money';
+import { diffFields } from '../utils/revisions';
 
 export interface SyncStatus {
   pendingCount: number;
+  failedCount: number;
   totalRecords: number;
   lastSyncAttempt: string | null;
   isConnected: boolean;
   isSyncing: boolean;
 }
 
-function chunkArray<T>(arr: T[], size: number): T[][] {
-  const result: T[][] = [];
-  for (let i = 0; i < arr.length; i += size) {
-    result.push(arr.slice(i, i + size));
-  }
-  return result;
-}
+type EditableDonationFields = Omit<DonationRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'voidedAt' | 'receiptImageStatus'>;
 
 export function useSync() {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
     pendingCount: 0,
+    failedCount: 0,
     totalRecords: 0,
     lastSyncAttempt: null,
-    isConnected: true, // Mock as always connected
+    isConnected: syncScheduler.getState().isConnected,
     isSyncing: false,
   });
 
@@ -50,29 +50,48 @@ export function useSync() {
 
   const updateSyncStatus = useCallback(async () => {
     try {
-      const [totalDonations, pendingCount] = await Promise.all([
+      const [totalDonations, pendingCount, failedCount] = await Promise.all([
         databaseService.getTotalDonations(),
         databaseService.getPendingSyncCount(),
+        databaseService.getFailedSyncCount(),
       ]);
 
       setSyncStatus(prev => ({
         ...prev,
         totalRecords: totalDonations,
         pendingCount,
+        failedCount,
       }));
     } catch (error) {
       console.error('Error updating sync status:', error);
     }
   }, []);
 
-  const saveDonation = useCallback(async (donation: Omit<DonationRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => {
+  // Mirror connectivity and sync attempts from the scheduler, and refresh
+  // counts whenever a sync (manual or automatic) finishes
+  useEffect(() => {
+    return syncScheduler.subscribe(state => {
+      setSyncStatus(prev => ({
+        ...prev,
+        isConnected: state.isConnected,
+        lastSyncAttempt: state.lastSyncAttempts.donations || null,
+      }));
+      if (!state.isSyncing && databaseService.isInitialized()) {
+        updateSyncStatus();
+      }
+    });
+  }, [updateSyncStatus]);
+
+  const saveDonation = useCallback(async (donation: Omit<DonationRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'receiptImageStatus'>) => {
     try {
       const newDonation: DonationRecord = {
         ...donation,
+        receiptImage: donation.receiptImage && await AttachmentService.keep(donation.receiptImage),
         id: nanoid(),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         syncStatus: 'pending',
+        receiptImageStatus: donation.receiptImage ? 'pending' : undefined,
       };
 
       await databaseService.saveDonation(newDonation);
@@ -85,94 +104,190 @@ export function useSync() {
     }
   }, [updateSyncStatus]);
 
-  const manualSync = useCallback(async () => {
+  const recordRevision = useCallback(async (
+    existing: DonationRecord,
+    action: DonationRevision['action'],
+    changes: Partial<DonationRecord>
+  ) => {
+    const diff = diffFields(existing, changes);
+    if (!diff) return existing;
+    const { oldValue, newValue } = diff;
+
+    const now = new Date().toISOString();
+    const username = await SecureStore.getItemAsync('username');
+    const updatedDonation: DonationRecord = {
+      ...existing,
+      ...changes,
+      updatedAt: now,
+      // A corrected record gets a fresh set of upload attempts
+      syncStatus: existing.syncStatus === 'failed' ? 'pending' : existing.syncStatus,
+      // A replaced photo has to be uploaded again
+      receiptImageStatus: 'receiptImage' in newValue
+        ? (changes.receiptImage ? 'pending' : undefined)
+        : existing.receiptImageStatus,
+    };
+    const revision: DonationRevision = {
+      id: nanoid(),
+      donationId: existing.id,
+      action,
+      oldValue,
+      newValue,
+      changedBy: username || '',
+      changedAt: now,
+      // Unsynced donations are uploaded with their latest values anyway, so
+      // only changes to donations the server may already have need to go out
+      // as amendments.
+      syncStatus: existing.syncStatus === 'synced' || existing.syncStatus === 'sms_sent' ? 'pending' : 'local',
+    };
+
+    await databaseService.updateDonationWithRevision(updatedDonation, revision);
+    // The replaced photo is only removed once nothing refers to it
+    if ('receiptImage' in newValue && existing.receiptImage) {
+      await AttachmentService.delete(existing.receiptImage);
+    }
+    await updateSyncStatus();
+    return updatedDonation;
+  }, [updateSyncStatus]);
+
+  const updateDonation = useCallback(async (id: string, changes: Partial<EditableDonationFields>) => {
     try {
-      setSyncStatus(prev => ({ ...prev, isSyncing: true }));
-
-      // 1. Get credentials
-      const username = await SecureStore.getItemAsync('username');
-      const signingKey = await SecureStore.getItemAsync('signingKey');
-      if (!username || !signingKey) {
-        Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
-        return;
+      const existing = await databaseService.getDonationById(id);
+      if (!existing) {
+        throw new Error(`Donation ${id} not found`);
       }
-
-      // 2. Get all pending donations
-      const pendingDonations = await databaseService.getPendingSyncDonations();
-      if (pendingDonations.length === 0) return;
-      // 3. Chunk into batches of 100
-      const batches = chunkArray(pendingDonations, 100);
-      let hadError = false;
-      for (const batch of batches) {
-        const timestamp = new Date().toISOString();
-        
-        // Filter out internal fields before sending to API
-        const cleanBatch = batch.map(donation => ({
-          id: donation.id,
-          amount: donation.amount,
-          currency: donation.currency,
-          benefactorName: donation.benefactorName,
-          benefactorPhone: donation.benefactorPhone,
-          benefactorAddress: donation.benefactorAddress,
-          recipient: donation.recipient,
-          category: donation.category,
-          description: donation.description,
-          bookNo: donation.bookNo,
-          serialNo: donation.receiptSerialNo, 
-          date: donation.date,
-        }));
-        
-        const batchString = JSON.stringify(cleanBatch);
-        const dataToSign = batchString + timestamp + username;
-        // 4. Calculate signature (HMAC-SHA256)
-        const signature = CryptoJS.HmacSHA256(
-          dataToSign,
-          signingKey
-        ).toString();
-
-        console.log('=== DONATION SYNC DEBUG INFO ===');
-        console.log('timestamp:', timestamp);
-        console.log('username:', username);
-        console.log('batch length:', batch.length);
-        console.log('dataToSign length:', dataToSign.length);
-        console.log('dataToSign preview:', dataToSign);
-        console.log('signature:', signature);
-        console.log('================================');
-
-        try {
-          const res = await fetch(`${API_BASE_URL}/v1.1/donations/bulk-save`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              donations: cleanBatch,
-              timestamp,
-              username,
-              signature,
-            }),
-          });
-          if (res.ok) {
-            for (const donation of batch) {
-              await databaseService.updateDonationSyncStatus(donation.id, 'synced');
-            }
-          } else {
-            hadError = true;
-          }
-        } catch (err) {
-          hadError = true;
-        }
+      if (existing.voidedAt) {
+        throw new Error(`Donation ${id} is void and cannot be edited`);
       }
-      if (hadError) {
-        Alert.alert('کچھ ریکارڈز ڈیٹا سنک نہیں ہو سکے۔ براہ کرم ایڈمن سے رابطہ کریں۔');
+      const edits = changes.receiptImage
+        ? { ...changes, receiptImage: await AttachmentService.keep(changes.receiptImage) }
+        : changes;
+      return await recordRevision(existing, 'edit', edits);
+    } catch (error) {
+      console.error('Error updating donation:', error);
+      throw error;
+    }
+  }, [recordRevision]);
+
+  const voidDonation = useCallback(async (id: string) => {
+    try {
+      const existing = await databaseService.getDonationById(id);
+      if (!existing) {
+        throw new Error(`Donation ${id} not found`);
       }
+      if (existing.voidedAt) return existing;
+      return await recordRevision(existing, 'void', { voidedAt: new Date().toISOString() });
     } catch (error) {
-      console.error('Error during manual sync:', error);
-    } finally {
-      await updateSyncStatus();
-      setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+      console.error('Error voiding donation:', error);
+      throw error;
+    }
+  }, [recordRevision]);
+
+  const getDonationRevisions = useCallback(async (donationId: string) => {
+    try {
+      return await databaseService.getDonationRevisions(donationId);
+    } catch (error) {
+      console.error('Error getting donation revisions:', error);
+      return [];
     }
+  }, []);
+
+  const manualSync = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent && !syncScheduler.getState().isConnected) {
+      Alert.alert('انٹرنیٹ کنکشن نہیں', 'ڈیٹا انٹرنیٹ ملنے پر خودکار طور پر سنک ہو جائے گا۔');
+      return;
+    }
+    await syncScheduler.runExclusive('donations', async () => {
+      try {
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+
+        // Automatic runs leave records that are still backing off for later;
+        // a manual sync also sends again the ones that ran out of retries
+        const result = await syncEngine.run(DONATION_SYNC_KEYS, { respectBackoff: silent, includeFailed: !silent });
+        if (silent) return;
+        if (result === 'no_credentials') {
+          Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
+        } else if (result === 'incomplete') {
+          Alert.alert('کچھ ریکارڈز ڈیٹا سنک نہیں ہو سکے۔ براہ کرم ایڈمن سے رابطہ کریں۔');
+        }
+      } catch (error) {
+        console.error('Error during manual sync:', error);
+      } finally {
+        await updateSyncStatus();
+        setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+      }
+    });
   }, [updateSyncStatus]);
 
+  // Re-sends a single donation, e.g. one that was marked failed after maxRetries
+  const retryDonationSync = useCallback(async (id: string) => {
+    const ran = await syncScheduler.runExclusive('donations', async () => {
+      try {
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+        const result = await syncEngine.retryRecord('donations', id);
+        if (result === 'no_credentials') {
+          Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
+        } else if (result === 'synced') {
+          Alert.alert('عطیہ کامیابی سے سنک ہو گیا۔');
+        } else if (result === 'incomplete') {
+          // Rejected records are marked failed straight away; show why
+          const updated = await databaseService.getDonationById(id);
+          Alert.alert(
+            'عطیہ سنک نہیں ہو سکا',
+            updated?.syncStatus === 'failed'
+              ? updated.syncFailure?.lastError || ''
+              : 'یہ خودکار طور پر دوبارہ بھیجا جائے گا۔'
+          );
+        }
+      } catch (error) {
+        console.error('Error retrying donation sync:', error);
+      } finally {
+        await updateSyncStatus();
+        setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+      }
+    });
+    if (!ran) {
+      Alert.alert('سنک پہلے سے جاری ہے۔ براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔');
+    }
+  }, [updateSyncStatus]);
 
+  // Fallback for areas with SMS but no data connection
+  const sendDonationsBySms = useCallback(async () => {
+    const ran = await syncScheduler.runExclusive('donations', async () => {
+      try {
+        setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+        const { status, sentCount } = await SmsSyncService.sendPendingDonations();
+        switch (status) {
+          case 'sent':
+            Alert.alert('ایس ایم ایس بھیج دیا گیا', `${sentCount} عطیات ایس ایم ایس کے ذریعے بھیجے گئے۔ انٹرنیٹ ملنے پر ان کی تصدیق ہو جائے گی۔`);
+            break;
+          case 'cancelled':
+            Alert.alert('ایس ایم ایس منسوخ', `${sentCount} عطیات بھیجے گئے، باقی زیر التواء ہیں۔`);
+            break;
+          case 'nothing_to_send':
+            Alert.alert('کوئی زیر التواء عطیہ نہیں ہے۔');
+            break;
+          case 'no_number':
+            Alert.alert('ایس ایم ایس نمبر درج نہیں ہے۔ براہ کرم ترتیبات میں نمبر درج کریں۔');
+            break;
+          case 'unavailable':
+            Alert.alert('اس ڈیوائس پر ایس ایم ایس دستیاب نہیں ہے۔');
+            break;
+          case 'no_credentials':
+            Alert.alert('اکاؤنٹ ایکٹیویٹ نہیں ہے۔');
+            break;
+        }
+      } catch (error) {
+        console.error('Error sending donations by SMS:', error);
+        Alert.alert('خرابی', 'ایس ایم ایس نہیں بھیجا جا سکا۔');
+      } finally {
+        await updateSyncStatus();
+        setSyncStatus(prev => ({ ...prev, isSyncing: false }));
+      }
+    });
+    if (!ran) {
+      Alert.alert('سنک پہلے سے جاری ہے۔ براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔');
+    }
+  }, [updateSyncStatus]);
 
   const getDonations = useCallback(async (limit = 50, offset = 0, searchQuery?: string) => {
     try {
@@ -209,7 +324,7 @@ export function useSync() {
       console.error('Error getting statistics:', error);
       return {
         totalDonations: 0,
-        totalAmount: 0,
+        totalAmount: ZERO_MONEY,
         pendingCount: 0,
       };
     }
@@ -227,9 +342,14 @@ export function useSync() {
     
     // Actions
     saveDonation,
+    updateDonation,
+    voidDonation,
     manualSync,
+    retryDonationSync,
+    sendDonationsBySms,
     getDonations,
     getDonationById,
+    getDonationRevisions,
     getStatistics,
     updateSyncStatus,
   };
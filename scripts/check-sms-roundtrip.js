@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Encodes sample donations with encodeSmsBatches, decodes every message back
+ * and checks that the same donations come out, that each message fits in
+ * MAX_SMS_LENGTH and that a tampered or wrongly keyed message is rejected.
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Lets plain Node load the app's TypeScript utilities
+require.extensions['.ts'] = (module, fileName) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(fileName, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2021 },
+    fileName,
+  });
+  module._compile(outputText, fileName);
+};
+
+const {
+  MAX_SMS_LENGTH,
+  decodeSmsBatch,
+  encodeSmsBatches,
+  verifySmsBatch,
+} = require(path.join(__dirname, '..', 'utils', 'smsBatch.ts'));
+
+const SIGNING_KEY = 'test-signing-key';
+const USERNAME = 'ahmed';
+
+const categories = ['charity', 'zakat', 'sadaqah', 'other'];
+const donations = Array.from({ length: 12 }, (_, index) => ({
+  id: `donation_${index}_${Date.now().toString(36)}`,
+  amount: 150000 + index * 2550,
+  currency: index % 5 === 0 ? 'USD' : 'PKR',
+  benefactorName: index % 2 === 0 ? 'محمد علی' : 'Ayesha Khan',
+  benefactorPhone: index % 3 === 0 ? '' : `0300123456${index % 10}`,
+  benefactorAddress: index % 4 === 0 ? 'گلی نمبر ۳، لاہور' : undefined,
+  recipient: 'مسجد کمیٹی',
+  category: categories[index % categories.length],
+  description: index % 6 === 0 ? 'رمضان راشن' : undefined,
+  bookNo: index % 2 === 0 ? 'B-7' : undefined,
+  receiptSerialNo: index % 3 === 0 ? undefined : 100 + index,
+  date: new Date(Date.UTC(2024, 2, index + 1, 9, 30)).toISOString(),
+}));
+
+const batches = encodeSmsBatches(donations, USERNAME, SIGNING_KEY);
+assert.ok(batches.length > 1, 'expected the sample to need more than one message');
+
+const decoded = [];
+for (const { message, recordIds } of batches) {
+  assert.ok(message.length <= MAX_SMS_LENGTH, `message is ${message.length} characters`);
+  assert.ok(verifySmsBatch(message, SIGNING_KEY), 'signature does not verify');
+  assert.ok(!verifySmsBatch(message, 'another-key'), 'a wrong key verified');
+
+  const batch = decodeSmsBatch(message);
+  assert.ok(batch, 'message did not decode');
+  assert.strictEqual(batch.username, USERNAME);
+  assert.deepStrictEqual(batch.donations.map(donation => donation.id), recordIds);
+  decoded.push(...batch.donations);
+
+  const tampered = message.slice(0, -4) + (message.slice(-4) === 'AAAA' ? 'BBBB' : 'AAAA');
+  assert.ok(!verifySmsBatch(tampered, SIGNING_KEY), 'a tampered message verified');
+}
+
+assert.deepStrictEqual(decoded, donations);
+assert.strictEqual(decodeSmsBatch('HK:other'), null);
+
+console.log(`✅ ${donations.length} donations round-tripped through ${batches.length} messages`);
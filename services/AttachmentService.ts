@@ -0,0 +1,129 @@
+import Bugsnag from '@bugsnag/expo';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import { nanoid } from 'nanoid/non-secure';
+
+const ATTACHMENTS_DIR = `${FileSystem.documentDirectory}attachments/`;
+
+// New photos wait here until their form is saved, so a photo that is replaced
+// or never saved is never stored, backed up or uploaded
+const CAPTURES_DIR = `${FileSystem.cacheDirectory}captures/`;
+
+// Longest edge of a stored photo: enough to read a bill, small enough to upload
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.6;
+
+export type AttachmentSource = 'camera' | 'library';
+
+export interface AttachmentCaptureResult {
+  status: 'captured' | 'cancelled' | 'permission_denied' | 'error';
+  fileName?: string; // set when captured; pass it through keep() before saving it on a record
+}
+
+/**
+ * Captures receipt and bill photos and keeps them as compressed JPEG files in
+ * the app's document directory. Records store only the file name, so the
+ * database stays small and the files survive app updates.
+ */
+export class AttachmentService {
+  static async capture(source: AttachmentSource): Promise<AttachmentCaptureResult> {
+    try {
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) return { status: 'permission_denied' };
+
+      const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 1 };
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+      if (result.canceled || result.assets.length === 0) return { status: 'cancelled' };
+
+      return { status: 'captured', fileName: await this.store(result.assets[0]) };
+    } catch (error) {
+      console.error('Error capturing attachment:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return { status: 'error' };
+    }
+  }
+
+  // Images pulled from the server are referenced by URL rather than stored locally
+  static getUri(fileName: string): string {
+    return /^[a-z]+:/i.test(fileName) ? fileName : `${ATTACHMENTS_DIR}${fileName}`;
+  }
+
+  static async exists(fileName: string): Promise<boolean> {
+    const info = await FileSystem.getInfoAsync(this.getUri(fileName));
+    return info.exists;
+  }
+
+  static async readAsBase64(fileName: string): Promise<string> {
+    return FileSystem.readAsStringAsync(this.getUri(fileName), { encoding: FileSystem.EncodingType.Base64 });
+  }
+
+  static isUnsaved(fileName: string): boolean {
+    return fileName.startsWith(CAPTURES_DIR);
+  }
+
+  /**
+   * Moves a photo captured for a form into the attachments directory when the
+   * form is saved, and returns the file name to store on the record. Any other
+   * file name is returned unchanged. Saving again after a failed save finds the
+   * photo already moved.
+   */
+  static async keep(fileName: string): Promise<string> {
+    if (!this.isUnsaved(fileName)) return fileName;
+    const storedName = fileName.slice(CAPTURES_DIR.length);
+    const target = `${ATTACHMENTS_DIR}${storedName}`;
+    if (!(await FileSystem.getInfoAsync(target)).exists) {
+      await FileSystem.makeDirectoryAsync(ATTACHMENTS_DIR, { intermediates: true });
+      await FileSystem.moveAsync({ from: fileName, to: target });
+    }
+    return storedName;
+  }
+
+  // Removes a photo no record refers to any more, or a capture that was
+  // replaced or never saved. A failure only leaves the file behind, so it is
+  // reported rather than thrown.
+  static async delete(fileName: string): Promise<void> {
+    if (/^[a-z]+:/i.test(fileName) && !this.isUnsaved(fileName)) return;
+    try {
+      await FileSystem.deleteAsync(this.getUri(fileName), { idempotent: true });
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  // File names of every photo stored on the device, for backups
+  static async listLocalFiles(): Promise<string[]> {
+    const info = await FileSystem.getInfoAsync(ATTACHMENTS_DIR);
+    if (!info.exists) return [];
+    return FileSystem.readDirectoryAsync(ATTACHMENTS_DIR);
+  }
+
+  // Puts back a photo from a backup under its original file name, replacing any copy already there
+  static async restoreFile(fileName: string, fromUri: string): Promise<void> {
+    await FileSystem.makeDirectoryAsync(ATTACHMENTS_DIR, { intermediates: true });
+    await FileSystem.deleteAsync(`${ATTACHMENTS_DIR}${fileName}`, { idempotent: true });
+    await FileSystem.moveAsync({ from: fromUri, to: `${ATTACHMENTS_DIR}${fileName}` });
+  }
+
+  private static async store(asset: ImagePicker.ImagePickerAsset): Promise<string> {
+    const context = ImageManipulator.manipulate(asset.uri);
+    // Only ever shrink; giving one edge keeps the aspect ratio
+    if (Math.max(asset.width, asset.height) > MAX_IMAGE_DIMENSION) {
+      context.resize(asset.width >= asset.height ? { width: MAX_IMAGE_DIMENSION } : { height: MAX_IMAGE_DIMENSION });
+    }
+    const image = await context.renderAsync();
+    const { uri } = await image.saveAsync({ compress: JPEG_QUALITY, format: SaveFormat.JPEG });
+    image.release();
+    context.release();
+
+    const fileUri = `${CAPTURES_DIR}${nanoid()}.jpg`;
+    await FileSystem.makeDirectoryAsync(CAPTURES_DIR, { intermediates: true });
+    await FileSystem.moveAsync({ from: uri, to: fileUri });
+    return fileUri;
+  }
+}
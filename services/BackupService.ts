@@ -0,0 +1,344 @@
+import Bugsnag from '@bugsnag/expo';
+import * as CryptoJS from 'crypto-js';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { File, FileHandle } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import { AttachmentService } from './AttachmentService';
+import { databaseService } from './DatabaseService';
+
+const BACKUP_FORMAT = 'hisaab-e-khair-backup';
+const BACKUP_VERSION = 2;
+
+// PBKDF2 runs in JavaScript, so this is a compromise between guessing cost and
+// how long a collector waits; it is stored in each backup so it can be raised later
+const KDF_ITERATIONS = 20000;
+
+// Files are encrypted this many bytes at a time, so neither making nor restoring
+// a backup holds more than one piece of the database or of a photo in memory
+const CHUNK_SIZE = 256 * 1024;
+const READ_SIZE = 64 * 1024;
+
+const RESTORE_DIR = `${FileSystem.cacheDirectory}restore/`;
+const RESTORED_DATABASE = 'database.db';
+const ATTACHMENT_NAME = /^[\w-]+\.\w+$/;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * A backup file is lines of ASCII: a readable header, then one encrypted
+ * record per line. The first record is the manifest; the ones after it are the
+ * contents of the files it lists, in order, CHUNK_SIZE bytes at a time.
+ */
+interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: { iterations: number; salt: string }; // PBKDF2-SHA256, salt in hex
+}
+
+interface BackupRecord {
+  iv: string; // hex
+  ciphertext: string; // AES-256-CBC, base64
+  mac: string; // HMAC-SHA256 of the record's position, iv and ciphertext, hex
+}
+
+interface BackupManifest {
+  createdAt: string;
+  migrations: string[]; // schema version of the backed-up database
+  files: { fileName: string | null; size: number }[]; // the database first, under null
+}
+
+// Photos restored alongside the database, already written to RESTORE_DIR
+interface StagedBackup {
+  createdAt: string;
+  attachments: string[];
+}
+
+export interface BackupResult {
+  status: 'shared' | 'unavailable' | 'error';
+}
+
+export interface RestoreResult {
+  // wrong_passphrase also covers a file altered after it was written, as the two cannot be told apart
+  status: 'restored' | 'invalid_file' | 'wrong_passphrase' | 'corrupt' | 'newer_version' | 'error';
+  createdAt?: string; // when the restored backup was made
+}
+
+// Share of the work done so far, from 0 to 1
+export type BackupProgress = (progress: number) => void;
+
+type BackupKeys = ReturnType<typeof deriveKeys>;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// crypto-js has no secure random source under Hermes, so random bytes come from the platform
+const randomWords = (byteCount: number) => CryptoJS.enc.Hex.parse(toHex(Crypto.getRandomBytes(byteCount)));
+
+const toBytes = (words: CryptoJS.lib.WordArray) =>
+  Uint8Array.from({ length: words.sigBytes }, (_, i) => (words.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff);
+
+const asciiToBytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+function bytesToAscii(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+// The file handles work synchronously, so the screen only redraws between chunks
+const yieldToUi = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// One key for AES and a separate one for the HMAC, both from the passphrase
+function deriveKeys(passphrase: string, salt: CryptoJS.lib.WordArray, iterations: number) {
+  const key = CryptoJS.PBKDF2(passphrase, salt, { keySize: 512 / 32, iterations, hasher: CryptoJS.algo.SHA256 });
+  return {
+    encryptionKey: CryptoJS.lib.WordArray.create(key.words.slice(0, 8), 32),
+    macKey: CryptoJS.lib.WordArray.create(key.words.slice(8, 16), 32),
+  };
+}
+
+// The position is part of the MAC, so records cannot be dropped or reordered unnoticed
+const computeRecordMac = (position: number, iv: string, ciphertext: string, macKey: CryptoJS.lib.WordArray) =>
+  CryptoJS.HmacSHA256(`${position}:${iv}:${ciphertext}`, macKey).toString();
+
+function sealRecord(position: number, plaintext: CryptoJS.lib.WordArray, keys: BackupKeys): BackupRecord {
+  const iv = randomWords(16);
+  const ciphertext = CryptoJS.AES.encrypt(plaintext, keys.encryptionKey, { iv }).ciphertext.toString(CryptoJS.enc.Base64);
+  const ivHex = iv.toString();
+  return { iv: ivHex, ciphertext, mac: computeRecordMac(position, ivHex, ciphertext, keys.macKey) };
+}
+
+// Returns null when the MAC does not match
+function openRecord(position: number, record: BackupRecord, keys: BackupKeys): CryptoJS.lib.WordArray | null {
+  if (computeRecordMac(position, record.iv, record.ciphertext, keys.macKey) !== record.mac) return null;
+  return CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(record.ciphertext) }),
+    keys.encryptionKey,
+    { iv: CryptoJS.enc.Hex.parse(record.iv) }
+  );
+}
+
+const writeLine = (handle: FileHandle, line: object) => handle.writeBytes(asciiToBytes(`${JSON.stringify(line)}\n`));
+
+// Reads a backup file a line at a time, so only the current record is in memory
+class LineReader {
+  private buffer = '';
+
+  constructor(private handle: FileHandle) {}
+
+  // null once the file has been read to the end
+  readLine(): string | null {
+    let end = this.buffer.indexOf('\n');
+    while (end < 0) {
+      const bytes = this.handle.readBytes(READ_SIZE);
+      if (bytes.length === 0) break;
+      const searchFrom = this.buffer.length;
+      this.buffer += bytesToAscii(bytes);
+      end = this.buffer.indexOf('\n', searchFrom);
+    }
+    if (end < 0) {
+      const rest = this.buffer;
+      this.buffer = '';
+      return rest || null;
+    }
+    const line = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end + 1);
+    return line;
+  }
+
+  readRecord(): BackupRecord | null {
+    const line = this.readLine();
+    if (line === null) return null;
+    try {
+      return JSON.parse(line);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Saves the whole database and the receipt photos into one passphrase
+ * encrypted file, so records that never reached the server survive a lost or
+ * reset phone. The file goes out through the share sheet, to be kept off the
+ * device (e.g. in Drive or sent to oneself on WhatsApp).
+ */
+export class BackupService {
+  static async createBackup(passphrase: string, onProgress?: BackupProgress): Promise<BackupResult> {
+    const snapshotUri = `${FileSystem.cacheDirectory}backup-snapshot.db`;
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        console.log('Sharing is not available on this device');
+        return { status: 'unavailable' };
+      }
+
+      await databaseService.createSnapshot(snapshotUri);
+      const sources = [
+        { fileName: null, uri: snapshotUri },
+        ...(await AttachmentService.listLocalFiles()).map(fileName => ({ fileName, uri: AttachmentService.getUri(fileName) })),
+      ];
+
+      const createdAt = new Date();
+      const manifest: BackupManifest = {
+        createdAt: createdAt.toISOString(),
+        migrations: await databaseService.getAppliedMigrations(),
+        files: sources.map(source => ({ fileName: source.fileName, size: new File(source.uri).size ?? 0 })),
+      };
+      const totalBytes = manifest.files.reduce((sum, file) => sum + file.size, 0);
+
+      const salt = randomWords(16);
+      const keys = deriveKeys(passphrase, salt, KDF_ITERATIONS);
+      const header: BackupHeader = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        kdf: { iterations: KDF_ITERATIONS, salt: salt.toString() },
+      };
+
+      const backupFile = new File(`${FileSystem.cacheDirectory}hisaab-e-khair-${createdAt.toISOString().slice(0, 10)}.backup`);
+      backupFile.create({ overwrite: true });
+      const output = backupFile.open();
+      try {
+        writeLine(output, header);
+        let position = 0;
+        writeLine(output, sealRecord(position++, CryptoJS.enc.Utf8.parse(JSON.stringify(manifest)), keys));
+
+        let doneBytes = 0;
+        for (const [index, source] of sources.entries()) {
+          const input = new File(source.uri).open();
+          try {
+            for (let remaining = manifest.files[index].size; remaining > 0;) {
+              const bytes = input.readBytes(Math.min(CHUNK_SIZE, remaining));
+              if (bytes.length === 0) throw new Error(`${source.uri} shrank while it was backed up`);
+              writeLine(output, sealRecord(position++, CryptoJS.lib.WordArray.create(bytes), keys));
+              remaining -= bytes.length;
+              doneBytes += bytes.length;
+              onProgress?.(doneBytes / totalBytes);
+              await yieldToUi();
+            }
+          } finally {
+            input.close();
+          }
+        }
+      } finally {
+        output.close();
+      }
+
+      await Sharing.shareAsync(backupFile.uri, { mimeType: 'application/octet-stream', dialogTitle: 'بیک اپ محفوظ کریں' });
+      return { status: 'shared' };
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return { status: 'error' };
+    } finally {
+      await FileSystem.deleteAsync(snapshotUri, { idempotent: true }).catch(() => undefined);
+    }
+  }
+
+  // Lets the user choose a backup file; null means the picker was cancelled
+  static async pickBackupFile(): Promise<{ uri: string; name: string } | null> {
+    const picked = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (picked.canceled || picked.assets.length === 0) return null;
+    return { uri: picked.assets[0].uri, name: picked.assets[0].name };
+  }
+
+  /**
+   * Replaces the local database and restores the photos from a backup file.
+   * Everything is decrypted and checked into the cache first, so a bad file
+   * leaves the current data untouched. Backups from older app versions are
+   * migrated to the current schema; backups from newer versions are refused,
+   * as this version cannot read them.
+   */
+  static async restoreBackup(uri: string, passphrase: string, onProgress?: BackupProgress): Promise<RestoreResult> {
+    let input: FileHandle | null = null;
+    try {
+      input = new File(uri).open();
+      const reader = new LineReader(input);
+
+      let header: BackupHeader;
+      try {
+        header = JSON.parse(reader.readLine() ?? '');
+      } catch {
+        return { status: 'invalid_file' };
+      }
+      if (header?.format !== BACKUP_FORMAT || header.version !== BACKUP_VERSION) {
+        return { status: 'invalid_file' };
+      }
+
+      await FileSystem.deleteAsync(RESTORE_DIR, { idempotent: true });
+      await FileSystem.makeDirectoryAsync(RESTORE_DIR, { intermediates: true });
+
+      const staged = await this.stageRecords(reader, header, passphrase, onProgress);
+      if ('status' in staged) return staged;
+
+      await databaseService.replaceDatabase(`${RESTORE_DIR}${RESTORED_DATABASE}`);
+      for (const fileName of staged.attachments) {
+        await AttachmentService.restoreFile(fileName, `${RESTORE_DIR}${fileName}`);
+      }
+      return { status: 'restored', createdAt: staged.createdAt };
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return { status: 'error' };
+    } finally {
+      input?.close();
+      await FileSystem.deleteAsync(RESTORE_DIR, { idempotent: true }).catch(() => undefined);
+    }
+  }
+
+  private static async isNewerSchema(migrations: string[]): Promise<boolean> {
+    const knownMigrations = new Set(await databaseService.getAppliedMigrations());
+    return migrations.some(name => !knownMigrations.has(name));
+  }
+
+  // Decrypts every record after the manifest straight into its file in RESTORE_DIR
+  private static async stageRecords(
+    reader: LineReader,
+    header: BackupHeader,
+    passphrase: string,
+    onProgress?: BackupProgress
+  ): Promise<StagedBackup | RestoreResult> {
+    const keys = deriveKeys(passphrase, CryptoJS.enc.Hex.parse(header.kdf.salt), header.kdf.iterations);
+
+    const manifestRecord = reader.readRecord();
+    if (!manifestRecord) return { status: 'invalid_file' };
+    // A first record that does not open means the passphrase is wrong; any later one, that the file is damaged
+    const manifestWords = openRecord(0, manifestRecord, keys);
+    if (!manifestWords) return { status: 'wrong_passphrase' };
+    const manifest: BackupManifest = JSON.parse(manifestWords.toString(CryptoJS.enc.Utf8));
+
+    const [database, ...attachments] = manifest.files;
+    if (database?.fileName !== null || attachments.some(file => !ATTACHMENT_NAME.test(file.fileName ?? ''))) {
+      return { status: 'corrupt' };
+    }
+    if (await this.isNewerSchema(manifest.migrations)) return { status: 'newer_version' };
+
+    const totalBytes = manifest.files.reduce((sum, file) => sum + file.size, 0);
+    let doneBytes = 0;
+    let position = 1;
+    for (const file of manifest.files) {
+      const staged = new File(`${RESTORE_DIR}${file.fileName ?? RESTORED_DATABASE}`);
+      staged.create({ overwrite: true });
+      const output = staged.open();
+      try {
+        for (let remaining = file.size; remaining > 0;) {
+          const record = reader.readRecord();
+          const words = record && openRecord(position++, record, keys);
+          if (!words || words.sigBytes > remaining) return { status: 'corrupt' };
+          output.writeBytes(toBytes(words));
+          remaining -= words.sigBytes;
+          doneBytes += words.sigBytes;
+          onProgress?.(doneBytes / totalBytes);
+          await yieldToUi();
+        }
+      } finally {
+        output.close();
+      }
+    }
+    if (reader.readLine() !== null) return { status: 'corrupt' };
+
+    return { createdAt: manifest.createdAt, attachments: attachments.map(file => file.fileName ?? '') };
+  }
+}
@@ -0,0 +1,107 @@
+import { BulkSaveRecordResult, SyncFailure } from '../types/data';
+import { nextSyncFailure } from './SyncConfigService';
+
+// What came back from a single bulk-save request. `error` is set instead of
+// httpStatus/body when the request never reached the server.
+export interface BulkSaveOutcome {
+  ok: boolean;
+  httpStatus?: number;
+  body?: string;
+  error?: string;
+}
+
+interface BulkSaveHandlers<T> {
+  markSynced: (id: string) => Promise<void>;
+  // Optional: for records the server already had; without it they count as synced
+  markDuplicate?: (record: T) => Promise<void>;
+  // Optional: without it, records that were not accepted stay as they are
+  recordFailure?: (id: string, failure: SyncFailure, status: 'pending' | 'failed') => Promise<void>;
+}
+
+const RESULT_STATUSES: BulkSaveRecordResult['status'][] = ['created', 'duplicate', 'rejected'];
+
+/**
+ * Reads the per-record results from a bulk-save response body. Returns null
+ * when the server sent no usable results, e.g. an older all-or-nothing API.
+ */
+export function parseBulkSaveResults(body: string): Map<string, BulkSaveRecordResult> | null {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (!parsed || !Array.isArray(parsed.results)) return null;
+
+  const results = new Map<string, BulkSaveRecordResult>();
+  for (const item of parsed.results) {
+    if (item && typeof item.id === 'string' && RESULT_STATUSES.includes(item.status)) {
+      results.set(item.id, {
+        id: item.id,
+        status: item.status,
+        message: typeof item.message === 'string' ? item.message : undefined,
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Marks each record in the batch according to the bulk-save outcome. Created
+ * records are synced, and so are duplicates unless markDuplicate handles them;
+ * rejected records are marked failed right away with the server's message,
+ * since resending them unchanged cannot succeed. Without per-record results
+ * the whole batch shares the outcome.
+ * Returns true if every record was accepted.
+ */
+export async function recordBulkSaveOutcome<T extends { id: string; syncFailure?: SyncFailure }>(
+  batch: T[],
+  outcome: BulkSaveOutcome,
+  maxRetries: number,
+  handlers: BulkSaveHandlers<T>
+): Promise<boolean> {
+  const results = outcome.body ? parseBulkSaveResults(outcome.body) : null;
+
+  if (!results) {
+    if (outcome.ok) {
+      for (const record of batch) {
+        await handlers.markSynced(record.id);
+      }
+      return true;
+    }
+
+    const lastError = outcome.error || outcome.body || `HTTP ${outcome.httpStatus}`;
+    for (const record of batch) {
+      const { failure, status } = nextSyncFailure(record.syncFailure, maxRetries, lastError, outcome.httpStatus);
+      await handlers.recordFailure?.(record.id, failure, status);
+    }
+    return false;
+  }
+
+  let allAccepted = true;
+  for (const record of batch) {
+    const result = results.get(record.id);
+    if (result?.status === 'duplicate' && handlers.markDuplicate) {
+      await handlers.markDuplicate(record);
+    } else if (result && result.status !== 'rejected') {
+      await handlers.markSynced(record.id);
+    } else if (result) {
+      allAccepted = false;
+      await handlers.recordFailure?.(record.id, {
+        attempts: (record.syncFailure?.attempts || 0) + 1,
+        lastError: result.message || 'Rejected by server',
+        httpStatus: outcome.httpStatus,
+      }, 'failed');
+    } else {
+      allAccepted = false;
+      const { failure, status } = nextSyncFailure(
+        record.syncFailure,
+        maxRetries,
+        'Record missing from server response',
+        outcome.httpStatus
+      );
+      await handlers.recordFailure?.(record.id, failure, status);
+    }
+  }
+  return allAccepted;
+}
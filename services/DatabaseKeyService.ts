@@ -0,0 +1,51 @@
+import * as CryptoJS from 'crypto-js';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+const DATABASE_KEY_ITEM = 'databaseKey';
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+// Readable by background work once the phone has been unlocked, and never
+// carried over to another device through a keychain backup
+const KEY_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Holds the key the local database is encrypted with. The key is derived once
+ * from the signed-in account and a random salt, then kept in SecureStore next
+ * to signingKey. It is not removed on logout: the database outlives the
+ * session, and a later login, even with another account, keeps using it.
+ * Only a database reset removes it, together with the database.
+ */
+export class DatabaseKeyService {
+  // 256-bit key as 64 hex digits, created on first use
+  static async getKey(): Promise<string> {
+    const storedKey = await SecureStore.getItemAsync(DATABASE_KEY_ITEM, KEY_STORE_OPTIONS);
+    if (storedKey) {
+      // The key is written into SQL, so anything but hex digits is refused
+      if (!KEY_PATTERN.test(storedKey)) throw new Error('Stored database key is malformed');
+      return storedKey;
+    }
+
+    const username = await SecureStore.getItemAsync('username');
+    const signingKey = await SecureStore.getItemAsync('signingKey');
+    if (!username || !signingKey) {
+      throw new Error('Database key unavailable: no account is signed in');
+    }
+
+    // The salt keeps the key from being recomputed from the account credentials alone
+    const salt = toHex(Crypto.getRandomBytes(16));
+    const key = CryptoJS.HmacSHA256(`database:${username}:${salt}`, signingKey).toString();
+    await SecureStore.setItemAsync(DATABASE_KEY_ITEM, key, KEY_STORE_OPTIONS);
+    console.log('Database key created');
+    return key;
+  }
+
+  // Only once the database it unlocks has been deleted
+  static async deleteKey(): Promise<void> {
+    await SecureStore.deleteItemAsync(DATABASE_KEY_ITEM, KEY_STORE_OPTIONS);
+  }
+}
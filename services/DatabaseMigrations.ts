@@ -1,5 +1,6 @@
 import Bugsnag from '@bugsnag/expo';
 import * as SQLite from 'expo-sqlite';
+import { BASE_CURRENCY } from '../utils/currency';
 
 export async function runMigrations(connection: SQLite.SQLiteDatabase) {
   console.log('Starting database migrations...');
@@ -97,6 +98,309 @@ export async function runMigrations(connection: SQLite.SQLiteDatabase) {
             console.log('Donations table does not exist, skipping column additions');
           }
         }
+      },
+      {
+        name: '003_add_donation_revisions',
+        execute: async () => {
+          console.log('Executing: Add voided_at column and donation_revisions table');
+          const tableInfo = await connection.getAllAsync("PRAGMA table_info(donations);") as any[];
+          if (!tableInfo.some(col => col.name === 'voided_at')) {
+            console.log('Adding voided_at column...');
+            await connection.execAsync('ALTER TABLE donations ADD COLUMN voided_at TEXT;');
+          }
+
+          await connection.execAsync(`
+            CREATE TABLE IF NOT EXISTS donation_revisions (
+              id TEXT PRIMARY KEY,
+              donation_id TEXT NOT NULL,
+              action TEXT NOT NULL,
+              old_value TEXT NOT NULL,
+              new_value TEXT NOT NULL,
+              changed_by TEXT NOT NULL,
+              changed_at TEXT NOT NULL,
+              sync_status TEXT NOT NULL DEFAULT 'pending'
+            );
+          `);
+
+          await connection.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_donation_revisions_donation_id ON donation_revisions (donation_id);
+            CREATE INDEX IF NOT EXISTS idx_donation_revisions_sync_status ON donation_revisions (sync_status);
+          `);
+        }
+      },
+      {
+        name: '004_add_expense_revisions',
+        execute: async () => {
+          console.log('Executing: Add expense soft-delete columns and expense_revisions table');
+          const tableInfo = await connection.getAllAsync("PRAGMA table_info(expenses);") as any[];
+          const columns = tableInfo.map(col => col.name);
+          if (!columns.includes('deleted_at')) {
+            await connection.execAsync('ALTER TABLE expenses ADD COLUMN deleted_at TEXT;');
+          }
+          if (!columns.includes('change_reason')) {
+            await connection.execAsync('ALTER TABLE expenses ADD COLUMN change_reason TEXT;');
+          }
+          if (!columns.includes('change_note')) {
+            await connection.execAsync('ALTER TABLE expenses ADD COLUMN change_note TEXT;');
+          }
+
+          await connection.execAsync(`
+            CREATE TABLE IF NOT EXISTS expense_revisions (
+              id TEXT PRIMARY KEY,
+              expense_id TEXT NOT NULL,
+              action TEXT NOT NULL,
+              reason_code TEXT NOT NULL,
+              reason_note TEXT,
+              old_value TEXT NOT NULL,
+              new_value TEXT NOT NULL,
+              changed_by TEXT NOT NULL,
+              changed_at TEXT NOT NULL
+            );
+          `);
+
+          await connection.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_expense_revisions_expense_id ON expense_revisions (expense_id);
+          `);
+        }
+      },
+      {
+        name: '005_add_sync_failure_tracking',
+        execute: async () => {
+          console.log('Executing: Add sync failure tracking columns');
+          for (const table of ['donations', 'expenses']) {
+            const tableInfo = await connection.getAllAsync(`PRAGMA table_info(${table});`) as any[];
+            const columns = tableInfo.map(col => col.name);
+            if (!columns.includes('sync_attempts')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN sync_attempts INTEGER NOT NULL DEFAULT 0;`);
+            }
+            if (!columns.includes('last_sync_error')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN last_sync_error TEXT;`);
+            }
+            if (!columns.includes('last_sync_http_status')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN last_sync_http_status INTEGER;`);
+            }
+            if (!columns.includes('next_retry_at')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN next_retry_at TEXT;`);
+            }
+          }
+        }
+      },
+      {
+        name: '006_add_sync_cursors',
+        execute: async () => {
+          console.log('Executing: Create sync_cursors table');
+          await connection.execAsync(`
+            CREATE TABLE IF NOT EXISTS sync_cursors (
+              entity TEXT PRIMARY KEY,
+              cursor TEXT NOT NULL,
+              updated_at TEXT NOT NULL
+            );
+          `);
+        }
+      },
+      {
+        name: '007_add_receipt_books',
+        execute: async () => {
+          console.log('Executing: Create receipt_books table');
+          await connection.execAsync(`
+            CREATE TABLE IF NOT EXISTS receipt_books (
+              id TEXT PRIMARY KEY,
+              book_no TEXT NOT NULL UNIQUE,
+              collector TEXT NOT NULL,
+              start_serial INTEGER NOT NULL,
+              end_serial INTEGER NOT NULL,
+              issued_at TEXT NOT NULL,
+              closed_at TEXT,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL
+            );
+          `);
+
+          await connection.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_donations_book_serial ON donations (book_no, receipt_serial_no);
+          `);
+        }
+      },
+      {
+        name: '008_add_donation_notified_at',
+        execute: async () => {
+          console.log('Executing: Add notified_at column to donations');
+          const tableInfo = await connection.getAllAsync('PRAGMA table_info(donations);') as any[];
+          if (!tableInfo.some(col => col.name === 'notified_at')) {
+            await connection.execAsync('ALTER TABLE donations ADD COLUMN notified_at TEXT;');
+          }
+        }
+      },
+      {
+        name: '009_add_benefactors',
+        execute: async () => {
+          console.log('Executing: Create benefactors table');
+          await connection.execAsync(`
+            CREATE TABLE IF NOT EXISTS benefactors (
+              phone TEXT PRIMARY KEY,
+              name TEXT NOT NULL,
+              address TEXT,
+              first_donation_at TEXT NOT NULL,
+              last_donation_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL
+            );
+          `);
+
+          await connection.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_benefactors_name ON benefactors (name);
+            CREATE INDEX IF NOT EXISTS idx_donations_benefactor_phone ON donations (benefactor_phone);
+          `);
+
+          // Backfill from existing donations, taking name and address from each phone's latest donation
+          await connection.runAsync(`
+            INSERT OR IGNORE INTO benefactors (phone, name, address, first_donation_at, last_donation_at, updated_at)
+            SELECT d.benefactor_phone, d.benefactor_name, d.benefactor_address, agg.first_at, agg.last_at, ?
+            FROM donations d
+            JOIN (
+              SELECT benefactor_phone, MIN(date) as first_at, MAX(date) as last_at
+              FROM donations
+              WHERE benefactor_phone IS NOT NULL AND benefactor_phone != ''
+              GROUP BY benefactor_phone
+            ) agg ON d.benefactor_phone = agg.benefactor_phone AND d.date = agg.last_at
+          `, [new Date().toISOString()]);
+        }
+      },
+      {
+        name: '010_add_exchange_rates',
+        execute: async () => {
+          console.log('Executing: Create exchange_rates table and base_amount columns');
+          await connection.execAsync(`
+            CREATE TABLE IF NOT EXISTS exchange_rates (
+              currency TEXT PRIMARY KEY,
+              rate REAL NOT NULL,
+              updated_at TEXT NOT NULL
+            );
+          `);
+
+          for (const table of ['donations', 'expenses']) {
+            const tableInfo = await connection.getAllAsync(`PRAGMA table_info(${table});`) as any[];
+            if (!tableInfo.some(col => col.name === 'base_amount')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN base_amount REAL;`);
+            }
+            // Only the base currency could be entered before this migration
+            await connection.runAsync(
+              `UPDATE ${table} SET base_amount = amount WHERE base_amount IS NULL AND currency = ?`,
+              [BASE_CURRENCY]
+            );
+          }
+        }
+      },
+      {
+        name: '011_store_amounts_as_minor_units',
+        execute: async () => {
+          console.log('Executing: Convert amounts to integer minor units');
+          await connection.execAsync('BEGIN TRANSACTION');
+          try {
+            const revisionTables = { donations: 'donation_revisions', expenses: 'expense_revisions' };
+            for (const [table, revisionTable] of Object.entries(revisionTables)) {
+              const tableInfo = await connection.getAllAsync(`PRAGMA table_info(${table});`) as any[];
+              const columns = tableInfo.map(col => col.name);
+              if (!columns.includes('amount')) continue;
+
+              await connection.execAsync(`
+                ALTER TABLE ${table} ADD COLUMN amount_minor INTEGER NOT NULL DEFAULT 0;
+                ALTER TABLE ${table} ADD COLUMN base_amount_minor INTEGER;
+                UPDATE ${table} SET
+                  amount_minor = CAST(ROUND(amount * 100) AS INTEGER),
+                  base_amount_minor = CAST(ROUND(base_amount * 100) AS INTEGER);
+              `);
+
+              // Revision snapshots keep the same unit as the records they describe
+              for (const column of ['old_value', 'new_value']) {
+                await connection.execAsync(`
+                  UPDATE ${revisionTable}
+                  SET ${column} = json_set(${column}, '$.amount', CAST(ROUND(json_extract(${column}, '$.amount') * 100) AS INTEGER))
+                  WHERE json_type(${column}, '$.amount') IN ('integer', 'real');
+                `);
+              }
+
+              // Drop the float columns so nothing can read or sum them by mistake
+              await connection.execAsync(`
+                ALTER TABLE ${table} DROP COLUMN amount;
+                ALTER TABLE ${table} DROP COLUMN base_amount;
+              `);
+            }
+
+            await connection.execAsync('COMMIT');
+          } catch (error) {
+            await connection.execAsync('ROLLBACK');
+            throw error;
+          }
+        }
+      },
+      {
+        name: '012_add_receipt_attachments',
+        execute: async () => {
+          console.log('Executing: Add receipt attachment columns');
+          for (const table of ['donations', 'expenses']) {
+            const tableInfo = await connection.getAllAsync(`PRAGMA table_info(${table});`) as any[];
+            const columns = tableInfo.map(col => col.name);
+            if (!columns.includes('receipt_image')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN receipt_image TEXT;`);
+            }
+            if (!columns.includes('receipt_image_status')) {
+              await connection.execAsync(`ALTER TABLE ${table} ADD COLUMN receipt_image_status TEXT;`);
+            }
+          }
+        }
+      },
+      {
+        name: '013_add_revision_sync_failure_tracking',
+        execute: async () => {
+          console.log('Executing: Add sync failure tracking columns to donation revisions');
+          const tableInfo = await connection.getAllAsync('PRAGMA table_info(donation_revisions);') as any[];
+          const columns = tableInfo.map(col => col.name);
+          if (!columns.includes('sync_attempts')) {
+            await connection.execAsync('ALTER TABLE donation_revisions ADD COLUMN sync_attempts INTEGER NOT NULL DEFAULT 0;');
+          }
+          if (!columns.includes('last_sync_error')) {
+            await connection.execAsync('ALTER TABLE donation_revisions ADD COLUMN last_sync_error TEXT;');
+          }
+          if (!columns.includes('last_sync_http_status')) {
+            await connection.execAsync('ALTER TABLE donation_revisions ADD COLUMN last_sync_http_status INTEGER;');
+          }
+          if (!columns.includes('next_retry_at')) {
+            await connection.execAsync('ALTER TABLE donation_revisions ADD COLUMN next_retry_at TEXT;');
+          }
+        }
+      },
+      {
+        name: '014_add_expense_revision_sync',
+        execute: async () => {
+          console.log('Executing: Add sync columns to expense revisions');
+          const tableInfo = await connection.getAllAsync('PRAGMA table_info(expense_revisions);') as any[];
+          const columns = tableInfo.map(col => col.name);
+          if (!columns.includes('sync_status')) {
+            await connection.execAsync(`ALTER TABLE expense_revisions ADD COLUMN sync_status TEXT NOT NULL DEFAULT 'local';`);
+          }
+          if (!columns.includes('sync_attempts')) {
+            await connection.execAsync('ALTER TABLE expense_revisions ADD COLUMN sync_attempts INTEGER NOT NULL DEFAULT 0;');
+          }
+          if (!columns.includes('last_sync_error')) {
+            await connection.execAsync('ALTER TABLE expense_revisions ADD COLUMN last_sync_error TEXT;');
+          }
+          if (!columns.includes('last_sync_http_status')) {
+            await connection.execAsync('ALTER TABLE expense_revisions ADD COLUMN last_sync_http_status INTEGER;');
+          }
+          if (!columns.includes('next_retry_at')) {
+            await connection.execAsync('ALTER TABLE expense_revisions ADD COLUMN next_retry_at TEXT;');
+          }
+          await connection.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_expense_revisions_sync_status ON expense_revisions (sync_status);
+          `);
+
+          // Corrections to expenses the server already had were answered as
+          // duplicates and never applied there, so they go out as amendments
+          await connection.execAsync(`
+            UPDATE expense_revisions SET sync_status = 'pending'
+            WHERE expense_id IN (SELECT id FROM expenses WHERE sync_status = 'synced');
+          `);
+        }
       }
     ];
 
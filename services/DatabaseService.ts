@@ -1,8 +1,55 @@
 import Bugsnag from '@bugsnag/expo';
 import * as SQLite from 'expo-sqlite';
-import { DonationRecord, ExpenseRecord } from '../types/data';
+import {
+  AttachmentStatus,
+  Benefactor,
+  BenefactorProfile,
+  BenefactorSummary,
+  CollectionPoint,
+  DonationExportFilter,
+  DonationRecord,
+  DonationRevision,
+  ExchangeRate,
+  ExpenseExportFilter,
+  ExpenseRecord,
+  ExpenseRevision,
+  Money,
+  PendingAttachment,
+  PullMergeResult,
+  ReceiptBook,
+  ReportPeriod,
+  SyncFailure,
+  UnsyncedSummary,
+} from '../types/data';
+import { BASE_CURRENCY } from '../utils/currency';
+import { addMoney, moneyFromDB, ZERO_MONEY } from '../utils/money';
+import { DatabaseKeyService } from './DatabaseKeyService';
 import { runMigrations } from './DatabaseMigrations';
 
+const DATABASE_NAME = 'hisaab-e-khair.db';
+// Where a replacement database is checked before it takes the place of the current one
+const STAGING_DATABASE_NAME = 'hisaab-e-khair-restore.db';
+// Encrypted copy being written; it only becomes the database once complete
+const ENCRYPTED_STAGING_DATABASE_NAME = 'hisaab-e-khair-encrypted.db';
+// Base64 of "SQLite format 3\0", the first 16 bytes of an unencrypted database file
+const PLAINTEXT_HEADER = 'U1FMaXRlIGZvcm1hdCAzAA==';
+
+// File URI as a quoted SQL string literal, for ATTACH
+const toSqlPath = (uri: string) => `'${uri.replace(/^file:\/\//, '').replace(/'/g, "''")}'`;
+
+// Tables whose rows carry the sync failure columns
+type SyncFailureTable = 'donations' | 'expenses' | 'donation_revisions' | 'expense_revisions';
+
+function mapSyncFailureFromDB(row: any): SyncFailure | undefined {
+  if (!row.sync_attempts && !row.last_sync_error) return undefined;
+  return {
+    attempts: row.sync_attempts,
+    lastError: row.last_sync_error || undefined,
+    httpStatus: row.last_sync_http_status ?? undefined,
+    nextRetryAt: row.next_retry_at || undefined,
+  };
+}
+
 class DatabaseService {
   private connectionPool: SQLite.SQLiteDatabase[] = [];
   private maxConnections = 3;
@@ -11,6 +58,7 @@ class DatabaseService {
   private connectionMutex = false;
   private dbInitialized = false;
   private initPromise: Promise<void> | null = null;
+  private encryptionKey: string | null = null;
 
   async init(): Promise<void> {
     // If initialization is already in progress, wait for it
@@ -42,6 +90,9 @@ class DatabaseService {
       this.connectionPool = [];
       this.activeConnections = 0;
       this.dbInitialized = false;
+
+      this.encryptionKey = await DatabaseKeyService.getKey();
+      await this.prepareEncryptedDatabase();
       
       // Initialize the connection pool
       await this.initializeConnectionPool();
@@ -86,7 +137,7 @@ class DatabaseService {
     for (let i = 0; i < this.maxConnections; i++) {
       try {
         console.log(`Creating connection ${i + 1}/${this.maxConnections}...`);
-        const connection = await SQLite.openDatabaseAsync('hisaab-e-khair.db');
+        const connection = await this.openEncryptedDatabase(DATABASE_NAME);
         
         if (!connection) {
           throw new Error(`SQLite.openDatabaseAsync returned null for connection ${i + 1}`);
@@ -104,6 +155,90 @@ class DatabaseService {
     console.log(`Connection pool initialized with ${this.connectionPool.length} connections`);
   }
 
+  // Every connection has to be given the key before its first query
+  private async openEncryptedDatabase(name: string): Promise<SQLite.SQLiteDatabase> {
+    if (!this.encryptionKey) {
+      throw new Error('Database key not loaded');
+    }
+    const connection = await SQLite.openDatabaseAsync(name);
+    try {
+      await connection.execAsync(`PRAGMA key = "x'${this.encryptionKey}'"`);
+      // SQLCipher only checks the key on first read; a wrong key fails here with "file is not a database"
+      await connection.getFirstAsync('SELECT count(*) FROM sqlite_master');
+      return connection;
+    } catch (error) {
+      await connection.closeAsync();
+      throw error;
+    }
+  }
+
+  /**
+   * Makes sure the database file is encrypted before the pool opens it.
+   * Installs from before encryption have a plaintext file, which is copied
+   * into an encrypted one that then takes its place. Leftovers from an
+   * interrupted run are finished or discarded, so no plaintext copy remains.
+   */
+  private async prepareEncryptedDatabase(): Promise<void> {
+    const FileSystem = await import('expo-file-system');
+    const directory = `${FileSystem.documentDirectory}SQLite/`;
+    const dbPath = `${directory}${DATABASE_NAME}`;
+    const encryptedUri = `${directory}${ENCRYPTED_STAGING_DATABASE_NAME}`;
+
+    // A restore that never finished leaves its unencrypted staging copy behind
+    await FileSystem.deleteAsync(`${directory}${STAGING_DATABASE_NAME}`, { idempotent: true });
+
+    const database = await FileSystem.getInfoAsync(dbPath);
+    if ((await FileSystem.getInfoAsync(encryptedUri)).exists) {
+      if (!database.exists) {
+        // Interrupted after the old file was removed: the encrypted copy is complete
+        await this.moveIntoPlace(encryptedUri);
+        return;
+      }
+      await FileSystem.deleteAsync(encryptedUri);
+    }
+    if (!database.exists) return;
+
+    const header = await FileSystem.readAsStringAsync(dbPath, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: 16,
+    });
+    if (header !== PLAINTEXT_HEADER) return;
+
+    console.log('Encrypting existing database...');
+    const plaintext = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    try {
+      await this.exportCopy(plaintext, encryptedUri, true);
+    } finally {
+      await plaintext.closeAsync();
+    }
+    await this.moveIntoPlace(encryptedUri);
+    console.log('Database encrypted successfully');
+  }
+
+  // Copies the database open on connection into a new file at targetUri. sqlcipher_export
+  // reads through SQLite, so changes still in the write-ahead log are included.
+  private async exportCopy(connection: SQLite.SQLiteDatabase, targetUri: string, encrypted: boolean): Promise<void> {
+    const key = encrypted ? `"x'${this.encryptionKey}'"` : "''";
+    await connection.execAsync(`ATTACH DATABASE ${toSqlPath(targetUri)} AS export_target KEY ${key}`);
+    try {
+      await connection.getFirstAsync("SELECT sqlcipher_export('export_target')");
+    } finally {
+      await connection.execAsync('DETACH DATABASE export_target');
+    }
+  }
+
+  // Puts the file at sourceUri in place of the database; connections must be closed first
+  private async moveIntoPlace(sourceUri: string): Promise<void> {
+    const FileSystem = await import('expo-file-system');
+    const dbPath = `${FileSystem.documentDirectory}SQLite/${DATABASE_NAME}`;
+    // Stale journal files would otherwise be applied to the new database
+    for (const suffix of ['', '-wal', '-shm', '-journal']) {
+      await FileSystem.deleteAsync(`${dbPath}${suffix}`, { idempotent: true });
+    }
+    await FileSystem.moveAsync({ from: sourceUri, to: dbPath });
+  }
+
   isInitialized(): boolean {
     return this.dbInitialized && this.connectionPool.length > 0;
   }
@@ -277,49 +412,130 @@ class DatabaseService {
     await this.recoverConnectionPool();
   }
 
-  // Public method to completely reset the database (delete file and reinitialize)
-  async resetDatabase(): Promise<void> {
+  /**
+   * Public method to completely reset the database: deletes the file and the
+   * key it is encrypted with, and leaves the service uninitialised so the next
+   * init() starts an empty database. It does not reopen the database itself,
+   * so an error always means the data is still there.
+   * Refuses while records are waiting to be synced unless discardUnsynced is
+   * set, which callers should only do once the user has backed the data up.
+   */
+  async resetDatabase(options: { discardUnsynced?: boolean } = {}): Promise<void> {
     console.log('Database reset requested...');
-    
-    try {
-      // Close all existing connections first
-      for (const connection of this.connectionPool) {
-        try {
-          await connection.closeAsync();
-        } catch (error) {
-          console.log('Error closing connection during reset:', error);
-        }
+
+    if (!options.discardUnsynced) {
+      const unsynced = await this.getUnsyncedSummary();
+      const total = unsynced.donations + unsynced.expenses + unsynced.attachments;
+      if (total > 0) {
+        throw new Error(`Database reset refused: ${total} unsynced records would be lost`);
       }
+    }
 
-      // Clear the pool and reset state
-      this.connectionPool = [];
-      this.activeConnections = 0;
-      this.dbInitialized = false;
-      this.isRecovering = false;
-      this.connectionMutex = false;
+    const FileSystem = await import('expo-file-system');
+    const dbPath = `${FileSystem.documentDirectory}SQLite/${DATABASE_NAME}`;
+    try {
+      await this.closeAllConnections();
+      await FileSystem.deleteAsync(dbPath, { idempotent: true });
+      console.log('Database file deleted successfully');
+    } catch (error) {
+      console.error('Database reset failed:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
 
-      // Delete the database file
-      const FileSystem = await import('expo-file-system');
-      const dbPath = `${FileSystem.documentDirectory}SQLite/hisaab-e-khair.db`;
-      
+    // The data is gone from here on, so leftovers are reported but do not fail the reset
+    try {
+      for (const suffix of ['-wal', '-shm', '-journal']) {
+        await FileSystem.deleteAsync(`${dbPath}${suffix}`, { idempotent: true });
+      }
+      await DatabaseKeyService.deleteKey();
+      this.encryptionKey = null;
+    } catch (error) {
+      console.error('Error cleaning up after database reset:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+    }
+    console.log('Database reset completed successfully');
+  }
+
+  // Closes every pooled connection so the database file can be replaced or deleted
+  private async closeAllConnections(): Promise<void> {
+    for (const connection of this.connectionPool) {
       try {
-        await FileSystem.deleteAsync(dbPath);
-        console.log('Database file deleted successfully');
+        await connection.closeAsync();
       } catch (error) {
-        console.log('Database file may not exist or could not be deleted:', error);
+        console.log('Error closing connection:', error);
       }
+    }
 
-      // Wait a moment before reinitializing
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    // Clear the pool and reset state
+    this.connectionPool = [];
+    this.activeConnections = 0;
+    this.dbInitialized = false;
+    this.isRecovering = false;
+    this.connectionMutex = false;
+  }
 
-      // Reinitialize the database
-      await this.init();
-      console.log('Database reset completed successfully');
+  /**
+   * Writes a consistent, unencrypted copy of the database to targetUri. Only
+   * for backups, which encrypt the copy themselves with the user's passphrase
+   * so it can be restored on another phone.
+   */
+  async createSnapshot(targetUri: string): Promise<void> {
+    const FileSystem = await import('expo-file-system');
+    return this.executeWithConnection(async (connection) => {
+      await FileSystem.deleteAsync(targetUri, { idempotent: true });
+      await this.exportCopy(connection, targetUri, false);
+    });
+  }
+
+  // Names of the migrations applied to this database, i.e. its schema version
+  async getAppliedMigrations(): Promise<string[]> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getAllAsync('SELECT name FROM migrations ORDER BY name') as { name: string }[];
+      return result.map(row => row.name);
+    });
+  }
+
+  /**
+   * Replaces the database with the unencrypted SQLite file at sourceUri,
+   * e.g. from a backup. The file is checked, migrated to the current schema
+   * and encrypted in staging copies first, so a bad file leaves the current
+   * database untouched.
+   */
+  async replaceDatabase(sourceUri: string): Promise<void> {
+    const FileSystem = await import('expo-file-system');
+    const directory = `${FileSystem.documentDirectory}SQLite/`;
+    const stagingUri = `${directory}${STAGING_DATABASE_NAME}`;
+    const encryptedUri = `${directory}${ENCRYPTED_STAGING_DATABASE_NAME}`;
+
+    await FileSystem.deleteAsync(stagingUri, { idempotent: true });
+    await FileSystem.deleteAsync(encryptedUri, { idempotent: true });
+    await FileSystem.copyAsync({ from: sourceUri, to: stagingUri });
+
+    try {
+      const staging = await SQLite.openDatabaseAsync(STAGING_DATABASE_NAME);
+      try {
+        const check = await staging.getFirstAsync('PRAGMA integrity_check') as { integrity_check: string } | null;
+        if (check?.integrity_check !== 'ok') {
+          throw new Error(`Integrity check failed: ${check?.integrity_check}`);
+        }
+        await runMigrations(staging);
+        await this.exportCopy(staging, encryptedUri, true);
+      } finally {
+        await staging.closeAsync();
+      }
     } catch (error) {
-      console.error('Database reset failed:', error);
-      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      await FileSystem.deleteAsync(encryptedUri, { idempotent: true });
       throw error;
+    } finally {
+      await FileSystem.deleteAsync(stagingUri, { idempotent: true });
     }
+
+    console.log('Replacing database...');
+    await this.closeAllConnections();
+    await this.moveIntoPlace(encryptedUri);
+    await this.init();
+    console.log('Database replaced successfully');
   }
 
   /**
@@ -340,11 +556,11 @@ class DatabaseService {
     return this.executeWithConnection(async (connection) => {
       const query = `
         INSERT OR REPLACE INTO donations (
-          id, amount, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
+          id, amount_minor, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
           book_no, receipt_serial_no,
-          location_lat, location_lng, receipt_image,
-          created_at, updated_at, sync_status
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          location_lat, location_lng, receipt_image, receipt_image_status, voided_at,
+          created_at, updated_at, sync_status, base_amount_minor
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
 
       await connection.runAsync(query, [
@@ -363,10 +579,15 @@ class DatabaseService {
         donation.location?.latitude || null,
         donation.location?.longitude || null,
         donation.receiptImage || null,
+        donation.receiptImageStatus || null,
+        donation.voidedAt || null,
         donation.createdAt,
         donation.updatedAt,
         donation.syncStatus,
+        donation.baseAmount ?? null,
       ]);
+      await this.upsertBenefactor(connection, donation);
+      await this.fillMissingBaseAmounts(connection, 'donations');
     });
   }
 
@@ -384,7 +605,7 @@ class DatabaseService {
              OR benefactor_address LIKE ? 
              OR category LIKE ? 
              OR description LIKE ? 
-             OR amount LIKE ?
+             OR printf('%.2f', amount_minor / 100.0) LIKE ?
           ORDER BY date DESC 
           LIMIT ? OFFSET ?
         `;
@@ -412,19 +633,28 @@ class DatabaseService {
     });
   }
 
-  async getPendingSyncDonations(): Promise<DonationRecord[]> {
+  // Includes donations sent over SMS, which still need the server's confirmation.
+  // When dueBefore is given, records still waiting out a retry backoff are skipped
+  async getPendingSyncDonations(dueBefore?: string): Promise<DonationRecord[]> {
     return this.executeWithConnection(async (connection) => {
-      const query = 'SELECT * FROM donations WHERE sync_status = "pending" ORDER BY created_at ASC';
-      const result = await connection.getAllAsync(query);
+      const query = `
+        SELECT * FROM donations
+        WHERE sync_status IN ("pending", "sms_sent") AND voided_at IS NULL
+        ${dueBefore ? 'AND (next_retry_at IS NULL OR next_retry_at <= ?)' : ''}
+        ORDER BY created_at ASC
+      `;
+      const result = await connection.getAllAsync(query, dueBefore ? [dueBefore] : []);
       return result.map(this.mapDonationFromDB);
     });
   }
 
-  async updateDonationSyncStatus(id: string, status: 'pending' | 'synced' | 'failed'): Promise<void> {
+  // Setting a status explicitly also clears any recorded sync failure
+  async updateDonationSyncStatus(id: string, status: DonationRecord['syncStatus']): Promise<void> {
     return this.executeWithConnection(async (connection) => {
       const query = `
         UPDATE donations 
-        SET sync_status = ?, updated_at = ? 
+        SET sync_status = ?, updated_at = ?,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
         WHERE id = ?
       `;
 
@@ -432,12 +662,156 @@ class DatabaseService {
     });
   }
 
+  async recordDonationSyncFailure(id: string, failure: SyncFailure, status: 'pending' | 'failed'): Promise<void> {
+    return this.recordSyncFailure('donations', id, failure, status);
+  }
+
+  // Includes amendments the server refused
+  async getFailedSyncCount(): Promise<number> {
+    const [donations, amendments] = await Promise.all([
+      this.getFailedCount('donations'),
+      this.getFailedCount('donation_revisions'),
+    ]);
+    return donations + amendments;
+  }
+
+  async requeueFailedDonations(): Promise<void> {
+    return this.requeueFailed('donations');
+  }
+
+  // Donation revisions (edit / void audit trail)
+  async updateDonationWithRevision(donation: DonationRecord, revision: DonationRevision): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.execAsync('BEGIN TRANSACTION');
+
+      try {
+        await connection.runAsync(`
+          UPDATE donations SET
+            amount_minor = ?, currency = ?, benefactor_name = ?, benefactor_phone = ?, benefactor_address = ?,
+            recipient = ?, category = ?, description = ?, date = ?, book_no = ?, receipt_serial_no = ?,
+            receipt_image = ?, receipt_image_status = ?,
+            voided_at = ?, updated_at = ?, sync_status = ?,
+            base_amount_minor = CASE WHEN amount_minor = ? AND currency = ? THEN base_amount_minor ELSE NULL END,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+          WHERE id = ?
+        `, [
+          donation.amount,
+          donation.currency,
+          donation.benefactorName,
+          donation.benefactorPhone,
+          donation.benefactorAddress || null,
+          donation.recipient,
+          donation.category,
+          donation.description || null,
+          donation.date,
+          donation.bookNo || null,
+          donation.receiptSerialNo !== undefined ? donation.receiptSerialNo : null,
+          donation.receiptImage || null,
+          donation.receiptImageStatus || null,
+          donation.voidedAt || null,
+          donation.updatedAt,
+          donation.syncStatus,
+          donation.amount,
+          donation.currency,
+          donation.id,
+        ]);
+
+        await this.upsertBenefactor(connection, donation);
+        await this.fillMissingBaseAmounts(connection, 'donations');
+
+        await connection.runAsync(`
+          INSERT INTO donation_revisions (
+            id, donation_id, action, old_value, new_value, changed_by, changed_at, sync_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          revision.id,
+          revision.donationId,
+          revision.action,
+          JSON.stringify(revision.oldValue),
+          JSON.stringify(revision.newValue),
+          revision.changedBy,
+          revision.changedAt,
+          revision.syncStatus,
+        ]);
+
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  // Local-only flag, so it does not touch updated_at or the sync status
+  async markDonationNotified(id: string, notifiedAt: string): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync('UPDATE donations SET notified_at = ? WHERE id = ?', [notifiedAt, id]);
+    });
+  }
+
+  async getDonationRevisions(donationId: string): Promise<DonationRevision[]> {
+    return this.executeWithConnection(async (connection) => {
+      const query = 'SELECT * FROM donation_revisions WHERE donation_id = ? ORDER BY changed_at DESC';
+      const result = await connection.getAllAsync(query, [donationId]);
+      return result.map(this.mapDonationRevisionFromDB);
+    });
+  }
+
+  // When dueBefore is given, amendments still waiting out a retry backoff are skipped
+  async getPendingDonationRevisions(dueBefore?: string): Promise<DonationRevision[]> {
+    return this.executeWithConnection(async (connection) => {
+      const query = `
+        SELECT * FROM donation_revisions
+        WHERE sync_status = "pending"
+        ${dueBefore ? 'AND (next_retry_at IS NULL OR next_retry_at <= ?)' : ''}
+        ORDER BY changed_at ASC
+      `;
+      const result = await connection.getAllAsync(query, dueBefore ? [dueBefore] : []);
+      return result.map(this.mapDonationRevisionFromDB);
+    });
+  }
+
+  // Setting a status explicitly also clears any recorded sync failure
+  async updateDonationRevisionSyncStatus(id: string, status: DonationRevision['syncStatus']): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync(`
+        UPDATE donation_revisions
+        SET sync_status = ?,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+        WHERE id = ?
+      `, [status, id]);
+    });
+  }
+
+  async recordDonationRevisionSyncFailure(id: string, failure: SyncFailure, status: 'pending' | 'failed'): Promise<void> {
+    return this.recordSyncFailure('donation_revisions', id, failure, status);
+  }
+
+  async requeueFailedDonationRevisions(): Promise<void> {
+    return this.requeueFailed('donation_revisions');
+  }
+
+  private mapDonationRevisionFromDB(row: any): DonationRevision {
+    return {
+      id: row.id,
+      donationId: row.donation_id,
+      action: row.action,
+      oldValue: JSON.parse(row.old_value),
+      newValue: JSON.parse(row.new_value),
+      changedBy: row.changed_by,
+      changedAt: row.changed_at,
+      syncStatus: row.sync_status,
+      syncFailure: mapSyncFailureFromDB(row),
+    };
+  }
+
   // Helper methods
   private mapDonationFromDB(row: any): DonationRecord {
     return {
       id: row.id,
-      amount: row.amount,
+      amount: moneyFromDB(row.amount_minor),
       currency: row.currency,
+      baseAmount: row.base_amount_minor ?? undefined,
       benefactorName: row.benefactor_name,
       benefactorPhone: row.benefactor_phone,
       benefactorAddress: row.benefactor_address || undefined,
@@ -452,9 +826,13 @@ class DatabaseService {
         longitude: row.location_lng,
       } : undefined,
       receiptImage: row.receipt_image || undefined,
+      receiptImageStatus: row.receipt_image_status || undefined,
+      voidedAt: row.voided_at || undefined,
+      notifiedAt: row.notified_at || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       syncStatus: row.sync_status,
+      syncFailure: mapSyncFailureFromDB(row),
     };
   }
 
@@ -462,7 +840,7 @@ class DatabaseService {
   async getTotalDonations(): Promise<number> {
     try {
       return await this.executeWithConnection(async (connection) => {
-        const result = await connection.getFirstAsync('SELECT COUNT(*) as count FROM donations') as { count: number } | null;
+        const result = await connection.getFirstAsync('SELECT COUNT(*) as count FROM donations WHERE voided_at IS NULL') as { count: number } | null;
         return result?.count || 0;
       });
     } catch (error) {
@@ -472,11 +850,11 @@ class DatabaseService {
     }
   }
 
-  async getTotalAmount(): Promise<number> {
+  async getTotalAmount(): Promise<Money> {
     try {
       return await this.executeWithConnection(async (connection) => {
-        const result = await connection.getFirstAsync('SELECT SUM(amount) as total FROM donations') as { total: number } | null;
-        return result?.total || 0;
+        const result = await connection.getFirstAsync('SELECT SUM(base_amount_minor) as total FROM donations WHERE voided_at IS NULL') as { total: number } | null;
+        return moneyFromDB(result?.total);
       });
     } catch (error) {
       console.error('Error getting total amount:', error);
@@ -485,14 +863,19 @@ class DatabaseService {
       } else {
         Bugsnag.notify(new Error(String(error)));
       }
-      return 0;
+      return ZERO_MONEY;
     }
   }
 
   async getPendingSyncCount(): Promise<number> {
     try {
       return await this.executeWithConnection(async (connection) => {
-        const result = await connection.getFirstAsync('SELECT COUNT(*) as count FROM donations WHERE sync_status = "pending"') as { count: number } | null;
+        // Amendments to already-synced donations also have to be uploaded
+        const result = await connection.getFirstAsync(`
+          SELECT
+            (SELECT COUNT(*) FROM donations WHERE sync_status IN ("pending", "sms_sent") AND voided_at IS NULL) +
+            (SELECT COUNT(*) FROM donation_revisions WHERE sync_status = "pending") as count
+        `) as { count: number } | null;
         return result?.count || 0;
       });
     } catch (error) {
@@ -507,9 +890,9 @@ class DatabaseService {
     return this.executeWithConnection(async (connection) => {
       const query = `
         INSERT OR REPLACE INTO expenses (
-          id, amount, currency, payee, category, description, date,
-          is_personal, created_at, updated_at, sync_status
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          id, amount_minor, currency, payee, category, description, date,
+          is_personal, receipt_image, receipt_image_status, deleted_at, created_at, updated_at, sync_status, base_amount_minor
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
       await connection.runAsync(query, [
         expense.id,
@@ -520,10 +903,15 @@ class DatabaseService {
         expense.description || null,
         expense.date,
         expense.isPersonal ? 1 : 0,
+        expense.receiptImage || null,
+        expense.receiptImageStatus || null,
+        expense.deletedAt || null,
         expense.createdAt,
         expense.updatedAt,
         expense.syncStatus,
+        expense.baseAmount ?? null,
       ]);
+      await this.fillMissingBaseAmounts(connection, 'expenses');
     });
   }
 
@@ -539,7 +927,7 @@ class DatabaseService {
           WHERE payee LIKE ? 
              OR category LIKE ? 
              OR description LIKE ? 
-             OR amount LIKE ?
+             OR printf('%.2f', amount_minor / 100.0) LIKE ?
           ORDER BY date DESC 
           LIMIT ? OFFSET ?
         `;
@@ -566,29 +954,347 @@ class DatabaseService {
     });
   }
 
-  async getPendingSyncExpenses(): Promise<ExpenseRecord[]> {
+  // When dueBefore is given, records still waiting out a retry backoff are skipped
+  async getPendingSyncExpenses(dueBefore?: string): Promise<ExpenseRecord[]> {
     return this.executeWithConnection(async (connection) => {
-      const query = 'SELECT * FROM expenses WHERE sync_status = "pending" ORDER BY created_at ASC';
-      const result = await connection.getAllAsync(query);
+      const query = `
+        SELECT * FROM expenses
+        WHERE sync_status = "pending"
+        ${dueBefore ? 'AND (next_retry_at IS NULL OR next_retry_at <= ?)' : ''}
+        ORDER BY created_at ASC
+      `;
+      const result = await connection.getAllAsync(query, dueBefore ? [dueBefore] : []);
       return result.map(this.mapExpenseFromDB);
     });
   }
 
+  // Setting a status explicitly also clears any recorded sync failure
   async updateExpenseSyncStatus(id: string, status: 'pending' | 'synced' | 'failed'): Promise<void> {
     return this.executeWithConnection(async (connection) => {
       const query = `
         UPDATE expenses 
-        SET sync_status = ?, updated_at = ? 
+        SET sync_status = ?, updated_at = ?,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
         WHERE id = ?
       `;
       await connection.runAsync(query, [status, new Date().toISOString(), id]);
     });
   }
 
+  async recordExpenseSyncFailure(id: string, failure: SyncFailure, status: 'pending' | 'failed'): Promise<void> {
+    return this.recordSyncFailure('expenses', id, failure, status);
+  }
+
+  // Includes amendments the server refused
+  async getFailedSyncExpenseCount(): Promise<number> {
+    const [expenses, amendments] = await Promise.all([
+      this.getFailedCount('expenses'),
+      this.getFailedCount('expense_revisions'),
+    ]);
+    return expenses + amendments;
+  }
+
+  async requeueFailedExpenses(): Promise<void> {
+    return this.requeueFailed('expenses');
+  }
+
+  private async recordSyncFailure(
+    table: SyncFailureTable,
+    id: string,
+    failure: SyncFailure,
+    status: 'pending' | 'failed'
+  ): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync(`
+        UPDATE ${table}
+        SET sync_status = ?, sync_attempts = ?, last_sync_error = ?, last_sync_http_status = ?, next_retry_at = ?
+        WHERE id = ?
+      `, [
+        status,
+        failure.attempts,
+        failure.lastError || null,
+        failure.httpStatus ?? null,
+        failure.nextRetryAt || null,
+        id,
+      ]);
+    });
+  }
+
+  // Unlike the status counts this does not swallow errors, as it guards destructive actions
+  async getUnsyncedSummary(): Promise<UnsyncedSummary> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getFirstAsync(`
+        SELECT
+          (SELECT COUNT(*) FROM donations WHERE sync_status != "synced" AND voided_at IS NULL) +
+          (SELECT COUNT(*) FROM donation_revisions WHERE sync_status IN ("pending", "failed")) as donations,
+          (SELECT COUNT(*) FROM expenses WHERE sync_status != "synced") +
+          (SELECT COUNT(*) FROM expense_revisions WHERE sync_status IN ("pending", "failed")) as expenses,
+          (SELECT COUNT(*) FROM donations WHERE receipt_image_status = "pending") +
+          (SELECT COUNT(*) FROM expenses WHERE receipt_image_status = "pending") as attachments,
+          MIN(date) as oldest_date,
+          MAX(date) as newest_date
+        FROM (
+          SELECT date FROM donations WHERE sync_status != "synced"
+          UNION ALL SELECT date FROM donations
+            WHERE id IN (SELECT donation_id FROM donation_revisions WHERE sync_status IN ("pending", "failed"))
+          UNION ALL SELECT date FROM expenses WHERE sync_status != "synced"
+          UNION ALL SELECT date FROM expenses
+            WHERE id IN (SELECT expense_id FROM expense_revisions WHERE sync_status IN ("pending", "failed"))
+        )
+      `) as {
+        donations: number;
+        expenses: number;
+        attachments: number;
+        oldest_date: string | null;
+        newest_date: string | null;
+      } | null;
+      return {
+        donations: result?.donations || 0,
+        expenses: result?.expenses || 0,
+        attachments: result?.attachments || 0,
+        oldestDate: result?.oldest_date || undefined,
+        newestDate: result?.newest_date || undefined,
+      };
+    });
+  }
+
+  // Puts records that ran out of retries back in the queue with a fresh set of attempts
+  private async requeueFailed(table: SyncFailureTable): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync(`
+        UPDATE ${table}
+        SET sync_status = "pending",
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+        WHERE sync_status = "failed"
+      `);
+    });
+  }
+
+  private async getFailedCount(table: SyncFailureTable): Promise<number> {
+    try {
+      return await this.executeWithConnection(async (connection) => {
+        const result = await connection.getFirstAsync(`SELECT COUNT(*) as count FROM ${table} WHERE sync_status = "failed"`) as { count: number } | null;
+        return result?.count || 0;
+      });
+    } catch (error) {
+      console.error(`Error getting failed ${table} count:`, error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return 0;
+    }
+  }
+
+  // Receipt photos are uploaded on their own, once the server has the record they belong to
+  async getPendingDonationAttachments(): Promise<PendingAttachment[]> {
+    return this.getPendingAttachments('donations');
+  }
+
+  async getPendingExpenseAttachments(): Promise<PendingAttachment[]> {
+    return this.getPendingAttachments('expenses');
+  }
+
+  async updateDonationAttachmentStatus(id: string, status: AttachmentStatus): Promise<void> {
+    return this.updateAttachmentStatus('donations', id, status);
+  }
+
+  async updateExpenseAttachmentStatus(id: string, status: AttachmentStatus): Promise<void> {
+    return this.updateAttachmentStatus('expenses', id, status);
+  }
+
+  private async getPendingAttachments(table: 'donations' | 'expenses'): Promise<PendingAttachment[]> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getAllAsync(`
+        SELECT id, receipt_image FROM ${table}
+        WHERE receipt_image_status = 'pending' AND receipt_image IS NOT NULL AND sync_status = 'synced'
+        ORDER BY created_at ASC
+      `) as { id: string; receipt_image: string }[];
+      return result.map(row => ({ id: row.id, fileName: row.receipt_image }));
+    });
+  }
+
+  private async updateAttachmentStatus(table: 'donations' | 'expenses', id: string, status: AttachmentStatus): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync(`UPDATE ${table} SET receipt_image_status = ? WHERE id = ?`, [status, id]);
+    });
+  }
+
+  // Expense corrections. An expense the server does not have yet is re-queued
+  // and goes out with its corrected values; a correction to one it already has
+  // is sent as an amendment from its revision (see ExpenseRevision.syncStatus).
+  async updateExpense(expense: ExpenseRecord, revision: ExpenseRevision): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.execAsync('BEGIN TRANSACTION');
+
+      try {
+        await connection.runAsync(`
+          UPDATE expenses SET
+            amount_minor = ?, currency = ?, payee = ?, category = ?, description = ?, date = ?, is_personal = ?,
+            receipt_image = ?, receipt_image_status = ?, change_reason = ?, change_note = ?, updated_at = ?, sync_status = ?,
+            base_amount_minor = CASE WHEN amount_minor = ? AND currency = ? THEN base_amount_minor ELSE NULL END,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+          WHERE id = ?
+        `, [
+          expense.amount,
+          expense.currency,
+          expense.payee,
+          expense.category,
+          expense.description || null,
+          expense.date,
+          expense.isPersonal ? 1 : 0,
+          expense.receiptImage || null,
+          expense.receiptImageStatus || null,
+          revision.reasonCode,
+          revision.reasonNote || null,
+          expense.updatedAt,
+          expense.syncStatus,
+          expense.amount,
+          expense.currency,
+          expense.id,
+        ]);
+        await this.fillMissingBaseAmounts(connection, 'expenses');
+        await this.insertExpenseRevision(connection, revision);
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async deleteExpense(id: string, revision: ExpenseRevision): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.execAsync('BEGIN TRANSACTION');
+
+      try {
+        await connection.runAsync(`
+          UPDATE expenses SET
+            deleted_at = ?, change_reason = ?, change_note = ?, updated_at = ?,
+            sync_status = CASE WHEN sync_status = 'synced' THEN 'synced' ELSE 'pending' END,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+          WHERE id = ?
+        `, [
+          revision.changedAt,
+          revision.reasonCode,
+          revision.reasonNote || null,
+          revision.changedAt,
+          id,
+        ]);
+        await this.insertExpenseRevision(connection, revision);
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  private async insertExpenseRevision(connection: SQLite.SQLiteDatabase, revision: ExpenseRevision): Promise<void> {
+    await connection.runAsync(`
+      INSERT INTO expense_revisions (
+        id, expense_id, action, reason_code, reason_note, old_value, new_value, changed_by, changed_at, sync_status
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      revision.id,
+      revision.expenseId,
+      revision.action,
+      revision.reasonCode,
+      revision.reasonNote || null,
+      JSON.stringify(revision.oldValue),
+      JSON.stringify(revision.newValue),
+      revision.changedBy,
+      revision.changedAt,
+      revision.syncStatus,
+    ]);
+  }
+
+  async getExpenseRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+    return this.executeWithConnection(async (connection) => {
+      const query = 'SELECT * FROM expense_revisions WHERE expense_id = ? ORDER BY changed_at DESC';
+      const result = await connection.getAllAsync(query, [expenseId]);
+      return result.map(this.mapExpenseRevisionFromDB);
+    });
+  }
+
+  // When dueBefore is given, amendments still waiting out a retry backoff are skipped
+  async getPendingExpenseRevisions(dueBefore?: string): Promise<ExpenseRevision[]> {
+    return this.executeWithConnection(async (connection) => {
+      const query = `
+        SELECT * FROM expense_revisions
+        WHERE sync_status = "pending"
+        ${dueBefore ? 'AND (next_retry_at IS NULL OR next_retry_at <= ?)' : ''}
+        ORDER BY changed_at ASC
+      `;
+      const result = await connection.getAllAsync(query, dueBefore ? [dueBefore] : []);
+      return result.map(this.mapExpenseRevisionFromDB);
+    });
+  }
+
+  // Setting a status explicitly also clears any recorded sync failure
+  async updateExpenseRevisionSyncStatus(id: string, status: ExpenseRevision['syncStatus']): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync(`
+        UPDATE expense_revisions
+        SET sync_status = ?,
+            sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+        WHERE id = ?
+      `, [status, id]);
+    });
+  }
+
+  async recordExpenseRevisionSyncFailure(id: string, failure: SyncFailure, status: 'pending' | 'failed'): Promise<void> {
+    return this.recordSyncFailure('expense_revisions', id, failure, status);
+  }
+
+  async requeueFailedExpenseRevisions(): Promise<void> {
+    return this.requeueFailed('expense_revisions');
+  }
+
+  /**
+   * For an expense the server answered as a duplicate: it already has the
+   * record, so it is marked synced and the corrections made to it locally are
+   * queued as amendments instead.
+   */
+  async markExpenseAmended(id: string): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.execAsync('BEGIN TRANSACTION');
+      try {
+        await connection.runAsync(`
+          UPDATE expenses
+          SET sync_status = 'synced',
+              sync_attempts = 0, last_sync_error = NULL, last_sync_http_status = NULL, next_retry_at = NULL
+          WHERE id = ?
+        `, [id]);
+        await connection.runAsync(
+          `UPDATE expense_revisions SET sync_status = 'pending' WHERE expense_id = ? AND sync_status = 'local'`,
+          [id]
+        );
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  private mapExpenseRevisionFromDB(row: any): ExpenseRevision {
+    return {
+      id: row.id,
+      expenseId: row.expense_id,
+      action: row.action,
+      reasonCode: row.reason_code,
+      reasonNote: row.reason_note || undefined,
+      oldValue: JSON.parse(row.old_value),
+      newValue: JSON.parse(row.new_value),
+      changedBy: row.changed_by,
+      changedAt: row.changed_at,
+      syncStatus: row.sync_status,
+      syncFailure: mapSyncFailureFromDB(row),
+    };
+  }
+
   async getTotalExpenses(): Promise<number> {
     try {
       return await this.executeWithConnection(async (connection) => {
-        const result = await connection.getFirstAsync('SELECT COUNT(*) as count FROM expenses') as { count: number } | null;
+        const result = await connection.getFirstAsync('SELECT COUNT(*) as count FROM expenses WHERE deleted_at IS NULL') as { count: number } | null;
         return result?.count || 0;
       });
     } catch (error) {
@@ -598,23 +1304,27 @@ class DatabaseService {
     }
   }
 
-  async getTotalExpenseAmount(): Promise<number> {
+  async getTotalExpenseAmount(): Promise<Money> {
     try {
       return await this.executeWithConnection(async (connection) => {
-        const result = await connection.getFirstAsync('SELECT SUM(amount) as total FROM expenses') as { total: number } | null;
-        return result?.total || 0;
+        const result = await connection.getFirstAsync('SELECT SUM(base_amount_minor) as total FROM expenses WHERE deleted_at IS NULL') as { total: number } | null;
+        return moneyFromDB(result?.total);
       });
     } catch (error) {
       console.error('Error getting total expense amount:', error);
       Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-      return 0;
+      return ZERO_MONEY;
     }
   }
 
   async getPendingSyncExpenseCount(): Promise<number> {
     try {
       return await this.executeWithConnection(async (connection) => {
-        const result = await connection.getFirstAsync('SELECT COUNT(*) as count FROM expenses WHERE sync_status = "pending"') as { count: number } | null;
+        const result = await connection.getFirstAsync(`
+          SELECT
+            (SELECT COUNT(*) FROM expenses WHERE sync_status = "pending") +
+            (SELECT COUNT(*) FROM expense_revisions WHERE sync_status = "pending") as count
+        `) as { count: number } | null;
         return result?.count || 0;
       });
     } catch (error) {
@@ -627,19 +1337,159 @@ class DatabaseService {
   private mapExpenseFromDB(row: any): ExpenseRecord {
     return {
       id: row.id,
-      amount: row.amount,
+      amount: moneyFromDB(row.amount_minor),
       currency: row.currency,
+      baseAmount: row.base_amount_minor ?? undefined,
       payee: row.payee,
       category: row.category,
       description: row.description,
       date: row.date,
       isPersonal: Boolean(row.is_personal),
+      receiptImage: row.receipt_image || undefined,
+      receiptImageStatus: row.receipt_image_status || undefined,
+      deletedAt: row.deleted_at || undefined,
+      changeReason: row.change_reason || undefined,
+      changeNote: row.change_note || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       syncStatus: row.sync_status,
+      syncFailure: mapSyncFailureFromDB(row),
     };
   }
 
+  // Report aggregates. Date bounds are ISO strings, start inclusive and end exclusive.
+  private async getCategoryTotals(
+    table: 'donations' | 'expenses',
+    startDate: string,
+    endDate: string
+  ): Promise<{ key: string; total: Money; count: number }[]> {
+    return this.executeWithConnection(async (connection) => {
+      const activeFilter = table === 'donations' ? 'AND voided_at IS NULL' : 'AND deleted_at IS NULL';
+      const query = `
+        SELECT category as key, COALESCE(SUM(base_amount_minor), 0) as total, COUNT(*) as count
+        FROM ${table}
+        WHERE date >= ? AND date < ? ${activeFilter}
+        GROUP BY key
+        ORDER BY key ASC
+      `;
+      const result = await connection.getAllAsync(query, [startDate, endDate]) as any[];
+      return result.map(row => ({
+        key: row.key,
+        total: moneyFromDB(row.total),
+        count: row.count || 0,
+      }));
+    });
+  }
+
+  // Totals for each period, bounded by instants worked out by the caller, so a
+  // period can follow local months across a daylight saving change
+  private async getPeriodTotals(
+    table: 'donations' | 'expenses',
+    periods: ReportPeriod[]
+  ): Promise<{ key: string; total: Money; count: number }[]> {
+    return this.executeWithConnection(async (connection) => {
+      const activeFilter = table === 'donations' ? 'AND voided_at IS NULL' : 'AND deleted_at IS NULL';
+      const query = `
+        SELECT COALESCE(SUM(base_amount_minor), 0) as total, COUNT(*) as count
+        FROM ${table}
+        WHERE date >= ? AND date < ? ${activeFilter}
+      `;
+      const totals: { key: string; total: Money; count: number }[] = [];
+      for (const period of periods) {
+        const row = await connection.getFirstAsync(query, [period.start, period.end]) as { total: number; count: number } | null;
+        totals.push({ key: period.key, total: moneyFromDB(row?.total), count: row?.count || 0 });
+      }
+      return totals;
+    });
+  }
+
+  async getDonationTotalsByPeriod(periods: ReportPeriod[]) {
+    return this.getPeriodTotals('donations', periods);
+  }
+
+  async getDonationTotalsByCategory(startDate: string, endDate: string) {
+    return this.getCategoryTotals('donations', startDate, endDate);
+  }
+
+  async getExpenseTotalsByPeriod(periods: ReportPeriod[]) {
+    return this.getPeriodTotals('expenses', periods);
+  }
+
+  async getExpenseTotalsByCategory(startDate: string, endDate: string) {
+    return this.getCategoryTotals('expenses', startDate, endDate);
+  }
+
+  async getDonationAmountBefore(date: string): Promise<Money> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getFirstAsync('SELECT SUM(base_amount_minor) as total FROM donations WHERE date < ? AND voided_at IS NULL', [date]) as { total: number } | null;
+      return moneyFromDB(result?.total);
+    });
+  }
+
+  async getExpenseAmountBefore(date: string): Promise<Money> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getFirstAsync('SELECT SUM(base_amount_minor) as total FROM expenses WHERE date < ? AND deleted_at IS NULL', [date]) as { total: number } | null;
+      return moneyFromDB(result?.total);
+    });
+  }
+
+  // Where donations were collected, for the collection points view
+  async getCollectionPoints(startDate?: string): Promise<CollectionPoint[]> {
+    return this.executeWithConnection(async (connection) => {
+      const query = `
+        SELECT location_lat, location_lng, base_amount_minor, date FROM donations
+        WHERE location_lat IS NOT NULL AND location_lng IS NOT NULL AND voided_at IS NULL
+        ${startDate ? 'AND date >= ?' : ''}
+      `;
+      const result = await connection.getAllAsync(query, startDate ? [startDate] : []) as any[];
+      return result.map(row => ({
+        latitude: row.location_lat,
+        longitude: row.location_lng,
+        baseAmount: row.base_amount_minor ?? undefined,
+        date: row.date,
+      }));
+    });
+  }
+
+  // All donations matching an export filter, oldest first
+  async getDonationsForExport(filter: DonationExportFilter): Promise<DonationRecord[]> {
+    return this.executeWithConnection(async (connection) => {
+      const conditions = ['date >= ?', 'date < ?'];
+      const params: any[] = [filter.startDate, filter.endDate];
+      if (filter.category) {
+        conditions.push('category = ?');
+        params.push(filter.category);
+      }
+      if (!filter.includeVoided) conditions.push('voided_at IS NULL');
+
+      const result = await connection.getAllAsync(
+        `SELECT * FROM donations WHERE ${conditions.join(' AND ')} ORDER BY date ASC`,
+        params
+      );
+      return result.map(this.mapDonationFromDB);
+    });
+  }
+
+  // All expenses matching an export filter, oldest first
+  async getExpensesForExport(filter: ExpenseExportFilter): Promise<ExpenseRecord[]> {
+    return this.executeWithConnection(async (connection) => {
+      const conditions = ['date >= ?', 'date < ?'];
+      const params: any[] = [filter.startDate, filter.endDate];
+      if (filter.category) {
+        conditions.push('category = ?');
+        params.push(filter.category);
+      }
+      if (!filter.includeDeleted) conditions.push('deleted_at IS NULL');
+      if (!filter.includePersonal) conditions.push('is_personal = 0');
+
+      const result = await connection.getAllAsync(
+        `SELECT * FROM expenses WHERE ${conditions.join(' AND ')} ORDER BY date ASC`,
+        params
+      );
+      return result.map(this.mapExpenseFromDB);
+    });
+  }
+
   // Bulk operations for better performance
   async bulkSaveDonations(donations: DonationRecord[]): Promise<void> {
     return this.executeWithConnection(async (connection) => {
@@ -651,11 +1501,11 @@ class DatabaseService {
       try {
         const query = `
           INSERT OR REPLACE INTO donations (
-            id, amount, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
+            id, amount_minor, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
             book_no, receipt_serial_no,
-            location_lat, location_lng, receipt_image,
-            created_at, updated_at, sync_status
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            location_lat, location_lng, receipt_image, receipt_image_status, voided_at,
+            created_at, updated_at, sync_status, base_amount_minor
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
 
         // Prepare statement for better performance
@@ -678,13 +1528,18 @@ class DatabaseService {
             donation.location?.latitude || null,
             donation.location?.longitude || null,
             donation.receiptImage || null,
+            donation.receiptImageStatus || null,
+            donation.voidedAt || null,
             donation.createdAt,
             donation.updatedAt,
             donation.syncStatus,
+            donation.baseAmount ?? null,
           ]);
+          await this.upsertBenefactor(connection, donation);
         }
 
         await stmt.finalizeAsync();
+        await this.fillMissingBaseAmounts(connection, 'donations');
         await connection.execAsync('COMMIT');
       } catch (error) {
         await connection.execAsync('ROLLBACK');
@@ -703,9 +1558,9 @@ class DatabaseService {
       try {
         const query = `
           INSERT OR REPLACE INTO expenses (
-            id, amount, currency, payee, category, description, date, is_personal,
-            created_at, updated_at, sync_status
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            id, amount_minor, currency, payee, category, description, date, is_personal,
+            receipt_image, receipt_image_status, deleted_at, created_at, updated_at, sync_status, base_amount_minor
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
 
         // Prepare statement for better performance
@@ -721,13 +1576,18 @@ class DatabaseService {
             expense.description || null,
             expense.date,
             expense.isPersonal ? 1 : 0,
+            expense.receiptImage || null,
+            expense.receiptImageStatus || null,
+            expense.deletedAt || null,
             expense.createdAt,
             expense.updatedAt,
             expense.syncStatus,
+            expense.baseAmount ?? null,
           ]);
         }
 
         await stmt.finalizeAsync();
+        await this.fillMissingBaseAmounts(connection, 'expenses');
         await connection.execAsync('COMMIT');
       } catch (error) {
         await connection.execAsync('ROLLBACK');
@@ -747,11 +1607,11 @@ class DatabaseService {
       try {
         const query = `
           INSERT OR REPLACE INTO donations (
-            id, amount, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
+            id, amount_minor, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
             book_no, receipt_serial_no,
-            location_lat, location_lng, receipt_image,
-            created_at, updated_at, sync_status
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            location_lat, location_lng, receipt_image, receipt_image_status, voided_at,
+            created_at, updated_at, sync_status, base_amount_minor
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
 
         // Prepare statement for better performance
@@ -778,14 +1638,19 @@ class DatabaseService {
               donation.location?.latitude || null,
               donation.location?.longitude || null,
               donation.receiptImage || null,
+              donation.receiptImageStatus || null,
+              donation.voidedAt || null,
               donation.createdAt,
               donation.updatedAt,
               donation.syncStatus,
+              donation.baseAmount ?? null,
             ]);
+            await this.upsertBenefactor(connection, donation);
           }
         }
 
         await stmt.finalizeAsync();
+        await this.fillMissingBaseAmounts(connection, 'donations');
         await connection.execAsync('COMMIT');
       } catch (error) {
         await connection.execAsync('ROLLBACK');
@@ -804,9 +1669,9 @@ class DatabaseService {
       try {
         const query = `
           INSERT OR REPLACE INTO expenses (
-            id, amount, currency, payee, category, description, date, is_personal,
-            created_at, updated_at, sync_status
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            id, amount_minor, currency, payee, category, description, date, is_personal,
+            receipt_image, receipt_image_status, deleted_at, created_at, updated_at, sync_status, base_amount_minor
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
 
         // Prepare statement for better performance
@@ -826,21 +1691,426 @@ class DatabaseService {
               expense.description || null,
               expense.date,
               expense.isPersonal ? 1 : 0,
+              expense.receiptImage || null,
+              expense.receiptImageStatus || null,
+              expense.deletedAt || null,
               expense.createdAt,
               expense.updatedAt,
               expense.syncStatus,
+              expense.baseAmount ?? null,
             ]);
           }
         }
 
         await stmt.finalizeAsync();
+        await this.fillMissingBaseAmounts(connection, 'expenses');
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  // Exchange rates. Each record keeps the base-currency amount it was first
+  // converted at; records in a currency without a rate stay unconverted (and
+  // out of all totals) until a rate for it is entered.
+  private async fillMissingBaseAmounts(connection: SQLite.SQLiteDatabase, table: 'donations' | 'expenses'): Promise<void> {
+    await connection.runAsync(`
+      UPDATE ${table} SET base_amount_minor = CASE
+        WHEN currency = ? THEN amount_minor
+        ELSE CAST(ROUND(amount_minor * (SELECT rate FROM exchange_rates WHERE exchange_rates.currency = ${table}.currency)) AS INTEGER)
+      END
+      WHERE base_amount_minor IS NULL
+    `, [BASE_CURRENCY]);
+  }
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getAllAsync('SELECT * FROM exchange_rates ORDER BY currency ASC') as any[];
+      return result.map(row => ({ currency: row.currency, rate: row.rate, updatedAt: row.updated_at }));
+    });
+  }
+
+  async saveExchangeRates(rates: ExchangeRate[]): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      if (rates.length === 0) return;
+
+      await connection.execAsync('BEGIN TRANSACTION');
+
+      try {
+        for (const rate of rates) {
+          await connection.runAsync(`
+            INSERT INTO exchange_rates (currency, rate, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(currency) DO UPDATE SET rate = excluded.rate, updated_at = excluded.updated_at
+          `, [rate.currency, rate.rate, rate.updatedAt]);
+        }
+        await this.fillMissingBaseAmounts(connection, 'donations');
+        await this.fillMissingBaseAmounts(connection, 'expenses');
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async deleteExchangeRate(currency: string): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync('DELETE FROM exchange_rates WHERE currency = ?', [currency]);
+    });
+  }
+
+  // Active records that are left out of totals because their currency has no rate
+  async getUnconvertedCurrencies(): Promise<{ currency: string; count: number }[]> {
+    return this.executeWithConnection(async (connection) => {
+      return await connection.getAllAsync(`
+        SELECT currency, COUNT(*) as count FROM (
+          SELECT currency FROM donations WHERE base_amount_minor IS NULL AND voided_at IS NULL
+          UNION ALL
+          SELECT currency FROM expenses WHERE base_amount_minor IS NULL AND deleted_at IS NULL
+        )
+        GROUP BY currency
+        ORDER BY currency ASC
+      `) as { currency: string; count: number }[];
+    });
+  }
+
+  // Benefactor directory, keyed by phone. Name and address follow the most
+  // recent donation; totals are always computed from the donations themselves.
+  private async upsertBenefactor(connection: SQLite.SQLiteDatabase, donation: DonationRecord): Promise<void> {
+    if (!donation.benefactorPhone) return;
+    await connection.runAsync(`
+      INSERT INTO benefactors (phone, name, address, first_donation_at, last_donation_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(phone) DO UPDATE SET
+        name = CASE WHEN excluded.last_donation_at >= benefactors.last_donation_at THEN excluded.name ELSE benefactors.name END,
+        address = CASE WHEN excluded.last_donation_at >= benefactors.last_donation_at
+          THEN COALESCE(excluded.address, benefactors.address) ELSE benefactors.address END,
+        first_donation_at = MIN(benefactors.first_donation_at, excluded.first_donation_at),
+        last_donation_at = MAX(benefactors.last_donation_at, excluded.last_donation_at),
+        updated_at = excluded.updated_at
+    `, [
+      donation.benefactorPhone,
+      donation.benefactorName,
+      donation.benefactorAddress || null,
+      donation.date,
+      donation.date,
+      new Date().toISOString(),
+    ]);
+  }
+
+  async searchBenefactors(query: string, limit = 8): Promise<Benefactor[]> {
+    return this.executeWithConnection(async (connection) => {
+      const searchTerm = `%${query.trim()}%`;
+      const result = await connection.getAllAsync(`
+        SELECT * FROM benefactors
+        WHERE name LIKE ? OR phone LIKE ?
+        ORDER BY last_donation_at DESC
+        LIMIT ?
+      `, [searchTerm, searchTerm, limit]);
+      return result.map(row => this.mapBenefactorFromDB(row));
+    });
+  }
+
+  async getBenefactors(limit = 50, offset = 0, searchQuery?: string): Promise<BenefactorSummary[]> {
+    return this.executeWithConnection(async (connection) => {
+      const searchTerm = `%${(searchQuery || '').trim()}%`;
+      const result = await connection.getAllAsync(`
+        SELECT b.*, COUNT(d.id) as donation_count, COALESCE(SUM(d.base_amount_minor), 0) as total_amount
+        FROM benefactors b
+        LEFT JOIN donations d ON d.benefactor_phone = b.phone AND d.voided_at IS NULL
+        WHERE b.name LIKE ? OR b.phone LIKE ?
+        GROUP BY b.phone
+        ORDER BY b.last_donation_at DESC
+        LIMIT ? OFFSET ?
+      `, [searchTerm, searchTerm, limit, offset]) as any[];
+      return result.map(row => ({
+        benefactor: this.mapBenefactorFromDB(row),
+        donationCount: row.donation_count,
+        totalAmount: moneyFromDB(row.total_amount),
+      }));
+    });
+  }
+
+  async getBenefactorProfile(phone: string): Promise<BenefactorProfile | null> {
+    return this.executeWithConnection(async (connection) => {
+      const row = await connection.getFirstAsync('SELECT * FROM benefactors WHERE phone = ?', [phone]);
+      if (!row) return null;
+
+      const donations = await connection.getAllAsync(
+        'SELECT * FROM donations WHERE benefactor_phone = ? ORDER BY date DESC',
+        [phone]
+      );
+      const totals = await connection.getAllAsync(`
+        SELECT category, COUNT(*) as count, COALESCE(SUM(base_amount_minor), 0) as total
+        FROM donations
+        WHERE benefactor_phone = ? AND voided_at IS NULL
+        GROUP BY category
+        ORDER BY total DESC
+      `, [phone]) as { category: DonationRecord['category']; count: number; total: Money }[];
+
+      return {
+        benefactor: this.mapBenefactorFromDB(row),
+        donationCount: totals.reduce((sum, item) => sum + item.count, 0),
+        totalAmount: addMoney(...totals.map(item => item.total)),
+        totalsByCategory: totals,
+        donations: donations.map(donation => this.mapDonationFromDB(donation)),
+      };
+    });
+  }
+
+  private mapBenefactorFromDB(row: any): Benefactor {
+    return {
+      phone: row.phone,
+      name: row.name,
+      address: row.address || undefined,
+      firstDonationAt: row.first_donation_at,
+      lastDonationAt: row.last_donation_at,
+    };
+  }
+
+  // Receipt books
+  async saveReceiptBook(book: ReceiptBook): Promise<void> {
+    return this.executeWithConnection(async (connection) => {
+      await connection.runAsync(`
+        INSERT OR REPLACE INTO receipt_books (
+          id, book_no, collector, start_serial, end_serial, issued_at, closed_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        book.id,
+        book.bookNo,
+        book.collector,
+        book.startSerial,
+        book.endSerial,
+        book.issuedAt,
+        book.closedAt || null,
+        book.createdAt,
+        book.updatedAt,
+      ]);
+    });
+  }
+
+  async getReceiptBooks(collector?: string): Promise<ReceiptBook[]> {
+    return this.executeWithConnection(async (connection) => {
+      const result = collector
+        ? await connection.getAllAsync('SELECT * FROM receipt_books WHERE collector = ? ORDER BY issued_at DESC', [collector])
+        : await connection.getAllAsync('SELECT * FROM receipt_books ORDER BY issued_at DESC');
+      return result.map(row => this.mapReceiptBookFromDB(row));
+    });
+  }
+
+  async getReceiptBookByNo(bookNo: string): Promise<ReceiptBook | null> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getFirstAsync('SELECT * FROM receipt_books WHERE book_no = ?', [bookNo]);
+      return result ? this.mapReceiptBookFromDB(result) : null;
+    });
+  }
+
+  // Every serial recorded against a book, including voided donations
+  async getReceiptSerials(bookNo: string): Promise<{ donationId: string; serial: number; voided: boolean }[]> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getAllAsync(`
+        SELECT id, receipt_serial_no, voided_at FROM donations
+        WHERE book_no = ? AND receipt_serial_no IS NOT NULL
+        ORDER BY receipt_serial_no
+      `, [bookNo]) as any[];
+      return result.map(row => ({
+        donationId: row.id,
+        serial: row.receipt_serial_no,
+        voided: !!row.voided_at,
+      }));
+    });
+  }
+
+  private mapReceiptBookFromDB(row: any): ReceiptBook {
+    return {
+      id: row.id,
+      bookNo: row.book_no,
+      collector: row.collector,
+      startSerial: row.start_serial,
+      endSerial: row.end_serial,
+      issuedAt: row.issued_at,
+      closedAt: row.closed_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // Incremental pull. Server changes only overwrite or delete records that are
+  // fully synced locally; anything with unsynced local changes (pending,
+  // failed, sent by SMS or with pending amendments) is left alone and will
+  // reach the server on the next upload. The cursor is stored in the same
+  // transaction so a page is never applied twice or skipped. Range downloads
+  // pass their own cursor entity so they never move the incremental cursor.
+  async getSyncCursor(entity: string): Promise<string | null> {
+    return this.executeWithConnection(async (connection) => {
+      const result = await connection.getFirstAsync('SELECT cursor FROM sync_cursors WHERE entity = ?', [entity]) as { cursor: string } | null;
+      return result?.cursor || null;
+    });
+  }
+
+  async applyPulledDonations(donations: DonationRecord[], deletedIds: string[], cursor?: string, cursorEntity = 'donations'): Promise<PullMergeResult> {
+    return this.executeWithConnection(async (connection) => {
+      const result: PullMergeResult = { saved: 0, deleted: 0, skipped: 0 };
+      // A failed amendment holds back the server's copy too: the local edit is
+      // still the user's correction and goes out again on a manual sync
+      const isSyncedLocally = `
+        donations.sync_status = 'synced'
+        AND NOT EXISTS (SELECT 1 FROM donation_revisions WHERE donation_id = donations.id AND sync_status IN ('pending', 'failed'))
+      `;
+
+      await connection.execAsync('BEGIN TRANSACTION');
+
+      try {
+        const upsert = await connection.prepareAsync(`
+          INSERT INTO donations (
+            id, amount_minor, currency, benefactor_name, benefactor_phone, benefactor_address, recipient, category, description, date,
+            book_no, receipt_serial_no,
+            location_lat, location_lng, receipt_image, voided_at,
+            created_at, updated_at, sync_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'synced')
+          ON CONFLICT(id) DO UPDATE SET
+            amount_minor = excluded.amount_minor, currency = excluded.currency,
+            benefactor_name = excluded.benefactor_name, benefactor_phone = excluded.benefactor_phone,
+            benefactor_address = excluded.benefactor_address, recipient = excluded.recipient,
+            category = excluded.category, description = excluded.description, date = excluded.date,
+            book_no = excluded.book_no, receipt_serial_no = excluded.receipt_serial_no,
+            location_lat = COALESCE(excluded.location_lat, donations.location_lat),
+            location_lng = COALESCE(excluded.location_lng, donations.location_lng),
+            receipt_image = CASE WHEN donations.receipt_image_status = 'pending' THEN donations.receipt_image
+              ELSE COALESCE(excluded.receipt_image, donations.receipt_image) END,
+            voided_at = excluded.voided_at, updated_at = excluded.updated_at,
+            base_amount_minor = CASE WHEN donations.amount_minor = excluded.amount_minor AND donations.currency = excluded.currency
+              THEN donations.base_amount_minor ELSE NULL END
+          WHERE ${isSyncedLocally}
+        `);
+        try {
+          for (const donation of donations) {
+            const { changes } = await upsert.executeAsync([
+              donation.id,
+              donation.amount,
+              donation.currency,
+              donation.benefactorName,
+              donation.benefactorPhone,
+              donation.benefactorAddress || null,
+              donation.recipient,
+              donation.category,
+              donation.description || null,
+              donation.date,
+              donation.bookNo || null,
+              donation.receiptSerialNo !== undefined ? donation.receiptSerialNo : null,
+              donation.location?.latitude || null,
+              donation.location?.longitude || null,
+              donation.receiptImage || null,
+              donation.voidedAt || null,
+              donation.createdAt,
+              donation.updatedAt,
+            ]);
+            if (changes > 0) {
+              result.saved++;
+              await this.upsertBenefactor(connection, donation);
+            } else {
+              result.skipped++;
+            }
+          }
+        } finally {
+          await upsert.finalizeAsync();
+        }
+        await this.fillMissingBaseAmounts(connection, 'donations');
+
+        for (const id of deletedIds) {
+          const { changes } = await connection.runAsync(`DELETE FROM donations WHERE id = ? AND ${isSyncedLocally}`, [id]);
+          if (changes > 0) result.deleted++;
+        }
+
+        if (cursor) {
+          await this.saveSyncCursor(connection, cursorEntity, cursor);
+        }
         await connection.execAsync('COMMIT');
       } catch (error) {
         await connection.execAsync('ROLLBACK');
         throw error;
       }
+      return result;
     });
   }
+
+  async applyPulledExpenses(expenses: ExpenseRecord[], deletedIds: string[], cursor?: string, cursorEntity = 'expenses'): Promise<PullMergeResult> {
+    return this.executeWithConnection(async (connection) => {
+      const result: PullMergeResult = { saved: 0, deleted: 0, skipped: 0 };
+      // Corrections that have not reached the server hold back its copy, as for donations
+      const isSyncedLocally = `
+        expenses.sync_status = 'synced'
+        AND NOT EXISTS (SELECT 1 FROM expense_revisions WHERE expense_id = expenses.id AND sync_status IN ('pending', 'failed'))
+      `;
+
+      await connection.execAsync('BEGIN TRANSACTION');
+
+      try {
+        const upsert = await connection.prepareAsync(`
+          INSERT INTO expenses (
+            id, amount_minor, currency, payee, category, description, date, is_personal,
+            receipt_image, deleted_at, created_at, updated_at, sync_status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'synced')
+          ON CONFLICT(id) DO UPDATE SET
+            amount_minor = excluded.amount_minor, currency = excluded.currency, payee = excluded.payee,
+            category = excluded.category, description = excluded.description, date = excluded.date,
+            is_personal = excluded.is_personal,
+            receipt_image = CASE WHEN expenses.receipt_image_status = 'pending' THEN expenses.receipt_image
+              ELSE COALESCE(excluded.receipt_image, expenses.receipt_image) END,
+            deleted_at = excluded.deleted_at, updated_at = excluded.updated_at,
+            base_amount_minor = CASE WHEN expenses.amount_minor = excluded.amount_minor AND expenses.currency = excluded.currency
+              THEN expenses.base_amount_minor ELSE NULL END
+          WHERE ${isSyncedLocally}
+        `);
+        try {
+          for (const expense of expenses) {
+            const { changes } = await upsert.executeAsync([
+              expense.id,
+              expense.amount,
+              expense.currency,
+              expense.payee,
+              expense.category,
+              expense.description || null,
+              expense.date,
+              expense.isPersonal ? 1 : 0,
+              expense.receiptImage || null,
+              expense.deletedAt || null,
+              expense.createdAt,
+              expense.updatedAt,
+            ]);
+            if (changes > 0) result.saved++;
+            else result.skipped++;
+          }
+        } finally {
+          await upsert.finalizeAsync();
+        }
+        await this.fillMissingBaseAmounts(connection, 'expenses');
+
+        for (const id of deletedIds) {
+          const { changes } = await connection.runAsync(`DELETE FROM expenses WHERE id = ? AND ${isSyncedLocally}`, [id]);
+          if (changes > 0) result.deleted++;
+        }
+
+        if (cursor) {
+          await this.saveSyncCursor(connection, cursorEntity, cursor);
+        }
+        await connection.execAsync('COMMIT');
+      } catch (error) {
+        await connection.execAsync('ROLLBACK');
+        throw error;
+      }
+      return result;
+    });
+  }
+
+  private async saveSyncCursor(connection: SQLite.SQLiteDatabase, entity: string, cursor: string): Promise<void> {
+    await connection.runAsync(`
+      INSERT INTO sync_cursors (entity, cursor, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(entity) DO UPDATE SET cursor = excluded.cursor, updated_at = excluded.updated_at
+    `, [entity, cursor, new Date().toISOString()]);
+  }
 }
 
 export const databaseService = new DatabaseService(); 
\ No newline at end of file
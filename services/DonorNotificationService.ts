@@ -0,0 +1,53 @@
+import Bugsnag from '@bugsnag/expo';
+import * as SMS from 'expo-sms';
+import { Linking, Share } from 'react-native';
+import { DonationRecord } from '../types/data';
+import { databaseService } from './DatabaseService';
+
+export type NotificationChannel = 'sms' | 'whatsapp' | 'share';
+
+export type NotificationResult = 'sent' | 'cancelled' | 'unavailable';
+
+/**
+ * Sends a thank-you message to the benefactor through the device's SMS
+ * composer, WhatsApp or the system share sheet. Nothing is sent without the
+ * user pressing send in the other app, so a donation is marked notified
+ * unless the user cancels.
+ */
+export class DonorNotificationService {
+  static async send(donation: DonationRecord, channel: NotificationChannel, message: string): Promise<NotificationResult> {
+    try {
+      const result = await this.open(donation.benefactorPhone, channel, message);
+      if (result === 'sent') {
+        await databaseService.markDonationNotified(donation.id, new Date().toISOString());
+      }
+      return result;
+    } catch (error) {
+      console.error(`Error sending donation confirmation by ${channel}:`, error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return 'unavailable';
+    }
+  }
+
+  private static async open(phone: string, channel: NotificationChannel, message: string): Promise<NotificationResult> {
+    switch (channel) {
+      case 'sms': {
+        if (!(await SMS.isAvailableAsync())) return 'unavailable';
+        // Android always reports 'unknown'; only an explicit cancel counts as not sent
+        const { result } = await SMS.sendSMSAsync([phone], message);
+        return result === 'cancelled' ? 'cancelled' : 'sent';
+      }
+      case 'whatsapp': {
+        // wa.me takes the international number without the leading +
+        const url = `https://wa.me/${phone.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+        if (!(await Linking.canOpenURL(url))) return 'unavailable';
+        await Linking.openURL(url);
+        return 'sent';
+      }
+      case 'share': {
+        const { action } = await Share.share({ message });
+        return action === Share.dismissedAction ? 'cancelled' : 'sent';
+      }
+    }
+  }
+}
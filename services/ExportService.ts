@@ -0,0 +1,115 @@
+import Bugsnag from '@bugsnag/expo';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as XLSX from 'xlsx';
+import { DonationRecord, ExpenseRecord } from '../types/data';
+import { buildDonationRows, buildExpenseRows, ExportCell, ExportFormat, ExportLanguage, toCsv } from '../utils/export';
+import { databaseService } from './DatabaseService';
+
+export type ExportRecordType = 'donations' | 'expenses';
+
+export interface ExportOptions {
+  recordType: ExportRecordType;
+  startDate: Date; // both days inclusive, as for reports
+  endDate: Date;
+  category?: DonationRecord['category'] | ExpenseRecord['category'];
+  includeInactive?: boolean; // voided donations or deleted expenses
+  includePersonal?: boolean; // expenses only
+  format: ExportFormat;
+  language: ExportLanguage;
+}
+
+export interface ExportResult {
+  status: 'shared' | 'empty' | 'unavailable' | 'error';
+  count: number;
+}
+
+const FILE_TYPES: { [key in ExportFormat]: { mimeType: string; UTI: string } } = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', UTI: 'org.openxmlformats.spreadsheetml.sheet' },
+};
+
+const SHEET_NAMES: { [key in ExportRecordType]: { en: string; ur: string } } = {
+  donations: { en: 'Donations', ur: 'عطیات' },
+  expenses: { en: 'Expenses', ur: 'اخراجات' },
+};
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Writes donations or expenses to a CSV or Excel file and hands it to the
+ * system share sheet, for treasurers reconciling the accounts in a spreadsheet.
+ */
+export class ExportService {
+  static async exportRecords(options: ExportOptions): Promise<ExportResult> {
+    try {
+      const rows = await this.buildRows(options);
+      const count = rows.length - 1;
+      if (count === 0) return { status: 'empty', count };
+
+      if (!(await Sharing.isAvailableAsync())) {
+        console.log('Sharing is not available on this device');
+        return { status: 'unavailable', count };
+      }
+
+      const uri = await this.writeFile(rows, options);
+      await Sharing.shareAsync(uri, { ...FILE_TYPES[options.format], dialogTitle: 'فائل شیئر کریں' });
+      return { status: 'shared', count };
+    } catch (error) {
+      console.error('Error exporting records:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return { status: 'error', count: 0 };
+    }
+  }
+
+  private static async buildRows(options: ExportOptions): Promise<ExportCell[][]> {
+    const { startDate, endDate } = options;
+    const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate()).toISOString();
+    const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() + 1).toISOString();
+
+    if (options.recordType === 'donations') {
+      const donations = await databaseService.getDonationsForExport({
+        startDate: start,
+        endDate: end,
+        category: options.category as DonationRecord['category'] | undefined,
+        includeVoided: options.includeInactive,
+      });
+      return buildDonationRows(donations, options.language, options.format);
+    }
+
+    const expenses = await databaseService.getExpensesForExport({
+      startDate: start,
+      endDate: end,
+      category: options.category as ExpenseRecord['category'] | undefined,
+      includeDeleted: options.includeInactive,
+      includePersonal: options.includePersonal,
+    });
+    return buildExpenseRows(expenses, options.language, options.format);
+  }
+
+  private static async writeFile(rows: ExportCell[][], options: ExportOptions): Promise<string> {
+    const name = `${options.recordType}-${toDayKey(options.startDate)}-${toDayKey(options.endDate)}`;
+    const uri = `${FileSystem.cacheDirectory}${name}.${options.format}`;
+
+    if (options.format === 'csv') {
+      await FileSystem.writeAsStringAsync(uri, toCsv(rows), { encoding: FileSystem.EncodingType.UTF8 });
+      return uri;
+    }
+
+    const workbook = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    // Size each column to its longest value so the sheet is readable without resizing
+    sheet['!cols'] = rows[0].map((_, column) => ({
+      wch: Math.min(Math.max(...rows.map(row => String(row[column]).length)) + 2, 50),
+    }));
+    XLSX.utils.book_append_sheet(workbook, sheet, SHEET_NAMES[options.recordType][options.language]);
+    if (options.language === 'ur') {
+      workbook.Workbook = { Views: [{ RTL: true }] };
+    }
+
+    const data = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
+    await FileSystem.writeAsStringAsync(uri, data, { encoding: FileSystem.EncodingType.Base64 });
+    return uri;
+  }
+}
@@ -2,252 +2,269 @@ import Bugsnag from '@bugsnag/expo';
 import * as CryptoJS from 'crypto-js';
 import * as SecureStore from 'expo-secure-store';
 import { API_BASE_URL } from '../constants/Config';
-import { DonationRecord, ExpenseRecord } from '../types/data';
+import { DonationRecord, ExpenseRecord, PullMergeResult } from '../types/data';
+import { getFiscalYearRange } from '../utils/fiscalYear';
+import { toMinorUnits } from '../utils/money';
 import { databaseService } from './DatabaseService';
+import { SyncConfigService } from './SyncConfigService';
 
+const PAGE_SIZE = 200;
+
+// One page of server changes. `deleted` lists ids removed on the server,
+// `cursor` is the server's position to continue from and `total` is the
+// number of changes the whole pull will return, when the server knows it.
+interface PulledChanges {
+  data: any[];
+  deleted: string[];
+  cursor?: string;
+  hasMore: boolean;
+  total: number | null;
+}
+
+export interface HistoricalSyncProgress {
+  entity: 'donations' | 'expenses';
+  processed: number;
+  total: number | null;
+}
+
+// Dates are YYYY-MM-DD; start is inclusive and end exclusive
+export interface HistoricalSyncRange {
+  start: string;
+  end: string;
+}
+
+export interface HistoricalSyncOptions {
+  onProgress?: (progress: HistoricalSyncProgress) => void;
+  signal?: AbortSignal;
+  range?: HistoricalSyncRange;
+}
+
+// A range download keeps its own checkpoint so it can resume without moving
+// the incremental cursor
+const cursorEntityFor = (entity: 'donations' | 'expenses', range?: HistoricalSyncRange) =>
+  range ? `${entity}:${range.start}:${range.end}` : entity;
+
+// "x of y" progress text for the login and settings screens
+export function formatHistoricalSyncProgress({ entity, processed, total }: HistoricalSyncProgress): string {
+  const label = entity === 'donations' ? 'عطیات' : 'اخراجات';
+  return total !== null
+    ? `${label} ڈاؤن لوڈ ہو رہے ہیں: ${total} میں سے ${processed}`
+    : `${label} ڈاؤن لوڈ ہو رہے ہیں: ${processed}`;
+}
+
+// Convert API data to DonationRecord format
+function mapApiDonation(donation: any): DonationRecord {
+  return {
+    id: donation.id,
+    amount: toMinorUnits(donation.amount),
+    currency: donation.currency,
+    benefactorName: donation.benefactorName,
+    benefactorPhone: donation.benefactorPhone,
+    benefactorAddress: donation.benefactorAddress,
+    recipient: donation.recipient,
+    category: donation.category,
+    description: donation.description,
+    date: donation.date,
+    location: donation.location,
+    receiptImage: donation.receiptImage,
+    bookNo: donation.bookNo,
+    receiptSerialNo: donation.serialNo,
+    voidedAt: donation.voidedAt,
+    createdAt: donation.createdAt || new Date().toISOString(),
+    updatedAt: donation.updatedAt || new Date().toISOString(),
+    syncStatus: 'synced', // Mark as already synced
+  };
+}
+
+// Convert API data to ExpenseRecord format
+function mapApiExpense(expense: any): ExpenseRecord {
+  return {
+    id: expense.id,
+    amount: toMinorUnits(expense.amount),
+    currency: expense.currency,
+    payee: expense.payee,
+    category: expense.category,
+    description: expense.description,
+    date: expense.date,
+    isPersonal: expense.isPersonal,
+    receiptImage: expense.receiptImage,
+    deletedAt: expense.deletedAt,
+    createdAt: expense.createdAt || new Date().toISOString(),
+    updatedAt: expense.updatedAt || new Date().toISOString(),
+    syncStatus: 'synced', // Mark as already synced
+  };
+}
+
+/**
+ * Pulls server-side changes into the local database, one page at a time. The
+ * first pull downloads everything since the start of the configured fiscal
+ * year (see SyncConfig.fiscalYear and historicalYears); after that only
+ * records changed since the stored per-entity cursor are fetched. Passing a
+ * range instead downloads just the records dated within it. The cursor is
+ * saved with every page, so an interrupted or cancelled download resumes
+ * where it stopped. Local records with unsynced changes are never overwritten
+ * (see DatabaseService.applyPulledDonations).
+ */
 export class HistoricalSyncService {
-  static async syncHistoricalDonations(): Promise<number> {
-    try {
-      // 1. Get credentials
-      const username = await SecureStore.getItemAsync('username');
-      const signingKey = await SecureStore.getItemAsync('signingKey');
-      if (!username || !signingKey) {
-        console.log('No credentials found for historical donations sync');
-        return 0;
-      }
+  private static async fetchPage(
+    entity: 'donations' | 'expenses',
+    path: string,
+    ownerParam: string,
+    range?: HistoricalSyncRange,
+    signal?: AbortSignal
+  ): Promise<PulledChanges | null> {
+    // 1. Get credentials
+    const username = await SecureStore.getItemAsync('username');
+    const signingKey = await SecureStore.getItemAsync('signingKey');
+    if (!username || !signingKey) {
+      console.log(`No credentials found for ${entity} pull`);
+      return null;
+    }
 
-      // 2. Get first date of current year
-      const currentYear = new Date().getFullYear();
-      const firstDateOfYear = new Date(currentYear, 0, 1).toISOString().split('T')[0]; // YYYY-MM-DD format
-
-      // 3. Fetch historical donations from server
-      const timestamp = new Date().toISOString();
-      const dataToSign = username + firstDateOfYear + timestamp;
-      const signature = CryptoJS.HmacSHA256(dataToSign, signingKey).toString();
-
-      console.log('=== HISTORICAL DONATIONS SYNC ===');
-      console.log('username:', username);
-      console.log('afterDate:', firstDateOfYear);
-      console.log('timestamp:', timestamp);
-      console.log('signature:', signature);
-
-      const response = await fetch(`${API_BASE_URL}/v1.1/donations?recipient=${encodeURIComponent(username)}&afterDate=${encodeURIComponent(firstDateOfYear)}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'X-Timestamp': timestamp,
-          'X-Signature': signature,
-        },
-      });
-
-      if (!response.ok) {
-        console.error('Failed to fetch historical donations:', response.status, response.statusText);
-        Bugsnag.notify(new Error(`Failed to fetch historical donations: ${response.status} ${response.statusText}`));
-        return 0;
-      }
+    // 2. Continue from the last cursor, or from the start of the configured fiscal year
+    const cursor = await databaseService.getSyncCursor(cursorEntityFor(entity, range));
+    let since: string;
+    let query: string;
+    if (range) {
+      since = cursor || range.start;
+      query = `afterDate=${range.start}&beforeDate=${range.end}`;
+      if (cursor) query += `&updatedSince=${encodeURIComponent(cursor)}`;
+    } else if (cursor) {
+      since = cursor;
+      query = `updatedSince=${encodeURIComponent(cursor)}`;
+    } else {
+      const config = await SyncConfigService.getConfig();
+      since = getFiscalYearRange(config.fiscalYear, config.historicalYears).start;
+      query = `afterDate=${since}`;
+    }
 
-      const historicalDonations = await response.json();
-      console.log('Historical donations received:', historicalDonations.data.length);
-
-      // 4. Insert historical donations into local database
-      let insertedCount = 0;
-      
-      if (historicalDonations.data.length > 0) {
-        try {
-          // Convert API data to DonationRecord format
-          const donationRecords: DonationRecord[] = historicalDonations.data.map((donation: any) => ({
-            id: donation.id,
-            amount: donation.amount,
-            currency: donation.currency,
-            benefactorName: donation.benefactorName,
-            benefactorPhone: donation.benefactorPhone,
-            benefactorAddress: donation.benefactorAddress,
-            recipient: donation.recipient,
-            category: donation.category,
-            description: donation.description,
-            date: donation.date,
-            location: donation.location,
-            receiptImage: donation.receiptImage,
-            bookNo: donation.bookNo,
-            receiptSerialNo: donation.serialNo,
-            createdAt: donation.createdAt || new Date().toISOString(),
-            updatedAt: donation.updatedAt || new Date().toISOString(),
-            syncStatus: 'synced', // Mark as already synced
-          }));
-
-          // Use bulk save for better performance
-          await databaseService.bulkSaveDonationsChunked(donationRecords, 50);
-          insertedCount = donationRecords.length;
-        } catch (error) {
-          console.error('Error bulk inserting historical donations:', error);
-          Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-          // Fallback to individual inserts if bulk fails
-          for (const donation of historicalDonations.data) {
-            try {
-              const existingDonation = await databaseService.getDonationById(donation.id);
-              if (!existingDonation) {
-                const newDonation: DonationRecord = {
-                  id: donation.id,
-                  amount: donation.amount,
-                  currency: donation.currency,
-                  benefactorName: donation.benefactorName,
-                  benefactorPhone: donation.benefactorPhone,
-                  benefactorAddress: donation.benefactorAddress,
-                  recipient: donation.recipient,
-                  category: donation.category,
-                  description: donation.description,
-                  date: donation.date,
-                  location: donation.location,
-                  receiptImage: donation.receiptImage,
-                  bookNo: donation.bookNo,
-                  receiptSerialNo: donation.serialNo,
-                  createdAt: donation.createdAt || new Date().toISOString(),
-                  updatedAt: donation.updatedAt || new Date().toISOString(),
-                  syncStatus: 'synced', // Mark as already synced
-                };
-
-                await databaseService.saveDonation(newDonation);
-                insertedCount++;
-              }
-            } catch (error) {
-              console.error('Error inserting historical donation:', error);
-              Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-            }
-          }
-        }
-      }
+    // 3. Fetch changes from server
+    const timestamp = new Date().toISOString();
+    const dataToSign = username + since + timestamp;
+    const signature = CryptoJS.HmacSHA256(dataToSign, signingKey).toString();
 
-      console.log(`Historical donations sync completed: ${insertedCount} donations inserted`);
-      return insertedCount;
+    console.log(`=== ${entity.toUpperCase()} PULL ===`);
+    console.log('username:', username);
+    console.log('query:', query);
+    console.log('timestamp:', timestamp);
 
-    } catch (error) {
-      console.error('Error during historical donations sync:', error);
-      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-      return 0;
+    const response = await fetch(`${API_BASE_URL}${path}?${ownerParam}=${encodeURIComponent(username)}&${query}&limit=${PAGE_SIZE}`, {
+      method: 'GET',
+      signal,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'X-Timestamp': timestamp,
+        'X-Signature': signature,
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`Failed to fetch ${entity}:`, response.status, response.statusText);
+      Bugsnag.notify(new Error(`Failed to fetch ${entity}: ${response.status} ${response.statusText}`));
+      return null;
     }
+
+    const body = await response.json();
+    const data: any[] = Array.isArray(body.data) ? body.data : [];
+    const deleted: string[] = Array.isArray(body.deleted) ? body.deleted : [];
+    console.log(`${entity} received: ${data.length} changed, ${deleted.length} deleted`);
+
+    // Older servers send no cursor; fall back to the newest updatedAt received
+    const latestUpdate = data
+      .map(record => record.updatedAt)
+      .filter((value): value is string => typeof value === 'string')
+      .sort()
+      .pop();
+
+    return {
+      data,
+      deleted,
+      cursor: body.cursor || latestUpdate || undefined,
+      // Only keep paging when the server says so; an older server ignores limit
+      hasMore: body.hasMore === true,
+      total: typeof body.total === 'number' ? body.total : null,
+    };
   }
 
-  static async syncHistoricalExpenses(): Promise<number> {
+  private static async pullPages(
+    entity: 'donations' | 'expenses',
+    path: string,
+    ownerParam: string,
+    apply: (changes: PulledChanges, cursorEntity: string) => Promise<PullMergeResult>,
+    { onProgress, signal, range }: HistoricalSyncOptions
+  ): Promise<number> {
+    let applied = 0;
+    let processed = 0;
+    let total: number | null = null;
+
     try {
-      // 1. Get credentials
-      const username = await SecureStore.getItemAsync('username');
-      const signingKey = await SecureStore.getItemAsync('signingKey');
-      if (!username || !signingKey) {
-        console.log('No credentials found for historical expenses sync');
-        return 0;
-      }
+      while (!signal?.aborted) {
+        const changes = await this.fetchPage(entity, path, ownerParam, range, signal);
+        if (!changes) break;
 
-      // 2. Get first date of current year
-      const currentYear = new Date().getFullYear();
-      const firstDateOfYear = new Date(currentYear, 0, 1).toISOString().split('T')[0]; // YYYY-MM-DD format
-
-      // 3. Fetch historical expenses from server
-      const timestamp = new Date().toISOString();
-      const dataToSign = username + firstDateOfYear + timestamp;
-      const signature = CryptoJS.HmacSHA256(dataToSign, signingKey).toString();
-
-      console.log('=== HISTORICAL EXPENSES SYNC ===');
-      console.log('username:', username);
-      console.log('afterDate:', firstDateOfYear);
-      console.log('timestamp:', timestamp);
-      console.log('signature:', signature);
-
-      const response = await fetch(`${API_BASE_URL}/expenses?payee=${encodeURIComponent(username)}&afterDate=${encodeURIComponent(firstDateOfYear)}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Timestamp': timestamp,
-          'X-Signature': signature,
-        },
-      });
-
-      if (!response.ok) {
-        
-        console.error('Failed to fetch historical expenses:', response.status, response.statusText);
-        Bugsnag.notify(new Error(`Failed to fetch historical expenses: ${response.status} ${response.statusText}`));
-        return 0;
-      }
+        // Merge into the local database without touching unsynced records
+        const result = await apply(changes, cursorEntityFor(entity, range));
+        console.log(`${entity} page applied: ${result.saved} saved, ${result.deleted} deleted, ${result.skipped} kept local`);
+        applied += result.saved + result.deleted;
+        processed += changes.data.length + changes.deleted.length;
+        total = total ?? changes.total;
+        onProgress?.({ entity, processed, total });
 
-      const historicalExpenses = await response.json();
-      console.log('Historical expenses received:', historicalExpenses.data.length);
-
-      // 4. Insert historical expenses into local database
-      let insertedCount = 0;
-      
-      if (historicalExpenses.data.length > 0) {
-        try {
-          // Convert API data to ExpenseRecord format
-          const expenseRecords: ExpenseRecord[] = historicalExpenses.data.map((expense: any) => ({
-            id: expense.id,
-            amount: expense.amount,
-            currency: expense.currency,
-            payee: expense.payee,
-            category: expense.category,
-            description: expense.description,
-            date: expense.date,
-            isPersonal: expense.isPersonal,
-            createdAt: expense.createdAt || new Date().toISOString(),
-            updatedAt: expense.updatedAt || new Date().toISOString(),
-            syncStatus: 'synced', // Mark as already synced
-          }));
-
-          // Use bulk save for better performance
-          await databaseService.bulkSaveExpensesChunked(expenseRecords, 50);
-          insertedCount = expenseRecords.length;
-        } catch (error) {
-          console.error('Error bulk inserting historical expenses:', error);
-          Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-          // Fallback to individual inserts if bulk fails
-          for (const expense of historicalExpenses.data) {
-            try {
-              const existingExpense = await databaseService.getExpenseById(expense.id);
-              if (!existingExpense) {
-                const newExpense: ExpenseRecord = {
-                  id: expense.id,
-                  amount: expense.amount,
-                  currency: expense.currency,
-                  payee: expense.payee,
-                  category: expense.category,
-                  description: expense.description,
-                  date: expense.date,
-                  isPersonal: expense.isPersonal,
-                  createdAt: expense.createdAt || new Date().toISOString(),
-                  updatedAt: expense.updatedAt || new Date().toISOString(),
-                  syncStatus: 'synced', // Mark as already synced
-                };
-
-                await databaseService.saveExpense(newExpense);
-                insertedCount++;
-              }
-            } catch (error) {
-              console.error('Error inserting historical expense:', error);
-              Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
-            }
-          }
-        }
+        if (!changes.hasMore || !changes.cursor) break;
       }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    }
+
+    if (signal?.aborted) {
+      console.log(`${entity} pull cancelled after ${processed} records`);
+    }
+    return applied;
+  }
 
-      console.log(`Historical expenses sync completed: ${insertedCount} expenses inserted`);
-      return insertedCount;
+  static async syncHistoricalDonations(options: HistoricalSyncOptions = {}): Promise<number> {
+    try {
+      const count = await this.pullPages('donations', '/v1.1/donations', 'recipient', (changes, cursorEntity) =>
+        databaseService.applyPulledDonations(changes.data.map(mapApiDonation), changes.deleted, changes.cursor, cursorEntity),
+        options
+      );
+      console.log(`Donations pull completed: ${count} changes applied`);
+      return count;
+    } catch (error) {
+      console.error('Error during donations pull:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return 0;
+    }
+  }
 
+  static async syncHistoricalExpenses(options: HistoricalSyncOptions = {}): Promise<number> {
+    try {
+      const count = await this.pullPages('expenses', '/expenses', 'payee', (changes, cursorEntity) =>
+        databaseService.applyPulledExpenses(changes.data.map(mapApiExpense), changes.deleted, changes.cursor, cursorEntity),
+        options
+      );
+      console.log(`Expenses pull completed: ${count} changes applied`);
+      return count;
     } catch (error) {
-      console.error('Error during historical expenses sync:', error);
+      console.error('Error during expenses pull:', error);
       Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
       return 0;
     }
   }
 
-  static async syncAllHistoricalData(): Promise<{ donations: number; expenses: number }> {
+  static async syncAllHistoricalData(
+    options: HistoricalSyncOptions = {}
+  ): Promise<{ donations: number; expenses: number; cancelled: boolean }> {
     console.log('=== HISTORICAL DATA SYNC STARTED ===');
     
     // Run sequentially to avoid transaction conflicts
-    const donationsCount = await this.syncHistoricalDonations();
-    const expensesCount = await this.syncHistoricalExpenses();
+    const donationsCount = await this.syncHistoricalDonations(options);
+    const expensesCount = options.signal?.aborted ? 0 : await this.syncHistoricalExpenses(options);
 
     console.log(`=== HISTORICAL DATA SYNC COMPLETED ===`);
     console.log(`Donations: ${donationsCount}, Expenses: ${expensesCount}`);
     
-    return { donations: donationsCount, expenses: expensesCount };
+    return { donations: donationsCount, expenses: expensesCount, cancelled: !!options.signal?.aborted };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import Bugsnag from '@bugsnag/expo';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { DonationRecord } from '../types/data';
+
+const LOCATION_CAPTURE_KEY = 'locationCapture';
+
+// Saving a donation never waits longer than this for a GPS fix
+const LOCATION_TIMEOUT_MS = 10 * 1000;
+// A fix this recent is used as is instead of waiting for a new one
+const LAST_KNOWN_MAX_AGE_MS = 2 * 60 * 1000;
+
+export type DonationLocation = NonNullable<DonationRecord['location']>;
+
+/**
+ * Records where donations are collected. Capture is on by default and each
+ * user of a shared device can turn it off for themselves.
+ */
+export class LocationService {
+  static async isCaptureEnabled(username: string): Promise<boolean> {
+    try {
+      return (await AsyncStorage.getItem(`${LOCATION_CAPTURE_KEY}:${username}`)) !== 'off';
+    } catch (error) {
+      console.error('Error reading location setting:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  static async setCaptureEnabled(username: string, enabled: boolean): Promise<void> {
+    await AsyncStorage.setItem(`${LOCATION_CAPTURE_KEY}:${username}`, enabled ? 'on' : 'off');
+  }
+
+  /**
+   * Returns the device's position for a donation being saved, or undefined if
+   * capture is off, permission is refused or no fix arrives in time. Never
+   * throws, so a missing location cannot stop a donation from being saved.
+   */
+  static async getDonationLocation(username: string): Promise<DonationLocation | undefined> {
+    try {
+      if (!(await this.isCaptureEnabled(username))) return undefined;
+
+      const permission = await Location.requestForegroundPermissionsAsync();
+      if (!permission.granted) return undefined;
+
+      const position = await Location.getLastKnownPositionAsync({ maxAge: LAST_KNOWN_MAX_AGE_MS })
+        ?? await Promise.race([
+          Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }),
+          new Promise<null>(resolve => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+        ]);
+      if (!position) return undefined;
+
+      return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+    } catch (error) {
+      console.error('Error getting donation location:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import Bugsnag from '@bugsnag/expo';
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { DonationRecord } from '../types/data';
+import { buildReceiptContent, renderReceiptHtml } from '../utils/receipt';
+
+/**
+ * Produces donation receipts as PDF files or images and hands them to the
+ * system share sheet, so they can be sent to the benefactor over WhatsApp,
+ * email or printed.
+ */
+export class ReceiptService {
+  // The logo is inlined because the print view cannot load bundled assets
+  private static async getLogoDataUri(): Promise<string | undefined> {
+    try {
+      const asset = Asset.fromModule(require('../assets/images/icon.png'));
+      await asset.downloadAsync();
+      if (!asset.localUri) return undefined;
+      const base64 = await FileSystem.readAsStringAsync(asset.localUri, { encoding: FileSystem.EncodingType.Base64 });
+      return `data:image/png;base64,${base64}`;
+    } catch (error) {
+      console.error('Error loading receipt logo:', error);
+      return undefined;
+    }
+  }
+
+  static async createPdf(donation: DonationRecord): Promise<string> {
+    const content = buildReceiptContent(donation);
+    const { uri } = await Print.printToFileAsync({ html: renderReceiptHtml(content, await this.getLogoDataUri()) });
+
+    // Give the file a readable name for the share sheet
+    const name = content.receiptNumber || donation.id.slice(0, 8);
+    const target = `${FileSystem.cacheDirectory}receipt-${name.replace(/[^\w-]/g, '_')}.pdf`;
+    await FileSystem.deleteAsync(target, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: target });
+    return target;
+  }
+
+  static async sharePdf(donation: DonationRecord): Promise<boolean> {
+    try {
+      const uri = await this.createPdf(donation);
+      return await this.shareFile(uri, 'application/pdf', 'com.adobe.pdf');
+    } catch (error) {
+      console.error('Error sharing receipt PDF:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  // uri is a PNG captured from the on-screen receipt (see DonationReceipt)
+  static async shareImage(uri: string): Promise<boolean> {
+    try {
+      return await this.shareFile(uri, 'image/png', 'public.png');
+    } catch (error) {
+      console.error('Error sharing receipt image:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  private static async shareFile(uri: string, mimeType: string, UTI: string): Promise<boolean> {
+    if (!(await Sharing.isAvailableAsync())) {
+      console.log('Sharing is not available on this device');
+      return false;
+    }
+    await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: 'رسید شیئر کریں' });
+    return true;
+  }
+}
@@ -0,0 +1,122 @@
+import Bugsnag from '@bugsnag/expo';
+import { Money, ReportPeriod } from '../types/data';
+import { addMoney, subtractMoney, ZERO_MONEY } from '../utils/money';
+import { databaseService } from './DatabaseService';
+
+export interface MonthlyReportRow {
+  month: string; // YYYY-MM
+  donations: Money;
+  donationCount: number;
+  expenses: Money;
+  expenseCount: number;
+  net: Money;
+  balance: Money; // running balance at the end of the month
+}
+
+export interface CategoryReportRow {
+  category: string;
+  total: Money;
+  count: number;
+}
+
+export interface Report {
+  startDate: string;
+  endDate: string;
+  openingBalance: Money;
+  closingBalance: Money;
+  totalDonations: Money;
+  totalExpenses: Money;
+  months: MonthlyReportRow[];
+  donationCategories: CategoryReportRow[];
+  expenseCategories: CategoryReportRow[];
+}
+
+const toMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export class ReportService {
+  /**
+   * Builds donation/expense totals for the given range (both days inclusive).
+   * The opening balance covers everything recorded before the start date, so the
+   * running balance of the last month matches the all-time balance on HomeScreen
+   * when the range ends today.
+   */
+  static async generateReport(startDate: Date, endDate: Date): Promise<Report> {
+    const rangeStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const rangeEnd = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() + 1);
+    const start = rangeStart.toISOString();
+    const end = rangeEnd.toISOString();
+
+    // Every month in the range gets a row, even if nothing was recorded in it.
+    // Each month runs from local midnight on its first day, so records fall into
+    // the months the user sees even where daylight saving changes the offset.
+    const periods: ReportPeriod[] = [];
+    const cursor = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), 1);
+    while (cursor < rangeEnd) {
+      const next = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+      periods.push({
+        key: toMonthKey(cursor),
+        start: (cursor < rangeStart ? rangeStart : cursor).toISOString(),
+        end: (next > rangeEnd ? rangeEnd : next).toISOString(),
+      });
+      cursor.setTime(next.getTime());
+    }
+
+    try {
+      const [
+        donationsBefore,
+        expensesBefore,
+        donationMonths,
+        expenseMonths,
+        donationCategories,
+        expenseCategories,
+      ] = await Promise.all([
+        databaseService.getDonationAmountBefore(start),
+        databaseService.getExpenseAmountBefore(start),
+        databaseService.getDonationTotalsByPeriod(periods),
+        databaseService.getExpenseTotalsByPeriod(periods),
+        databaseService.getDonationTotalsByCategory(start, end),
+        databaseService.getExpenseTotalsByCategory(start, end),
+      ]);
+
+      const openingBalance = subtractMoney(donationsBefore, expensesBefore);
+      let balance = openingBalance;
+      const months: MonthlyReportRow[] = periods.map(({ key: month }, index) => {
+        const donation = donationMonths[index];
+        const expense = expenseMonths[index];
+        const donations = donation?.total ?? ZERO_MONEY;
+        const expenses = expense?.total ?? ZERO_MONEY;
+        const net = subtractMoney(donations, expenses);
+        balance = addMoney(balance, net);
+        return {
+          month,
+          donations,
+          donationCount: donation?.count || 0,
+          expenses,
+          expenseCount: expense?.count || 0,
+          net,
+          balance,
+        };
+      });
+
+      const totalDonations = addMoney(...months.map(row => row.donations));
+      const totalExpenses = addMoney(...months.map(row => row.expenses));
+
+      return {
+        startDate: start,
+        endDate: end,
+        openingBalance,
+        closingBalance: subtractMoney(addMoney(openingBalance, totalDonations), totalExpenses),
+        totalDonations,
+        totalExpenses,
+        months,
+        donationCategories: donationCategories.map(row => ({ category: row.key, total: row.total, count: row.count })),
+        expenseCategories: expenseCategories.map(row => ({ category: row.key, total: row.total, count: row.count })),
+      };
+    } catch (error) {
+      console.error('Error generating report:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import * as SecureStore from 'expo-secure-store';
+import * as SMS from 'expo-sms';
+import { SMSSyncData } from '../types/data';
+import { encodeSmsBatches } from '../utils/smsBatch';
+import { databaseService } from './DatabaseService';
+import { SyncConfigService } from './SyncConfigService';
+
+export interface SmsSendResult {
+  status: 'sent' | 'nothing_to_send' | 'no_number' | 'unavailable' | 'no_credentials' | 'cancelled';
+  sentCount: number;
+}
+
+export class SmsSyncService {
+  /**
+   * Sends pending donations to SyncConfig.smsFallbackNumber through the
+   * device's SMS composer, one message at a time. Sent donations are marked
+   * 'sms_sent' and are still uploaded over the network once it is available.
+   */
+  static async sendPendingDonations(): Promise<SmsSendResult> {
+    const config = await SyncConfigService.getConfig();
+    if (!config.smsFallbackNumber) {
+      return { status: 'no_number', sentCount: 0 };
+    }
+    if (!(await SMS.isAvailableAsync())) {
+      return { status: 'unavailable', sentCount: 0 };
+    }
+
+    const username = await SecureStore.getItemAsync('username');
+    const signingKey = await SecureStore.getItemAsync('signingKey');
+    if (!username || !signingKey) {
+      return { status: 'no_credentials', sentCount: 0 };
+    }
+
+    const pending = (await databaseService.getPendingSyncDonations())
+      .filter(donation => donation.syncStatus === 'pending');
+    if (pending.length === 0) {
+      return { status: 'nothing_to_send', sentCount: 0 };
+    }
+
+    let sentCount = 0;
+    for (const batch of encodeSmsBatches(pending, username, signingKey)) {
+      const smsData: SMSSyncData = {
+        phoneNumber: config.smsFallbackNumber,
+        message: batch.message,
+        timestamp: new Date().toISOString(),
+        recordIds: batch.recordIds,
+      };
+      console.log(`Sending ${smsData.recordIds.length} donations by SMS to ${smsData.phoneNumber}`);
+
+      // Android always reports 'unknown', so only an explicit cancel stops the run
+      const { result } = await SMS.sendSMSAsync([smsData.phoneNumber], smsData.message);
+      if (result === 'cancelled') {
+        return { status: 'cancelled', sentCount };
+      }
+
+      for (const id of smsData.recordIds) {
+        await databaseService.updateDonationSyncStatus(id, 'sms_sent');
+      }
+      sentCount += smsData.recordIds.length;
+    }
+
+    return { status: 'sent', sentCount };
+  }
+}
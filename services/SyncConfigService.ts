@@ -0,0 +1,72 @@
+import Bugsnag from '@bugsnag/expo';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL } from '../constants/Config';
+import { SyncConfig, SyncFailure } from '../types/data';
+
+const SYNC_CONFIG_KEY = 'syncConfig';
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  serverUrl: API_BASE_URL,
+  apiKey: '',
+  smsFallbackNumber: '',
+  maxRetries: 3,
+  syncInterval: 15, // minutes
+  batchSize: 100,
+  fiscalYear: { calendar: 'gregorian', startMonth: 1 },
+  // Early in a fiscal year the current one is nearly empty, so the previous one comes down too
+  historicalYears: 1,
+};
+
+export class SyncConfigService {
+  static async getConfig(): Promise<SyncConfig> {
+    try {
+      const stored = await AsyncStorage.getItem(SYNC_CONFIG_KEY);
+      return stored ? { ...DEFAULT_SYNC_CONFIG, ...JSON.parse(stored) } : DEFAULT_SYNC_CONFIG;
+    } catch (error) {
+      console.error('Error reading sync config:', error);
+      Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      return DEFAULT_SYNC_CONFIG;
+    }
+  }
+
+  static async saveConfig(config: Partial<SyncConfig>): Promise<SyncConfig> {
+    const updated = { ...(await this.getConfig()), ...config };
+    await AsyncStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(updated));
+    return updated;
+  }
+}
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Works out a record's failure state after another unsuccessful upload. The
+ * next retry is pushed back exponentially. Every answer from the server,
+ * including a server error, counts toward maxRetries, after which the record
+ * is marked failed and waits for a manual sync. Uploads that got no answer
+ * only delay the next retry, so being offline never fails a record.
+ */
+export function nextSyncFailure(
+  previous: SyncFailure | undefined,
+  maxRetries: number,
+  lastError: string,
+  httpStatus?: number
+): { failure: SyncFailure; status: 'pending' | 'failed' } {
+  // No status means the request never got an answer, e.g. the phone is offline
+  const unanswered = httpStatus === undefined;
+  const attempts = (previous?.attempts || 0) + (unanswered ? 0 : 1);
+  const failure: SyncFailure = {
+    attempts,
+    lastError: lastError.slice(0, MAX_ERROR_LENGTH),
+    httpStatus,
+  };
+
+  if (!unanswered && attempts >= maxRetries) {
+    return { failure, status: 'failed' };
+  }
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+  failure.nextRetryAt = new Date(Date.now() + delay).toISOString();
+  return { failure, status: 'pending' };
+}
@@ -0,0 +1,166 @@
+import * as CryptoJS from 'crypto-js';
+import * as SecureStore from 'expo-secure-store';
+import { SyncConfig, SyncFailure } from '../types/data';
+import { BulkSaveOutcome, recordBulkSaveOutcome } from './BulkSaveResults';
+import { SyncConfigService } from './SyncConfigService';
+
+export interface SyncableRecord {
+  id: string;
+  syncFailure?: SyncFailure;
+}
+
+/**
+ * Describes how one record type is uploaded. Registering an entity is all it
+ * takes to sync a new record type.
+ */
+export interface SyncEntity<T extends SyncableRecord> {
+  key: string;
+  endpoint: string; // path under SyncConfig.serverUrl
+  payloadKey: string; // request body property that holds the batch
+  batchSize?: number; // overrides SyncConfig.batchSize, e.g. to send large payloads one at a time
+  getPending: (dueBefore?: string) => Promise<T[]>;
+  getById?: (id: string) => Promise<T | null>;
+  serialize: (record: T) => object | Promise<object>;
+  updateStatus: (id: string, status: 'pending' | 'synced') => Promise<void>;
+  // Called instead of marking synced when the server answers that it already
+  // has the record, e.g. to send local corrections to it another way
+  markDuplicate?: (record: T) => Promise<void>;
+  // Without this, records that fail to upload simply stay pending
+  recordFailure?: (id: string, failure: SyncFailure, status: 'pending' | 'failed') => Promise<void>;
+  // Puts records marked failed back to pending, for runs with includeFailed
+  requeueFailed?: () => Promise<void>;
+}
+
+export type SyncRunResult = 'synced' | 'nothing_to_sync' | 'incomplete' | 'no_credentials';
+
+interface SyncCredentials {
+  username: string;
+  signingKey: string;
+}
+
+function chunkArray<T>(arr: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) {
+    result.push(arr.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * Uploads pending records for the registered entities: batches them, signs
+ * each batch with the account's signing key and records the per-record
+ * outcome. Has no React dependencies so it can run from the scheduler or a test.
+ */
+export class SyncEngine {
+  private entities = new Map<string, SyncEntity<any>>();
+
+  register<T extends SyncableRecord>(entity: SyncEntity<T>): void {
+    this.entities.set(entity.key, entity);
+  }
+
+  /**
+   * Uploads the pending records of each entity in order. With respectBackoff,
+   * records still waiting out a retry delay are left for a later run; with
+   * includeFailed, records that ran out of retries are sent again as well.
+   */
+  async run(
+    keys: string[],
+    { respectBackoff = false, includeFailed = false }: { respectBackoff?: boolean; includeFailed?: boolean } = {}
+  ): Promise<SyncRunResult> {
+    const credentials = await this.getCredentials();
+    if (!credentials) return 'no_credentials';
+
+    const config = await SyncConfigService.getConfig();
+    let attempted = 0;
+    let hadError = false;
+
+    for (const key of keys) {
+      const entity = this.getEntity(key);
+      if (includeFailed) await entity.requeueFailed?.();
+      const pending = await entity.getPending(respectBackoff ? new Date().toISOString() : undefined);
+      for (const batch of chunkArray(pending, entity.batchSize ?? config.batchSize)) {
+        attempted += batch.length;
+        if (!(await this.uploadBatch(entity, batch, credentials, config))) {
+          hadError = true;
+        }
+      }
+    }
+
+    if (hadError) return 'incomplete';
+    return attempted > 0 ? 'synced' : 'nothing_to_sync';
+  }
+
+  /** Clears a record's failure state and uploads it on its own. */
+  async retryRecord(key: string, id: string): Promise<SyncRunResult> {
+    const entity = this.getEntity(key);
+    if (!entity.getById) {
+      throw new Error(`Sync entity ${key} does not support single-record retry`);
+    }
+
+    const credentials = await this.getCredentials();
+    if (!credentials) return 'no_credentials';
+
+    await entity.updateStatus(id, 'pending');
+    const record = await entity.getById(id);
+    if (!record) return 'nothing_to_sync';
+
+    const config = await SyncConfigService.getConfig();
+    return (await this.uploadBatch(entity, [record], credentials, config)) ? 'synced' : 'incomplete';
+  }
+
+  private getEntity(key: string): SyncEntity<any> {
+    const entity = this.entities.get(key);
+    if (!entity) {
+      throw new Error(`No sync entity registered for ${key}`);
+    }
+    return entity;
+  }
+
+  private async getCredentials(): Promise<SyncCredentials | null> {
+    const username = await SecureStore.getItemAsync('username');
+    const signingKey = await SecureStore.getItemAsync('signingKey');
+    return username && signingKey ? { username, signingKey } : null;
+  }
+
+  // Returns false unless every record in the batch was accepted
+  private async uploadBatch<T extends SyncableRecord>(
+    entity: SyncEntity<T>,
+    batch: T[],
+    { username, signingKey }: SyncCredentials,
+    config: SyncConfig
+  ): Promise<boolean> {
+    const timestamp = new Date().toISOString();
+    const cleanBatch = await Promise.all(batch.map(record => entity.serialize(record)));
+
+    // Calculate signature (HMAC-SHA256)
+    const dataToSign = JSON.stringify(cleanBatch) + timestamp + username;
+    const signature = CryptoJS.HmacSHA256(dataToSign, signingKey).toString();
+
+    console.log(`Syncing ${batch.length} ${entity.key} to ${entity.endpoint}`);
+
+    let outcome: BulkSaveOutcome;
+    try {
+      const res = await fetch(`${config.serverUrl}${entity.endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          [entity.payloadKey]: cleanBatch,
+          timestamp,
+          username,
+          signature,
+        }),
+      });
+      outcome = { ok: res.ok, httpStatus: res.status, body: await res.text().catch(() => '') };
+    } catch (err) {
+      outcome = { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    return recordBulkSaveOutcome(batch, outcome, config.maxRetries, {
+      markSynced: id => entity.updateStatus(id, 'synced'),
+      markDuplicate: entity.markDuplicate,
+      recordFailure: entity.recordFailure,
+    });
+  }
+}
+
+export const syncEngine = new SyncEngine();
@@ -0,0 +1,166 @@
+import { DonationRecord, DonationRevision, ExpenseRecord, ExpenseRevision, FieldChanges, PendingAttachment } from '../types/data';
+import { fromMinorUnits } from '../utils/money';
+import { AttachmentService } from './AttachmentService';
+import { databaseService } from './DatabaseService';
+import { syncEngine } from './SyncEngine';
+
+// Maps local field names and units onto the ones used by the donations API,
+// which takes decimal amounts rather than minor units. Receipt photos are
+// uploaded separately, so the local file name is left out.
+function toApiFields(values: FieldChanges<DonationRecord>) {
+  const { receiptSerialNo, amount, receiptImage, receiptImageStatus, ...rest } = values;
+  return {
+    ...rest,
+    ...('amount' in values ? { amount: amount != null ? fromMinorUnits(amount) : amount } : {}),
+    ...('receiptSerialNo' in values ? { serialNo: receiptSerialNo } : {}),
+  };
+}
+
+// The same for expense fields, which keep their local names
+function toExpenseApiFields(values: FieldChanges<ExpenseRecord>) {
+  const { amount, receiptImage, receiptImageStatus, ...rest } = values;
+  return {
+    ...rest,
+    ...('amount' in values ? { amount: amount != null ? fromMinorUnits(amount) : amount } : {}),
+  };
+}
+
+syncEngine.register<DonationRecord>({
+  key: 'donations',
+  endpoint: '/v1.1/donations/bulk-save',
+  payloadKey: 'donations',
+  getPending: dueBefore => databaseService.getPendingSyncDonations(dueBefore),
+  getById: id => databaseService.getDonationById(id),
+  // Filter out internal fields before sending to API
+  serialize: donation => ({
+    id: donation.id,
+    amount: fromMinorUnits(donation.amount),
+    currency: donation.currency,
+    benefactorName: donation.benefactorName,
+    benefactorPhone: donation.benefactorPhone,
+    benefactorAddress: donation.benefactorAddress,
+    recipient: donation.recipient,
+    category: donation.category,
+    description: donation.description,
+    bookNo: donation.bookNo,
+    serialNo: donation.receiptSerialNo,
+    date: donation.date,
+    location: donation.location,
+  }),
+  updateStatus: (id, status) => databaseService.updateDonationSyncStatus(id, status),
+  recordFailure: (id, failure, status) => databaseService.recordDonationSyncFailure(id, failure, status),
+  requeueFailed: () => databaseService.requeueFailedDonations(),
+});
+
+// Amendments to already-synced donations, sent in the order they were made
+syncEngine.register<DonationRevision>({
+  key: 'donationAmendments',
+  endpoint: '/v1.1/donations/amendments',
+  payloadKey: 'amendments',
+  getPending: dueBefore => databaseService.getPendingDonationRevisions(dueBefore),
+  serialize: revision => ({
+    id: revision.id,
+    donationId: revision.donationId,
+    action: revision.action,
+    oldValue: toApiFields(revision.oldValue),
+    newValue: toApiFields(revision.newValue),
+    changedBy: revision.changedBy,
+    changedAt: revision.changedAt,
+  }),
+  updateStatus: (id, status) => databaseService.updateDonationRevisionSyncStatus(id, status),
+  recordFailure: (id, failure, status) => databaseService.recordDonationRevisionSyncFailure(id, failure, status),
+  requeueFailed: () => databaseService.requeueFailedDonationRevisions(),
+});
+
+syncEngine.register<ExpenseRecord>({
+  key: 'expenses',
+  endpoint: '/expenses/bulk-save',
+  payloadKey: 'expenses',
+  getPending: dueBefore => databaseService.getPendingSyncExpenses(dueBefore),
+  getById: id => databaseService.getExpenseById(id),
+  // Filter out internal fields before sending to API
+  serialize: expense => ({
+    id: expense.id,
+    amount: fromMinorUnits(expense.amount),
+    currency: expense.currency,
+    payee: expense.payee,
+    category: expense.category,
+    description: expense.description,
+    date: expense.date,
+    isPersonal: expense.isPersonal,
+    deletedAt: expense.deletedAt,
+    changeReason: expense.changeReason,
+    changeNote: expense.changeNote,
+  }),
+  updateStatus: (id, status) => databaseService.updateExpenseSyncStatus(id, status),
+  // A corrected expense the server already has would be left unchanged by a
+  // resend, so its corrections go out as amendments instead
+  markDuplicate: expense => (expense.changeReason || expense.deletedAt
+    ? databaseService.markExpenseAmended(expense.id)
+    : databaseService.updateExpenseSyncStatus(expense.id, 'synced')),
+  recordFailure: (id, failure, status) => databaseService.recordExpenseSyncFailure(id, failure, status),
+  requeueFailed: () => databaseService.requeueFailedExpenses(),
+});
+
+// Corrections to already-synced expenses, with the reason they were made
+syncEngine.register<ExpenseRevision>({
+  key: 'expenseAmendments',
+  endpoint: '/expenses/amendments',
+  payloadKey: 'amendments',
+  getPending: dueBefore => databaseService.getPendingExpenseRevisions(dueBefore),
+  serialize: revision => ({
+    id: revision.id,
+    expenseId: revision.expenseId,
+    action: revision.action,
+    reasonCode: revision.reasonCode,
+    reasonNote: revision.reasonNote,
+    oldValue: toExpenseApiFields(revision.oldValue),
+    newValue: toExpenseApiFields(revision.newValue),
+    changedBy: revision.changedBy,
+    changedAt: revision.changedAt,
+  }),
+  updateStatus: (id, status) => databaseService.updateExpenseRevisionSyncStatus(id, status),
+  recordFailure: (id, failure, status) => databaseService.recordExpenseRevisionSyncFailure(id, failure, status),
+  requeueFailed: () => databaseService.requeueFailedExpenseRevisions(),
+});
+
+// Skips photos whose file is gone, so one missing file cannot hold up the rest
+async function withLocalFiles(attachments: PendingAttachment[]): Promise<PendingAttachment[]> {
+  const available = await Promise.all(attachments.map(attachment => AttachmentService.exists(attachment.fileName)));
+  return attachments.filter((_, index) => available[index]);
+}
+
+const serializeAttachment = async (attachment: PendingAttachment) => ({
+  id: attachment.id,
+  fileName: attachment.fileName,
+  contentType: 'image/jpeg',
+  data: await AttachmentService.readAsBase64(attachment.fileName),
+});
+
+// Receipt photos go out after their records, one per request to keep payloads small
+syncEngine.register<PendingAttachment>({
+  key: 'donationAttachments',
+  endpoint: '/v1.1/donations/attachments',
+  payloadKey: 'attachments',
+  batchSize: 1,
+  getPending: async () => withLocalFiles(await databaseService.getPendingDonationAttachments()),
+  serialize: serializeAttachment,
+  updateStatus: (id, status) => databaseService.updateDonationAttachmentStatus(id, status),
+});
+
+syncEngine.register<PendingAttachment>({
+  key: 'expenseAttachments',
+  endpoint: '/expenses/attachments',
+  payloadKey: 'attachments',
+  batchSize: 1,
+  getPending: async () => withLocalFiles(await databaseService.getPendingExpenseAttachments()),
+  serialize: serializeAttachment,
+  updateStatus: (id, status) => databaseService.updateExpenseAttachmentStatus(id, status),
+});
+
+// Entity keys uploaded together by each of the sync hooks. Attachments come
+// last so records synced earlier in the same run can send their photos.
+export const DONATION_SYNC_KEYS = ['donations', 'donationAmendments', 'donationAttachments'];
+export const EXPENSE_SYNC_KEYS = ['expenses', 'expenseAmendments', 'expenseAttachments'];
+
+export { syncEngine };
@@ -0,0 +1,169 @@
+import Bugsnag from '@bugsnag/expo';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { AppState, AppStateStatus } from 'react-native';
+import { SyncConfigService } from './SyncConfigService';
+
+const LAST_SYNC_ATTEMPTS_KEY = 'lastSyncAttempts';
+
+export type SyncTask = () => Promise<void>;
+
+export interface SyncSchedulerState {
+  isConnected: boolean;
+  isSyncing: boolean;
+  lastSyncAttempts: { [key: string]: string }; // task key -> ISO timestamp
+}
+
+type SyncSchedulerListener = (state: SyncSchedulerState) => void;
+
+const isOnline = (state: NetInfoState) =>
+  !!state.isConnected && state.isInternetReachable !== false;
+
+/**
+ * Runs the registered upload tasks automatically: when connectivity comes back,
+ * when the app returns to the foreground, and every SyncConfig.syncInterval
+ * minutes while online. Manual syncs go through runExclusive so an automatic
+ * run never uploads the same batch in parallel.
+ */
+class SyncScheduler {
+  private tasks: { [key: string]: SyncTask } = {};
+  private listeners = new Set<SyncSchedulerListener>();
+  private running = new Set<string>();
+  private state: SyncSchedulerState = {
+    isConnected: false,
+    isSyncing: false,
+    lastSyncAttempts: {},
+  };
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  /**
+   * Registers the tasks and starts watching connectivity. Returns a function
+   * that stops the scheduler, suitable as a useEffect cleanup.
+   */
+  start(tasks: { [key: string]: SyncTask }): () => void {
+    this.stop();
+    this.tasks = tasks;
+
+    AsyncStorage.getItem(LAST_SYNC_ATTEMPTS_KEY)
+      .then(stored => {
+        if (stored) {
+          this.setState({ lastSyncAttempts: { ...JSON.parse(stored), ...this.state.lastSyncAttempts } });
+        }
+      })
+      .catch(error => console.error('Error loading last sync attempts:', error));
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener(netState => {
+      const wasConnected = this.state.isConnected;
+      const connected = isOnline(netState);
+      this.setState({ isConnected: connected });
+      if (connected && !wasConnected) {
+        console.log('Connectivity restored, starting automatic sync');
+        this.syncNow();
+      }
+    });
+
+    this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        this.syncIfDue();
+      }
+    });
+
+    SyncConfigService.getConfig().then(config => {
+      if (this.intervalId || Object.keys(this.tasks).length === 0) return;
+      this.intervalId = setInterval(() => this.syncNow(), config.syncInterval * 60 * 1000);
+    });
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.tasks = {};
+  }
+
+  getState(): SyncSchedulerState {
+    return this.state;
+  }
+
+  subscribe(listener: SyncSchedulerListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Runs every registered task once, if the device is online. */
+  async syncNow(): Promise<void> {
+    if (!this.state.isConnected) {
+      console.log('Skipping automatic sync: device is offline');
+      return;
+    }
+
+    for (const key of Object.keys(this.tasks)) {
+      try {
+        await this.tasks[key]();
+      } catch (error) {
+        console.error(`Automatic sync of ${key} failed:`, error);
+        Bugsnag.notify(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  /** Runs the tasks that have not been attempted within the sync interval. */
+  private async syncIfDue(): Promise<void> {
+    const config = await SyncConfigService.getConfig();
+    const intervalMs = config.syncInterval * 60 * 1000;
+    const now = Date.now();
+    const due = Object.keys(this.tasks).some(key => {
+      const last = this.state.lastSyncAttempts[key];
+      return !last || now - new Date(last).getTime() >= intervalMs;
+    });
+    if (due) {
+      await this.syncNow();
+    }
+  }
+
+  /**
+   * Runs a sync for the given key unless one is already in progress, and
+   * records the attempt time. Returns false if the run was skipped.
+   */
+  async runExclusive(key: string, fn: () => Promise<void>): Promise<boolean> {
+    if (this.running.has(key)) {
+      console.log(`Sync of ${key} already in progress, skipping`);
+      return false;
+    }
+
+    this.running.add(key);
+    const lastSyncAttempts = { ...this.state.lastSyncAttempts, [key]: new Date().toISOString() };
+    this.setState({ isSyncing: true, lastSyncAttempts });
+    AsyncStorage.setItem(LAST_SYNC_ATTEMPTS_KEY, JSON.stringify(lastSyncAttempts))
+      .catch(error => console.error('Error saving last sync attempts:', error));
+
+    try {
+      await fn();
+      return true;
+    } finally {
+      this.running.delete(key);
+      this.setState({ isSyncing: this.running.size > 0 });
+    }
+  }
+
+  private setState(changes: Partial<SyncSchedulerState>): void {
+    this.state = { ...this.state, ...changes };
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+}
+
+export const syncScheduler = new SyncScheduler();
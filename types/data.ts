@@ -1,7 +1,12 @@
+// Monetary amount as an integer count of minor units (paisa for PKR), so sums
+// and balances are exact. Build values with the helpers in utils/money.
+export type Money = number & { readonly __brand: 'Money' };
+
 export interface DonationRecord {
   id: string;
-  amount: number;
+  amount: Money;
   currency: string;
+  baseAmount?: Money; // amount converted into the base currency, unset until a rate for the currency exists
   benefactorName: string;
   benefactorPhone: string;
   benefactorAddress?: string;
@@ -15,17 +20,171 @@ export interface DonationRecord {
     latitude: number;
     longitude: number;
   };
-  receiptImage?: string; // base64 or file path
+  receiptImage?: string; // file name under the attachments directory, or a URL for images pulled from the server
+  receiptImageStatus?: AttachmentStatus;
+  voidedAt?: string; // ISO string, set when the donation is voided
+  notifiedAt?: string; // ISO string, last thank-you message sent to the benefactor (kept on the device)
   createdAt: string;
   updatedAt: string;
-  syncStatus: 'pending' | 'synced' | 'failed';
+  // 'sms_sent' records went out over the SMS fallback and are still uploaded
+  // over the network so the server can confirm them
+  syncStatus: 'pending' | 'synced' | 'failed' | 'sms_sent';
+  syncFailure?: SyncFailure;
+}
+
+// Upload state of a record's receipt photo, separate from the record's own
+// syncStatus: the photo is only sent once the server has the record
+export type AttachmentStatus = 'pending' | 'synced';
+
+// A receipt photo waiting to be uploaded; id is the donation or expense it belongs to
+export interface PendingAttachment {
+  id: string;
+  fileName: string;
+}
+
+// A located, non-void donation as shown on the collection points view
+export interface CollectionPoint {
+  latitude: number;
+  longitude: number;
+  baseAmount?: Money;
+  date: string; // ISO string
+}
+
+// One row of a report, e.g. a local month; start inclusive and end exclusive, as ISO strings
+export interface ReportPeriod {
+  key: string;
+  start: string;
+  end: string;
+}
+
+// Local changes the server does not have yet, i.e. what a reset would lose
+export interface UnsyncedSummary {
+  donations: number; // including pending amendments to synced donations
+  expenses: number; // including pending amendments to synced expenses
+  attachments: number; // receipt photos not yet uploaded
+  // ISO strings, date range of the unsynced donations and expenses, including amended donations
+  oldestDate?: string;
+  newestDate?: string;
+}
+
+// Records to export; dates are ISO strings, start inclusive and end exclusive
+export interface DonationExportFilter {
+  startDate: string;
+  endDate: string;
+  category?: DonationRecord['category'];
+  includeVoided?: boolean;
+}
+
+export interface ExpenseExportFilter {
+  startDate: string;
+  endDate: string;
+  category?: ExpenseRecord['category'];
+  includeDeleted?: boolean;
+  includePersonal?: boolean;
+}
+
+// Directory entry for a repeat donor, keyed by phone number
+export interface Benefactor {
+  phone: string;
+  name: string;
+  address?: string;
+  firstDonationAt: string; // ISO string
+  lastDonationAt: string; // ISO string
+}
+
+export interface BenefactorSummary {
+  benefactor: Benefactor;
+  donationCount: number; // voided donations are not counted
+  totalAmount: Money;
+}
+
+export interface BenefactorProfile extends BenefactorSummary {
+  totalsByCategory: { category: DonationRecord['category']; count: number; total: Money }[];
+  donations: DonationRecord[]; // newest first, including voided ones
+}
+
+// A numbered receipt book issued to a collector. Donations reference it by
+// bookNo and use serials from startSerial to endSerial inclusive.
+export interface ReceiptBook {
+  id: string;
+  bookNo: string;
+  collector: string;
+  startSerial: number;
+  endSerial: number;
+  issuedAt: string; // ISO string
+  closedAt?: string; // ISO string, set once the book is returned
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Serial usage of one receipt book, as recorded on donations
+export interface ReceiptBookReconciliation {
+  book: ReceiptBook;
+  used: number[];
+  voided: number[];
+  missing: number[]; // unused serials below the highest used one
+  duplicates: number[]; // serials recorded on more than one donation
+  outOfRange: number[]; // serials recorded against the book outside its range
+  nextSerial: number | null; // null once the book is full
+}
+
+export interface SyncFailure {
+  attempts: number; // uploads the server answered with an error, counted toward maxRetries; unanswered ones are not
+  lastError?: string;
+  httpStatus?: number;
+  nextRetryAt?: string; // ISO string, unset once the record is marked failed
+}
+
+// Per-record entry in a bulk-save response body: { results: BulkSaveRecordResult[] }
+export interface BulkSaveRecordResult {
+  id: string;
+  status: 'created' | 'duplicate' | 'rejected';
+  message?: string; // validation message for rejected records
+}
+
+// The fields a revision changed, with null for a field that was cleared
+export type FieldChanges<T> = { [K in keyof T]?: T[K] | null };
+
+export interface DonationRevision {
+  id: string;
+  donationId: string;
+  action: 'edit' | 'void';
+  oldValue: FieldChanges<DonationRecord>; // only the fields that changed
+  newValue: FieldChanges<DonationRecord>;
+  changedBy: string;
+  changedAt: string; // ISO string
+  // 'pending' revisions are amendments to already-synced donations and still
+  // have to reach the server; 'local' revisions are kept on the device only.
+  // 'failed' amendments were refused by the server or ran out of retries,
+  // and are sent again by a manual sync.
+  syncStatus: 'pending' | 'synced' | 'local' | 'failed';
+  syncFailure?: SyncFailure;
+}
+
+// Outcome of applying one page of server changes to the local database
+export interface PullMergeResult {
+  saved: number;
+  deleted: number;
+  skipped: number; // server changes ignored because the local copy has unsynced changes
 }
 
 export interface SMSSyncData {
   phoneNumber: string;
   message: string;
   timestamp: string;
-  recordId: string;
+  recordIds: string[]; // a single message can carry several records
+}
+
+// Locally maintained rate: one unit of currency is worth rate units of the base currency
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updatedAt: string; // ISO string
+}
+
+export interface FiscalYearDefinition {
+  calendar: 'gregorian' | 'hijri';
+  startMonth: number; // 1-12 in the chosen calendar, e.g. 9 for Ramadan
 }
 
 export interface SyncConfig {
@@ -35,18 +194,45 @@ export interface SyncConfig {
   maxRetries: number;
   syncInterval: number; // in minutes
   batchSize: number;
+  fiscalYear: FiscalYearDefinition;
+  historicalYears: number; // earlier fiscal years to download besides the current one
 }
 
 export interface ExpenseRecord {
   id: string;
-  amount: number;
+  amount: Money;
   currency: string;
+  baseAmount?: Money; // amount converted into the base currency, unset until a rate for the currency exists
   payee: string;
   category: 'office_supplies' | 'utilities' | 'rent' | 'maintenance' | 'transportation' | 'meals' | 'events' | 'marketing' | 'equipment' | 'services' | 'other';
   description?: string;
   date: string; // ISO string
   isPersonal: boolean;
+  receiptImage?: string; // photo of the bill, stored like DonationRecord.receiptImage
+  receiptImageStatus?: AttachmentStatus;
+  deletedAt?: string; // ISO string, set when the expense is soft-deleted
+  changeReason?: ExpenseChangeReason; // reason for the latest edit or deletion
+  changeNote?: string;
   createdAt: string;
   updatedAt: string;
   syncStatus: 'pending' | 'synced' | 'failed';
+  syncFailure?: SyncFailure;
+}
+
+export type ExpenseChangeReason = 'wrong_amount' | 'wrong_category' | 'wrong_date' | 'duplicate' | 'entered_by_mistake' | 'other';
+
+export interface ExpenseRevision {
+  id: string;
+  expenseId: string;
+  action: 'edit' | 'delete';
+  reasonCode: ExpenseChangeReason;
+  reasonNote?: string;
+  oldValue: FieldChanges<ExpenseRecord>; // only the fields that changed
+  newValue: FieldChanges<ExpenseRecord>;
+  changedBy: string;
+  changedAt: string; // ISO string
+  // As for DonationRevision: 'pending' amendments to expenses the server
+  // already has still have to reach it, 'local' ones go out with the expense
+  syncStatus: 'pending' | 'synced' | 'local' | 'failed';
+  syncFailure?: SyncFailure;
 } 
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { ExchangeRate, Money } from '../types/data';
+import { formatAmount } from './money';
+
+// Totals, balances and reports are all kept in this currency
+export const BASE_CURRENCY = 'PKR';
+
+export const formatMoney = (amount: Money, currency = BASE_CURRENCY) => `${currency} ${formatAmount(amount)}`;
+
+// Base currency first, then every currency that has a rate
+export function getCurrencyOptions(rates: ExchangeRate[]): string[] {
+  return [BASE_CURRENCY, ...rates.map(rate => rate.currency).filter(currency => currency !== BASE_CURRENCY)];
+}
+
+export function convertToBase(amount: Money, currency: string, rates: ExchangeRate[]): Money | null {
+  if (currency === BASE_CURRENCY) return amount;
+  const rate = rates.find(item => item.currency === currency);
+  return rate ? Math.round(amount * rate.rate) as Money : null;
+}
+
+export function normalizeCurrencyCode(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+export function isValidCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+export interface ParsedRateFile {
+  rates: { currency: string; rate: number }[];
+  errors: string[]; // one message per rejected line, with its line number
+}
+
+/**
+ * Parses an exchange-rate file with one `currency,rate` pair per line, where
+ * rate is the value of one unit in the base currency (e.g. `USD,278.5`).
+ * Blank lines, `#` comments and a `currency,rate` header are skipped; tabs
+ * and semicolons are accepted as separators. A later line for the same
+ * currency replaces an earlier one.
+ */
+export function parseExchangeRateFile(content: string): ParsedRateFile {
+  const rates = new Map<string, number>();
+  const errors: string[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const [code = '', value = ''] = trimmed.split(/[,;\t]/).map(part => part.trim().replace(/^"|"$/g, ''));
+    const currency = normalizeCurrencyCode(code);
+    if (currency === 'CURRENCY') return;
+
+    const rate = parseFloat(value);
+    if (!isValidCurrencyCode(currency)) {
+      errors.push(`سطر ${index + 1}: کرنسی کوڈ "${code}" درست نہیں`);
+    } else if (currency === BASE_CURRENCY) {
+      errors.push(`سطر ${index + 1}: ${BASE_CURRENCY} بنیادی کرنسی ہے`);
+    } else if (isNaN(rate) || rate <= 0) {
+      errors.push(`سطر ${index + 1}: شرح "${value}" درست نہیں`);
+    } else {
+      rates.set(currency, rate);
+    }
+  });
+
+  return { rates: Array.from(rates, ([currency, rate]) => ({ currency, rate })), errors };
+}
@@ -0,0 +1,234 @@
+import { DonationRecord } from '../types/data';
+import { BASE_CURRENCY, isValidCurrencyCode, normalizeCurrencyCode } from './currency';
+import { validateDonationFields } from './donationValidation';
+import { CATEGORY_LABELS } from './receipt';
+
+// What a valid row becomes; the import gives it an id and timestamps when saving
+export type ImportedDonation = Omit<DonationRecord, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'receiptImageStatus'>;
+
+type ImportField =
+  | 'date'
+  | 'amount'
+  | 'currency'
+  | 'benefactorName'
+  | 'benefactorPhone'
+  | 'benefactorAddress'
+  | 'category'
+  | 'description'
+  | 'bookNo'
+  | 'receiptSerialNo';
+
+// Accepted headers per field, compared after normalizeHeader. The English and
+// Urdu headers written by the export are included so an exported file imports as is.
+const IMPORT_COLUMNS: { field: ImportField; label: string; required: boolean; headers: string[] }[] = [
+  { field: 'date', label: 'تاریخ', required: true, headers: ['date', 'تاریخ'] },
+  { field: 'amount', label: 'رقم', required: true, headers: ['amount', 'رقم'] },
+  { field: 'currency', label: 'کرنسی', required: false, headers: ['currency', 'کرنسی'] },
+  {
+    field: 'benefactorName',
+    label: 'عطیہ دہندہ',
+    required: true,
+    headers: ['benefactor', 'benefactor name', 'benefactorname', 'name', 'عطیہ دہندہ', 'نام'],
+  },
+  {
+    field: 'benefactorPhone',
+    label: 'فون نمبر',
+    required: true,
+    headers: ['phone', 'benefactor phone', 'benefactorphone', 'phone number', 'فون نمبر', 'فون'],
+  },
+  { field: 'benefactorAddress', label: 'پتہ', required: false, headers: ['address', 'benefactor address', 'benefactoraddress', 'پتہ'] },
+  { field: 'category', label: 'قسم', required: false, headers: ['category', 'قسم'] },
+  { field: 'description', label: 'تفصیل', required: false, headers: ['description', 'notes', 'تفصیل'] },
+  { field: 'bookNo', label: 'رسید بک نمبر', required: false, headers: ['book no', 'bookno', 'book', 'رسید بک نمبر', 'رسید بک'] },
+  {
+    field: 'receiptSerialNo',
+    label: 'رسید سیریل',
+    required: false,
+    headers: ['receipt serial', 'receiptserialno', 'serial', 'serial no', 'رسید سیریل', 'سیریل نمبر'],
+  },
+];
+
+export interface DonationImportRow {
+  rowNumber: number; // row in the file as a spreadsheet numbers it, the header being row 1
+  values: { [key in ImportField]?: string };
+  donation?: ImportedDonation; // set when the row has no errors
+  errors: string[];
+  warnings: string[]; // do not stop the row from being imported
+}
+
+export interface DonationImportPreview {
+  rows: DonationImportRow[];
+  missingColumns: string[]; // labels of required columns the header lacks; no rows are read then
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[._:]/g, '').replace(/\s+/g, ' ');
+
+// Excel saves CSV with semicolons or tabs in some locales, so use whichever the header line has most of
+function detectDelimiter(content: string): string {
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  return [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Splits CSV text into rows of cells, following RFC 4180 quoting: quoted
+ * cells may contain delimiters, line breaks and doubled quotes.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Accepts the category key or its English or Urdu label; a blank cell means charity, as on the form
+function parseCategory(value: string): DonationRecord['category'] | null {
+  if (!value) return 'charity';
+  const normalized = value.trim().toLowerCase();
+  const entry = Object.entries(CATEGORY_LABELS).find(([key, label]) =>
+    [key, label.en.toLowerCase(), label.ur].includes(normalized)
+  );
+  // The form spells zakat with the superscript alef after the vav
+  if (!entry && normalized === 'زکوٰۃ') return 'zakat';
+  return entry ? (entry[0] as DonationRecord['category']) : null;
+}
+
+// Paper books are dated by hand, so accept 2024-03-15 as well as 15/03/2024, 15-03-2024 and 15.03.2024
+function parseImportDate(value: string): Date | null {
+  const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirstMatch = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  let year: number, month: number, day: number;
+  if (isoMatch) {
+    [year, month, day] = isoMatch.slice(1).map(Number);
+  } else if (dayFirstMatch) {
+    [day, month, year] = dayFirstMatch.slice(1).map(Number);
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  // Rejects impossible days such as 31/02, which Date would roll over into March
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+function parseRow(rowNumber: number, values: DonationImportRow['values'], recipient: string): DonationImportRow {
+  const errors: string[] = [];
+  const get = (field: ImportField) => values[field] ?? '';
+
+  const validation = validateDonationFields({
+    amount: get('amount'),
+    benefactorName: get('benefactorName'),
+    benefactorPhone: get('benefactorPhone'),
+    receiptSerialNo: get('receiptSerialNo'),
+  });
+  if (!validation.valid) errors.push(validation.error);
+
+  const date = parseImportDate(get('date'));
+  if (!date) {
+    errors.push(`تاریخ "${get('date')}" درست نہیں، مثلاً 2024-03-15 یا 15/03/2024 لکھیں`);
+  } else if (date > new Date()) {
+    errors.push('تاریخ مستقبل کی نہیں ہو سکتی');
+  }
+
+  const category = parseCategory(get('category'));
+  if (!category) errors.push(`قسم "${get('category')}" درست نہیں`);
+
+  const currency = get('currency') ? normalizeCurrencyCode(get('currency')) : BASE_CURRENCY;
+  if (!isValidCurrencyCode(currency)) errors.push(`کرنسی کوڈ "${get('currency')}" درست نہیں`);
+
+  if (errors.length > 0 || !validation.valid || !date || !category) {
+    return { rowNumber, values, errors, warnings: [] };
+  }
+
+  return {
+    rowNumber,
+    values,
+    donation: {
+      amount: validation.amount,
+      currency,
+      benefactorName: get('benefactorName'),
+      benefactorPhone: get('benefactorPhone'),
+      benefactorAddress: get('benefactorAddress') || undefined,
+      recipient,
+      category,
+      description: get('description') || undefined,
+      date: date.toISOString(),
+      bookNo: get('bookNo') || undefined,
+      receiptSerialNo: validation.receiptSerialNo,
+    },
+    errors,
+    warnings: [],
+  };
+}
+
+/**
+ * Reads a CSV of donations with a header row and checks every row with the
+ * same rules as DonationForm. recipient is the user importing the file, who
+ * is recorded as having received the donations, as when typing them in.
+ */
+export function parseDonationImport(content: string, recipient: string): DonationImportPreview {
+  const [header = [], ...lines] = parseCsv(content);
+  const headers = header.map(normalizeHeader);
+
+  const columnIndexes = new Map<ImportField, number>();
+  for (const column of IMPORT_COLUMNS) {
+    const index = headers.findIndex(header => column.headers.includes(header));
+    if (index !== -1) columnIndexes.set(column.field, index);
+  }
+
+  const missingColumns = IMPORT_COLUMNS.filter(column => column.required && !columnIndexes.has(column.field))
+    .map(column => column.label);
+  if (missingColumns.length > 0) return { rows: [], missingColumns };
+
+  const rows: DonationImportRow[] = [];
+  lines.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return;
+
+    const values: DonationImportRow['values'] = {};
+    columnIndexes.forEach((column, field) => {
+      values[field] = (cells[column] ?? '').trim();
+    });
+    rows.push(parseRow(index + 2, values, recipient));
+  });
+
+  return { rows, missingColumns };
+}
+
+// Column labels to show users when they prepare a file
+export const IMPORT_COLUMN_LABELS = IMPORT_COLUMNS.map(column => ({ label: column.label, required: column.required }));
@@ -0,0 +1,45 @@
+import { Money } from '../types/data';
+import { parseMoney } from './money';
+
+// International format: a + followed by 11-15 digits, e.g. +923001234567
+export const PHONE_PATTERN = /^\+\d{11,15}$/;
+
+export interface DonationFieldsInput {
+  amount: string;
+  benefactorName: string;
+  benefactorPhone: string;
+  receiptSerialNo?: string;
+}
+
+export type DonationFieldsValidation =
+  | { valid: true; amount: Money; receiptSerialNo?: number }
+  | { valid: false; error: string };
+
+/**
+ * Checks the typed-in fields of a donation, as entered on DonationForm or read
+ * from an import file, and parses the amount and receipt serial.
+ */
+export function validateDonationFields(input: DonationFieldsInput): DonationFieldsValidation {
+  if (!input.amount || !input.benefactorName || !input.benefactorPhone) {
+    return { valid: false, error: 'براہ کرم تمام ضروری خانے پُر کریں' };
+  }
+
+  if (!PHONE_PATTERN.test(input.benefactorPhone)) {
+    return { valid: false, error: 'براہ کرم درست فون نمبر بین الاقوامی فارمیٹ میں درج کریں، مثلاً +923001234567' };
+  }
+
+  const amount = parseMoney(input.amount);
+  if (!amount) {
+    return { valid: false, error: 'براہ کرم درست رقم درج کریں' };
+  }
+
+  let receiptSerialNo: number | undefined = undefined;
+  if (input.receiptSerialNo && input.receiptSerialNo.trim() !== '') {
+    receiptSerialNo = parseInt(input.receiptSerialNo, 10);
+    if (isNaN(receiptSerialNo)) {
+      return { valid: false, error: 'براہ کرم درست رسید سیریل نمبر درج کریں (صرف عدد)' };
+    }
+  }
+
+  return { valid: true, amount, receiptSerialNo };
+}
@@ -0,0 +1,125 @@
+import { DonationRecord, ExpenseRecord, Money } from '../types/data';
+import { BASE_CURRENCY } from './currency';
+import { formatMoneyInput, fromMinorUnits } from './money';
+import { CATEGORY_LABELS } from './receipt';
+
+export type ExportLanguage = 'en' | 'ur';
+
+// CSV amounts are written as plain decimal text, XLSX amounts as numbers the sheet can sum
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPENSE_CATEGORY_LABELS: { [key in ExpenseRecord['category']]: { en: string; ur: string } } = {
+  office_supplies: { en: 'Office supplies', ur: 'دفتری سامان' },
+  utilities: { en: 'Utilities', ur: 'بلز' },
+  rent: { en: 'Rent', ur: 'کرایہ' },
+  maintenance: { en: 'Maintenance', ur: 'مرمت' },
+  transportation: { en: 'Transportation', ur: 'نقل و حمل' },
+  meals: { en: 'Meals', ur: 'کھانا' },
+  events: { en: 'Events', ur: 'تقریبات' },
+  marketing: { en: 'Marketing', ur: 'تشہیر' },
+  equipment: { en: 'Equipment', ur: 'آلات' },
+  services: { en: 'Services', ur: 'خدمات' },
+  other: { en: 'Other', ur: 'دیگر' },
+};
+
+const YES_NO = { yes: { en: 'Yes', ur: 'ہاں' }, no: { en: 'No', ur: 'نہیں' } };
+
+// Money columns stay as minor units here; each file format writes them its own way
+type ExportValue = string | number | Money | undefined;
+
+interface ExportColumn<T> {
+  header: { en: string; ur: string };
+  value: (record: T, language: ExportLanguage) => ExportValue;
+  money?: boolean;
+}
+
+// One spreadsheet cell: text, or a number such as an amount in major units
+export type ExportCell = string | number;
+
+// Calendar day in the device's time zone, so a spreadsheet sorts and filters it as a date
+const formatExportDate = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const DONATION_COLUMNS: ExportColumn<DonationRecord>[] = [
+  { header: { en: 'Date', ur: 'تاریخ' }, value: donation => formatExportDate(donation.date) },
+  { header: { en: 'Book No.', ur: 'رسید بک نمبر' }, value: donation => donation.bookNo },
+  { header: { en: 'Receipt Serial', ur: 'رسید سیریل' }, value: donation => donation.receiptSerialNo },
+  { header: { en: 'Benefactor', ur: 'عطیہ دہندہ' }, value: donation => donation.benefactorName },
+  { header: { en: 'Phone', ur: 'فون نمبر' }, value: donation => donation.benefactorPhone },
+  { header: { en: 'Address', ur: 'پتہ' }, value: donation => donation.benefactorAddress },
+  {
+    header: { en: 'Category', ur: 'قسم' },
+    value: (donation, language) => CATEGORY_LABELS[donation.category]?.[language] ?? donation.category,
+  },
+  { header: { en: 'Amount', ur: 'رقم' }, value: donation => donation.amount, money: true },
+  { header: { en: 'Currency', ur: 'کرنسی' }, value: donation => donation.currency },
+  { header: { en: `Amount (${BASE_CURRENCY})`, ur: `رقم (${BASE_CURRENCY})` }, value: donation => donation.baseAmount, money: true },
+  { header: { en: 'Received by', ur: 'وصول کنندہ' }, value: donation => donation.recipient },
+  { header: { en: 'Description', ur: 'تفصیل' }, value: donation => donation.description },
+  {
+    header: { en: 'Voided', ur: 'منسوخ' },
+    value: (donation, language) => (donation.voidedAt ? YES_NO.yes : YES_NO.no)[language],
+  },
+  { header: { en: 'Sync Status', ur: 'مطابقت' }, value: donation => donation.syncStatus },
+  { header: { en: 'ID', ur: 'شناخت' }, value: donation => donation.id },
+];
+
+const EXPENSE_COLUMNS: ExportColumn<ExpenseRecord>[] = [
+  { header: { en: 'Date', ur: 'تاریخ' }, value: expense => formatExportDate(expense.date) },
+  { header: { en: 'Payee', ur: 'وصول کنندہ' }, value: expense => expense.payee },
+  {
+    header: { en: 'Category', ur: 'قسم' },
+    value: (expense, language) => EXPENSE_CATEGORY_LABELS[expense.category]?.[language] ?? expense.category,
+  },
+  { header: { en: 'Amount', ur: 'رقم' }, value: expense => expense.amount, money: true },
+  { header: { en: 'Currency', ur: 'کرنسی' }, value: expense => expense.currency },
+  { header: { en: `Amount (${BASE_CURRENCY})`, ur: `رقم (${BASE_CURRENCY})` }, value: expense => expense.baseAmount, money: true },
+  {
+    header: { en: 'Personal', ur: 'ذاتی' },
+    value: (expense, language) => (expense.isPersonal ? YES_NO.yes : YES_NO.no)[language],
+  },
+  { header: { en: 'Description', ur: 'تفصیل' }, value: expense => expense.description },
+  {
+    header: { en: 'Deleted', ur: 'حذف شدہ' },
+    value: (expense, language) => (expense.deletedAt ? YES_NO.yes : YES_NO.no)[language],
+  },
+  { header: { en: 'Sync Status', ur: 'مطابقت' }, value: expense => expense.syncStatus },
+  { header: { en: 'ID', ur: 'شناخت' }, value: expense => expense.id },
+];
+
+function buildRows<T>(columns: ExportColumn<T>[], records: T[], language: ExportLanguage, format: ExportFormat): ExportCell[][] {
+  const header = columns.map(column => column.header[language]);
+  const rows = records.map(record =>
+    columns.map(column => {
+      const value = column.value(record, language);
+      if (value === undefined) return '';
+      if (!column.money) return value;
+      return format === 'csv' ? formatMoneyInput(value as Money) : fromMinorUnits(value as Money);
+    })
+  );
+  return [header, ...rows];
+}
+
+// Header row followed by one row per record
+export function buildDonationRows(donations: DonationRecord[], language: ExportLanguage, format: ExportFormat): ExportCell[][] {
+  return buildRows(DONATION_COLUMNS, donations, language, format);
+}
+
+export function buildExpenseRows(expenses: ExpenseRecord[], language: ExportLanguage, format: ExportFormat): ExportCell[][] {
+  return buildRows(EXPENSE_COLUMNS, expenses, language, format);
+}
+
+const escapeCsvCell = (cell: ExportCell): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Joins rows into RFC 4180 CSV. The byte order mark makes Excel read the
+ * file as UTF-8 instead of garbling the Urdu text.
+ */
+export function toCsv(rows: ExportCell[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
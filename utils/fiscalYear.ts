@@ -0,0 +1,69 @@
+import { FiscalYearDefinition } from '../types/data';
+
+export interface FiscalYearRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, exclusive
+  label: string;
+}
+
+export const GREGORIAN_MONTHS = [
+  'جنوری', 'فروری', 'مارچ', 'اپریل', 'مئی', 'جون',
+  'جولائی', 'اگست', 'ستمبر', 'اکتوبر', 'نومبر', 'دسمبر',
+];
+
+export const HIJRI_MONTHS = [
+  'محرم', 'صفر', 'ربیع الاول', 'ربیع الثانی', 'جمادی الاول', 'جمادی الثانی',
+  'رجب', 'شعبان', 'رمضان', 'شوال', 'ذوالقعدہ', 'ذوالحجہ',
+];
+
+// Tabular (arithmetic) Islamic calendar. It can differ from the sighted or
+// Umm al-Qura calendar by a day or two, which is fine for picking a download range.
+const ISLAMIC_EPOCH = 1948439.5;
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+
+function hijriToJulianDay(year: number, month: number, day: number): number {
+  return day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + ISLAMIC_EPOCH - 1;
+}
+
+export function hijriToGregorian(year: number, month: number, day: number): Date {
+  return new Date((hijriToJulianDay(year, month, day) - UNIX_EPOCH_JD) * MS_PER_DAY);
+}
+
+export function gregorianToHijri(date: Date): { year: number; month: number; day: number } {
+  const utcMidnight = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  const jd = Math.floor(utcMidnight / MS_PER_DAY + UNIX_EPOCH_JD) + 0.5;
+  const year = Math.floor((30 * (jd - ISLAMIC_EPOCH) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jd - (29 + hijriToJulianDay(year, 1, 1))) / 29.5) + 1);
+  const day = jd - hijriToJulianDay(year, month, 1) + 1;
+  return { year, month, day };
+}
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const yearLabel = (year: number, startMonth: number, suffix = '') =>
+  startMonth === 1 ? `${year}${suffix}` : `${year}-${String((year + 1) % 100).padStart(2, '0')}${suffix}`;
+
+/**
+ * Returns the fiscal year containing `reference`, or the one `yearsBack`
+ * years before it.
+ */
+export function getFiscalYearRange(definition: FiscalYearDefinition, yearsBack = 0, reference = new Date()): FiscalYearRange {
+  if (definition.calendar === 'hijri') {
+    const today = gregorianToHijri(reference);
+    const year = (today.month >= definition.startMonth ? today.year : today.year - 1) - yearsBack;
+    return {
+      start: toDateString(hijriToGregorian(year, definition.startMonth, 1)),
+      end: toDateString(hijriToGregorian(year + 1, definition.startMonth, 1)),
+      label: yearLabel(year, definition.startMonth, 'ھ'),
+    };
+  }
+
+  const month = reference.getMonth() + 1;
+  const year = (month >= definition.startMonth ? reference.getFullYear() : reference.getFullYear() - 1) - yearsBack;
+  return {
+    start: toDateString(new Date(Date.UTC(year, definition.startMonth - 1, 1))),
+    end: toDateString(new Date(Date.UTC(year + 1, definition.startMonth - 1, 1))),
+    label: yearLabel(year, definition.startMonth),
+  };
+}
@@ -0,0 +1,55 @@
+import { CollectionPoint, Money } from '../types/data';
+import { addMoney } from './money';
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export interface CollectionCluster {
+  latitude: number; // centre of the points in the cluster
+  longitude: number;
+  count: number;
+  total: Money; // base-currency total of the converted donations
+  unconverted: number; // donations left out of total for lack of an exchange rate
+  lastDate: string; // ISO string of the latest donation
+}
+
+/**
+ * Groups collection points into square cells roughly cellSizeKm across and
+ * returns one cluster per occupied cell, busiest first.
+ */
+export function clusterCollectionPoints(points: CollectionPoint[], cellSizeKm: number): CollectionCluster[] {
+  const latitudeStep = cellSizeKm / KM_PER_DEGREE_LATITUDE;
+  const cells = new Map<string, { points: CollectionPoint[]; latitudeSum: number; longitudeSum: number }>();
+
+  for (const point of points) {
+    const row = Math.floor(point.latitude / latitudeStep);
+    // A degree of longitude gets shorter away from the equator, so widen the cell to keep it square
+    const rowLatitude = ((row + 0.5) * latitudeStep * Math.PI) / 180;
+    const longitudeStep = latitudeStep / Math.max(Math.cos(rowLatitude), 0.01);
+    const key = `${row}:${Math.floor(point.longitude / longitudeStep)}`;
+
+    const cell = cells.get(key) || { points: [], latitudeSum: 0, longitudeSum: 0 };
+    cell.points.push(point);
+    cell.latitudeSum += point.latitude;
+    cell.longitudeSum += point.longitude;
+    cells.set(key, cell);
+  }
+
+  return Array.from(cells.values())
+    .map(cell => {
+      const converted = cell.points.filter(point => point.baseAmount !== undefined);
+      return {
+        latitude: cell.latitudeSum / cell.points.length,
+        longitude: cell.longitudeSum / cell.points.length,
+        count: cell.points.length,
+        total: addMoney(...converted.map(point => point.baseAmount as Money)),
+        unconverted: cell.points.length - converted.length,
+        lastDate: cell.points.reduce((latest, point) => (point.date > latest ? point.date : latest), ''),
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+// Opens in the maps app on Android and iOS, or in the browser
+export function getMapUrl(latitude: number, longitude: number): string {
+  return `https://www.google.com/maps/search/?api=1&query=${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+}
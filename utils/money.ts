@@ -0,0 +1,50 @@
+import { Money } from '../types/data';
+
+export const MINOR_UNITS_PER_MAJOR = 100;
+
+export const ZERO_MONEY = 0 as Money;
+
+// Converts a decimal amount, as used by the API and SMS payloads, into minor units
+export function toMinorUnits(major: number): Money {
+  return Math.round(major * MINOR_UNITS_PER_MAJOR) as Money;
+}
+
+export function fromMinorUnits(amount: Money): number {
+  return amount / MINOR_UNITS_PER_MAJOR;
+}
+
+// Integer column values and SQL sums are already minor units
+export function moneyFromDB(value: number | null | undefined): Money {
+  return (value || 0) as Money;
+}
+
+export function addMoney(...amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+}
+
+export function subtractMoney(amount: Money, deduction: Money): Money {
+  return (amount - deduction) as Money;
+}
+
+/**
+ * Parses an amount typed into a form, e.g. "1,250.5", digit by digit so no
+ * floating-point rounding is involved. Returns null for anything that is not
+ * a non-negative amount with at most two decimal places.
+ */
+export function parseMoney(text: string): Money | null {
+  const match = text.trim().replace(/,/g, '').match(/^(\d*)(?:\.(\d{0,2}))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const whole = parseInt(match[1] || '0', 10);
+  const fraction = parseInt((match[2] || '').padEnd(2, '0'), 10);
+  return (whole * MINOR_UNITS_PER_MAJOR + fraction) as Money;
+}
+
+// Plain decimal text for prefilling a form input, e.g. "1250.50"
+export function formatMoneyInput(amount: Money): string {
+  return fromMinorUnits(amount).toFixed(2);
+}
+
+// Display text with grouping, e.g. "1,250.5"
+export function formatAmount(amount: Money): string {
+  return fromMinorUnits(amount).toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
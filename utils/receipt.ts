@@ -0,0 +1,187 @@
+import { DonationRecord, Money } from '../types/data';
+import { formatMoneyInput, MINOR_UNITS_PER_MAJOR } from './money';
+
+export const ORGANIZATION_NAME = { en: 'Hisaab-e-Khair', ur: 'حسابِ خیر' };
+
+export const CATEGORY_LABELS: { [key in DonationRecord['category']]: { en: string; ur: string } } = {
+  charity: { en: 'Charity', ur: 'خیرات' },
+  zakat: { en: 'Zakat', ur: 'زکٰوۃ' },
+  sadaqah: { en: 'Sadaqah', ur: 'صدقہ' },
+  other: { en: 'Other', ur: 'دیگر' },
+};
+
+const CURRENCY_NAMES: { [code: string]: { en: string; ur: string; minorEn: string; minorUr: string } } = {
+  PKR: { en: 'Rupees', ur: 'روپے', minorEn: 'Paisa', minorUr: 'پیسے' },
+};
+
+const ENGLISH_ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const ENGLISH_TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Urdu has a distinct word for every number below a hundred
+const URDU_NUMBERS = [
+  '', 'ایک', 'دو', 'تین', 'چار', 'پانچ', 'چھ', 'سات', 'آٹھ', 'نو', 'دس',
+  'گیارہ', 'بارہ', 'تیرہ', 'چودہ', 'پندرہ', 'سولہ', 'سترہ', 'اٹھارہ', 'انیس', 'بیس',
+  'اکیس', 'بائیس', 'تئیس', 'چوبیس', 'پچیس', 'چھبیس', 'ستائیس', 'اٹھائیس', 'انتیس', 'تیس',
+  'اکتیس', 'بتیس', 'تینتیس', 'چونتیس', 'پینتیس', 'چھتیس', 'سینتیس', 'اڑتیس', 'انتالیس', 'چالیس',
+  'اکتالیس', 'بیالیس', 'تینتالیس', 'چوالیس', 'پینتالیس', 'چھیالیس', 'سینتالیس', 'اڑتالیس', 'انچاس', 'پچاس',
+  'اکاون', 'باون', 'ترپن', 'چون', 'پچپن', 'چھپن', 'ستاون', 'اٹھاون', 'انسٹھ', 'ساٹھ',
+  'اکسٹھ', 'باسٹھ', 'ترسٹھ', 'چونسٹھ', 'پینسٹھ', 'چھیاسٹھ', 'سڑسٹھ', 'اڑسٹھ', 'انہتر', 'ستر',
+  'اکہتر', 'بہتر', 'تہتر', 'چوہتر', 'پچھتر', 'چھہتر', 'ستتر', 'اٹھہتر', 'اناسی', 'اسی',
+  'اکیاسی', 'بیاسی', 'تراسی', 'چوراسی', 'پچاسی', 'چھیاسی', 'ستاسی', 'اٹھاسی', 'نواسی', 'نوے',
+  'اکانوے', 'بانوے', 'ترانوے', 'چورانوے', 'پچانوے', 'چھیانوے', 'ستانوے', 'اٹھانوے', 'ننانوے',
+];
+
+// South Asian grouping: hundred, thousand, lakh (1,00,000), crore (1,00,00,000), arab
+const SCALES = [
+  { value: 1000000000, en: 'Arab', ur: 'ارب' },
+  { value: 10000000, en: 'Crore', ur: 'کروڑ' },
+  { value: 100000, en: 'Lakh', ur: 'لاکھ' },
+  { value: 1000, en: 'Thousand', ur: 'ہزار' },
+  { value: 100, en: 'Hundred', ur: 'سو' },
+];
+
+const englishBelowHundred = (n: number) =>
+  n < 20 ? ENGLISH_ONES[n] : [ENGLISH_TENS[Math.floor(n / 10)], ENGLISH_ONES[n % 10]].filter(Boolean).join('-');
+
+function integerToWords(n: number, language: 'en' | 'ur'): string {
+  if (n === 0) return language === 'en' ? 'Zero' : 'صفر';
+
+  const words: string[] = [];
+  let remaining = n;
+  for (const scale of SCALES) {
+    const count = Math.floor(remaining / scale.value);
+    if (count > 0) {
+      words.push(integerToWords(count, language), scale[language]);
+      remaining %= scale.value;
+    }
+  }
+  if (remaining > 0) {
+    words.push(language === 'en' ? englishBelowHundred(remaining) : URDU_NUMBERS[remaining]);
+  }
+  return words.join(' ');
+}
+
+/**
+ * Spells out an amount for the receipt, e.g. 125050 paisa in PKR becomes
+ * "One Thousand Two Hundred Fifty Rupees and Fifty Paisa Only".
+ */
+export function amountInWords(amount: Money, currency: string, language: 'en' | 'ur'): string {
+  const names = CURRENCY_NAMES[currency];
+  const whole = Math.floor(Math.abs(amount) / MINOR_UNITS_PER_MAJOR);
+  const fraction = Math.abs(amount) % MINOR_UNITS_PER_MAJOR;
+  const majorName = names ? names[language] : currency;
+
+  if (language === 'en') {
+    const minor = fraction > 0 ? ` and ${integerToWords(fraction, 'en')} ${names?.minorEn ?? 'Cents'}` : '';
+    return `${integerToWords(whole, 'en')} ${majorName}${minor} Only`;
+  }
+  const minor = fraction > 0 ? ` اور ${integerToWords(fraction, 'ur')} ${names?.minorUr ?? 'سینٹ'}` : '';
+  return `${integerToWords(whole, 'ur')} ${majorName}${minor} صرف`;
+}
+
+export interface ReceiptRow {
+  en: string;
+  ur: string;
+  value: string;
+}
+
+export interface ReceiptContent {
+  title: { en: string; ur: string };
+  receiptNumber: string;
+  amount: string;
+  amountInWords: { en: string; ur: string };
+  rows: ReceiptRow[];
+  voided: boolean;
+}
+
+// Everything the receipt shows, shared by the on-screen view and the PDF
+export function buildReceiptContent(donation: DonationRecord): ReceiptContent {
+  const category = CATEGORY_LABELS[donation.category] ?? { en: donation.category, ur: donation.category };
+  const receiptNumber = [donation.bookNo, donation.receiptSerialNo].filter(value => value !== undefined && value !== '').join('-');
+
+  const rows: ReceiptRow[] = [
+    { en: 'Receipt No.', ur: 'رسید نمبر', value: receiptNumber || donation.id.slice(0, 8).toUpperCase() },
+    { en: 'Date', ur: 'تاریخ', value: new Date(donation.date).toLocaleDateString() },
+    { en: 'Received from', ur: 'منجانب', value: donation.benefactorName },
+    { en: 'Phone', ur: 'فون نمبر', value: donation.benefactorPhone },
+    { en: 'Category', ur: 'قسم', value: `${category.en} / ${category.ur}` },
+    { en: 'Received by', ur: 'وصول کنندہ', value: donation.recipient },
+  ];
+  if (donation.benefactorAddress) {
+    rows.splice(4, 0, { en: 'Address', ur: 'پتہ', value: donation.benefactorAddress });
+  }
+  if (donation.description) {
+    rows.push({ en: 'Description', ur: 'تفصیل', value: donation.description });
+  }
+
+  return {
+    title: { en: 'Donation Receipt', ur: 'رسید عطیہ' },
+    receiptNumber,
+    amount: `${donation.currency} ${formatMoneyInput(donation.amount)}`,
+    amountInWords: {
+      en: amountInWords(donation.amount, donation.currency, 'en'),
+      ur: amountInWords(donation.amount, donation.currency, 'ur'),
+    },
+    rows,
+    voided: !!donation.voidedAt,
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Printable HTML version of the receipt; logoDataUri is an inlined image
+export function renderReceiptHtml(content: ReceiptContent, logoDataUri?: string): string {
+  const rows = content.rows
+    .map(row => `
+      <tr>
+        <td class="en">${escapeHtml(row.en)}</td>
+        <td class="value">${escapeHtml(row.value)}</td>
+        <td class="ur">${escapeHtml(row.ur)}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>
+    body { font-family: sans-serif; margin: 24px; color: #222; }
+    .receipt { border: 2px solid #007AFF; border-radius: 12px; padding: 24px; position: relative; }
+    .header { text-align: center; margin-bottom: 16px; }
+    .header img { width: 80px; height: 80px; }
+    .org { font-size: 22px; font-weight: bold; margin: 8px 0 0; }
+    .title { font-size: 16px; color: #555; margin: 4px 0 0; }
+    .amount { text-align: center; font-size: 28px; font-weight: bold; color: #007AFF; margin: 16px 0 4px; }
+    .words { text-align: center; font-size: 13px; color: #444; margin: 2px 0; }
+    .words.ur { direction: rtl; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    td { padding: 8px 4px; border-bottom: 1px solid #eee; font-size: 14px; vertical-align: top; }
+    td.en { color: #666; width: 28%; }
+    td.ur { color: #666; width: 28%; text-align: right; direction: rtl; }
+    td.value { text-align: center; font-weight: 500; }
+    .void { position: absolute; top: 40%; left: 0; right: 0; text-align: center; font-size: 64px; color: rgba(244, 67, 54, 0.3); transform: rotate(-20deg); }
+    .footer { text-align: center; font-size: 12px; color: #888; margin-top: 24px; }
+  </style>
+</head>
+<body>
+  <div class="receipt">
+    <div class="header">
+      ${logoDataUri ? `<img src="${logoDataUri}" />` : ''}
+      <p class="org">${escapeHtml(ORGANIZATION_NAME.ur)} &middot; ${escapeHtml(ORGANIZATION_NAME.en)}</p>
+      <p class="title">${escapeHtml(content.title.ur)} &middot; ${escapeHtml(content.title.en)}</p>
+    </div>
+    <p class="amount">${escapeHtml(content.amount)}</p>
+    <p class="words">${escapeHtml(content.amountInWords.en)}</p>
+    <p class="words ur">${escapeHtml(content.amountInWords.ur)}</p>
+    <table>${rows}</table>
+    ${content.voided ? '<div class="void">VOID / منسوخ</div>' : ''}
+    <p class="footer">جزاک اللہ خیر &middot; Thank you for your donation</p>
+  </div>
+</body>
+</html>`;
+}
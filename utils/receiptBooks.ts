@@ -0,0 +1,103 @@
+import { ReceiptBook, ReceiptBookReconciliation } from '../types/data';
+
+export interface RecordedSerial {
+  donationId: string;
+  serial: number;
+  voided: boolean;
+}
+
+export type ReceiptSerialWarning =
+  | { type: 'duplicate'; serial: number }
+  | { type: 'skipped'; skipped: number[] }
+  | { type: 'out_of_range'; book: ReceiptBook }
+  | { type: 'closed'; book: ReceiptBook }
+  | { type: 'unknown_book'; bookNo: string };
+
+const range = (from: number, to: number) =>
+  Array.from({ length: Math.max(0, to - from + 1) }, (_, index) => from + index);
+
+export function reconcileReceiptBook(book: ReceiptBook, serials: RecordedSerial[]): ReceiptBookReconciliation {
+  const counts = new Map<number, number>();
+  for (const { serial } of serials) {
+    counts.set(serial, (counts.get(serial) || 0) + 1);
+  }
+
+  const inRange = (serial: number) => serial >= book.startSerial && serial <= book.endSerial;
+  const used = [...counts.keys()].filter(inRange).sort((a, b) => a - b);
+  const highest = used.length > 0 ? used[used.length - 1] : book.startSerial - 1;
+
+  return {
+    book,
+    used,
+    voided: [...new Set(serials.filter(item => item.voided).map(item => item.serial))].sort((a, b) => a - b),
+    missing: range(book.startSerial, highest).filter(serial => !counts.has(serial)),
+    duplicates: [...counts.entries()].filter(([, count]) => count > 1).map(([serial]) => serial).sort((a, b) => a - b),
+    outOfRange: [...counts.keys()].filter(serial => !inRange(serial)).sort((a, b) => a - b),
+    nextSerial: highest < book.endSerial ? highest + 1 : null,
+  };
+}
+
+/**
+ * Checks a serial about to be saved on a donation. Warnings do not block the
+ * save; the collector confirms them, since paper receipts do get spoiled or
+ * written out of order.
+ */
+export function checkReceiptSerial(
+  book: ReceiptBook | null,
+  bookNo: string,
+  serials: RecordedSerial[],
+  serial: number,
+  donationId?: string
+): ReceiptSerialWarning[] {
+  if (!book) return [{ type: 'unknown_book', bookNo }];
+
+  const warnings: ReceiptSerialWarning[] = [];
+  const others = serials.filter(item => item.donationId !== donationId);
+
+  if (others.some(item => item.serial === serial)) {
+    warnings.push({ type: 'duplicate', serial });
+  }
+  if (serial < book.startSerial || serial > book.endSerial) {
+    warnings.push({ type: 'out_of_range', book });
+  } else {
+    const used = new Set(others.map(item => item.serial));
+    const highest = Math.max(book.startSerial - 1, ...others.map(item => item.serial).filter(value => value < serial));
+    const skipped = range(highest + 1, serial - 1).filter(value => !used.has(value));
+    if (skipped.length > 0) {
+      warnings.push({ type: 'skipped', skipped });
+    }
+  }
+  if (book.closedAt) {
+    warnings.push({ type: 'closed', book });
+  }
+  return warnings;
+}
+
+// Shortens long serial lists, e.g. 1-5, 8, 10-12
+export function formatSerialList(serials: number[]): string {
+  const parts: string[] = [];
+  let start = serials[0];
+  for (let index = 1; index <= serials.length; index++) {
+    if (serials[index] !== serials[index - 1] + 1) {
+      const end = serials[index - 1];
+      parts.push(start === end ? String(start) : `${start}-${end}`);
+      start = serials[index];
+    }
+  }
+  return parts.join('، ');
+}
+
+export function describeReceiptSerialWarning(warning: ReceiptSerialWarning): string {
+  switch (warning.type) {
+    case 'duplicate':
+      return `سیریل نمبر ${warning.serial} پہلے ہی کسی دوسرے عطیہ پر درج ہے`;
+    case 'skipped':
+      return `سیریل نمبر ${formatSerialList(warning.skipped)} چھوڑ دیے گئے ہیں`;
+    case 'out_of_range':
+      return `یہ سیریل نمبر رسید بک ${warning.book.bookNo} (${warning.book.startSerial} تا ${warning.book.endSerial}) میں شامل نہیں`;
+    case 'closed':
+      return `رسید بک ${warning.book.bookNo} بند ہو چکی ہے`;
+    case 'unknown_book':
+      return `رسید بک ${warning.bookNo} جاری نہیں کی گئی`;
+  }
+}
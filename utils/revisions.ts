@@ -0,0 +1,72 @@
+import { DonationRecord, ExpenseRecord, FieldChanges, Money } from '../types/data';
+import { formatAmount } from './money';
+
+const DATE_FIELDS = new Set(['date', 'voidedAt', 'deletedAt']);
+
+export const DONATION_FIELD_LABELS: { [key in keyof DonationRecord]?: string } = {
+  amount: 'رقم',
+  currency: 'کرنسی',
+  benefactorName: 'نام',
+  benefactorPhone: 'فون نمبر',
+  benefactorAddress: 'پتہ',
+  category: 'قسم',
+  description: 'تفصیل',
+  date: 'تاریخ',
+  bookNo: 'رسیدبک نمبر',
+  receiptSerialNo: 'رسید سیریل نمبر',
+  receiptImage: 'رسید کی تصویر',
+  voidedAt: 'منسوخی',
+};
+
+export const EXPENSE_FIELD_LABELS: { [key in keyof ExpenseRecord]?: string } = {
+  amount: 'رقم',
+  currency: 'کرنسی',
+  category: 'قسم',
+  description: 'تفصیل',
+  date: 'تاریخ',
+  isPersonal: 'ذاتی',
+  receiptImage: 'بل کی تصویر',
+  deletedAt: 'حذف',
+};
+
+/**
+ * The fields of changes that differ from existing, as the old and new values
+ * a revision records. A field being cleared is kept as null, so it still
+ * appears in the revision. Returns null when nothing changes.
+ */
+export function diffFields<T extends object>(
+  existing: T,
+  changes: Partial<T>
+): { oldValue: FieldChanges<T>; newValue: FieldChanges<T> } | null {
+  const oldValue: FieldChanges<T> = {};
+  const newValue: FieldChanges<T> = {};
+  for (const key of Object.keys(changes) as (keyof T)[]) {
+    if (JSON.stringify(changes[key]) !== JSON.stringify(existing[key])) {
+      oldValue[key] = existing[key] ?? null;
+      newValue[key] = changes[key] ?? null;
+    }
+  }
+  return Object.keys(newValue).length > 0 ? { oldValue, newValue } : null;
+}
+
+export function formatRevisionValue(key: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (DATE_FIELDS.has(key)) return new Date(String(value)).toLocaleDateString();
+  if (key === 'amount' && typeof value === 'number') return formatAmount(value as Money);
+  if (key === 'receiptImage') return '📎';
+  if (typeof value === 'boolean') return value ? 'ہاں' : 'نہیں';
+  return String(value);
+}
+
+// One line per changed field, for a revision history
+export function describeRevisionChanges<T extends object>(
+  revision: { oldValue: FieldChanges<T>; newValue: FieldChanges<T> },
+  labels: { [key in keyof T]?: string }
+): { key: string; label: string; from: string; to: string }[] {
+  return (Object.keys(revision.newValue) as (keyof T & string)[]).map(key => ({
+    key,
+    label: labels[key] || key,
+    from: formatRevisionValue(key, revision.oldValue[key]),
+    to: formatRevisionValue(key, revision.newValue[key]),
+  }));
+}
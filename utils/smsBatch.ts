@@ -0,0 +1,165 @@
+import * as CryptoJS from 'crypto-js';
+import { DonationRecord, Money } from '../types/data';
+import { BASE_CURRENCY } from './currency';
+
+export const SMS_BATCH_PREFIX = 'HK:BATCH:';
+
+// Three concatenated GSM-7 segments. Base64 only uses GSM-7 characters, so a
+// message this long is delivered as a single multipart SMS.
+export const MAX_SMS_LENGTH = 459;
+
+// The first 12 bytes of the HMAC-SHA256, as 16 Base64 characters
+const SIGNATURE_BYTES = 12;
+const SIGNATURE_LENGTH = 16;
+
+// ASCII unit and record separators, which typed text never contains
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+const CATEGORY_CODES: { [key in DonationRecord['category']]: string } = {
+  charity: 'c',
+  zakat: 'z',
+  sadaqah: 's',
+  other: 'o',
+};
+
+export type SmsDonationFields = Pick<
+  DonationRecord,
+  'id' | 'amount' | 'currency' | 'benefactorName' | 'benefactorPhone' | 'benefactorAddress' |
+  'recipient' | 'category' | 'description' | 'bookNo' | 'receiptSerialNo' | 'date'
+>;
+
+export interface DecodedSmsBatch {
+  username: string;
+  timestamp: string;
+  signature: string; // checked with verifySmsBatch once the username's signing key is known
+  donations: SmsDonationFields[];
+}
+
+const clean = (text?: string) => (text ?? '').replaceAll(FIELD_SEPARATOR, ' ').replaceAll(RECORD_SEPARATOR, ' ');
+
+const toTime36 = (iso: string) => new Date(iso).getTime().toString(36);
+const fromTime36 = (value: string) => new Date(parseInt(value, 36)).toISOString();
+
+function sign(body: string, signingKey: string): string {
+  const mac = CryptoJS.HmacSHA256(body, signingKey);
+  return CryptoJS.lib.WordArray.create(mac.words.slice(0, SIGNATURE_BYTES / 4), SIGNATURE_BYTES).toString(CryptoJS.enc.Base64);
+}
+
+// Positional fields, the optional ones last so empty trailing fields can be dropped
+function encodeDonation(donation: SmsDonationFields): string {
+  const fields = [
+    donation.id,
+    toTime36(donation.date),
+    String(donation.amount), // minor units
+    CATEGORY_CODES[donation.category],
+    clean(donation.benefactorName),
+    clean(donation.benefactorPhone),
+    clean(donation.recipient),
+    donation.currency === BASE_CURRENCY ? '' : clean(donation.currency),
+    donation.receiptSerialNo !== undefined ? String(donation.receiptSerialNo) : '',
+    clean(donation.bookNo),
+    clean(donation.benefactorAddress),
+    clean(donation.description),
+  ];
+  while (fields[fields.length - 1] === '') fields.pop();
+  return fields.join(FIELD_SEPARATOR);
+}
+
+function decodeDonation(record: string): SmsDonationFields | null {
+  const [id, date, amount, category, name, phone, recipient, currency, serial, bookNo, address, description] =
+    record.split(FIELD_SEPARATOR);
+  const categoryName = (Object.keys(CATEGORY_CODES) as DonationRecord['category'][])
+    .find(key => CATEGORY_CODES[key] === category);
+  if (!id || !date || !amount || !categoryName) return null;
+  return {
+    id,
+    date: fromTime36(date),
+    amount: parseInt(amount, 10) as Money,
+    category: categoryName,
+    benefactorName: name ?? '',
+    benefactorPhone: phone ?? '',
+    recipient: recipient ?? '',
+    currency: currency || BASE_CURRENCY,
+    receiptSerialNo: serial ? parseInt(serial, 10) : undefined,
+    bookNo: bookNo || undefined,
+    benefactorAddress: address || undefined,
+    description: description || undefined,
+  };
+}
+
+// The username and send time, then one record per donation; the signature covers all of it
+function encodeMessage(records: string[], header: string, signingKey: string): string {
+  const body = [header, ...records].join(RECORD_SEPARATOR);
+  return SMS_BATCH_PREFIX + sign(body, signingKey) + CryptoJS.enc.Base64.stringify(CryptoJS.enc.Utf8.parse(body));
+}
+
+/**
+ * Packs donations into as few self-contained `HK:BATCH:` messages as possible,
+ * each within maxLength. A donation too large for one message on its own is
+ * still sent alone rather than split.
+ */
+export function encodeSmsBatches(
+  donations: SmsDonationFields[],
+  username: string,
+  signingKey: string,
+  maxLength = MAX_SMS_LENGTH
+): { message: string; recordIds: string[] }[] {
+  const header = [clean(username), Date.now().toString(36)].join(FIELD_SEPARATOR);
+  const messages: { message: string; recordIds: string[] }[] = [];
+  let group: { id: string; record: string }[] = [];
+  let groupMessage = '';
+
+  for (const donation of donations) {
+    const item = { id: donation.id, record: encodeDonation(donation) };
+    const candidate = encodeMessage([...group, item].map(entry => entry.record), header, signingKey);
+    if (candidate.length > maxLength && group.length > 0) {
+      messages.push({ message: groupMessage, recordIds: group.map(entry => entry.id) });
+      group = [item];
+      groupMessage = encodeMessage([item.record], header, signingKey);
+    } else {
+      group.push(item);
+      groupMessage = candidate;
+    }
+  }
+  if (group.length > 0) {
+    messages.push({ message: groupMessage, recordIds: group.map(entry => entry.id) });
+  }
+  return messages;
+}
+
+// Splits a message into its signature and signed body, or null for anything else
+function splitMessage(message: string): { signature: string; body: string } | null {
+  if (!message.startsWith(SMS_BATCH_PREFIX)) return null;
+  try {
+    return {
+      signature: message.slice(SMS_BATCH_PREFIX.length, SMS_BATCH_PREFIX.length + SIGNATURE_LENGTH),
+      body: CryptoJS.enc.Base64.parse(message.slice(SMS_BATCH_PREFIX.length + SIGNATURE_LENGTH)).toString(CryptoJS.enc.Utf8),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Reverses encodeSmsBatches for a single message. Returns null for anything else. */
+export function decodeSmsBatch(message: string): DecodedSmsBatch | null {
+  const parts = splitMessage(message);
+  if (!parts) return null;
+
+  const [header, ...records] = parts.body.split(RECORD_SEPARATOR);
+  const [username, timestamp] = header.split(FIELD_SEPARATOR);
+  const donations = records.map(decodeDonation);
+  if (!username || !timestamp || donations.some(donation => !donation)) return null;
+  return {
+    username,
+    timestamp: fromTime36(timestamp),
+    signature: parts.signature,
+    donations: donations.filter((donation): donation is SmsDonationFields => donation !== null),
+  };
+}
+
+// Whether the message was signed with the signing key of the username it carries
+export function verifySmsBatch(message: string, signingKey: string): boolean {
+  const parts = splitMessage(message);
+  return parts !== null && sign(parts.body, signingKey) === parts.signature;
+}
@@ -0,0 +1,31 @@
+import { DonationRecord } from '../types/data';
+import { formatMoney } from './currency';
+import { CATEGORY_LABELS, ORGANIZATION_NAME } from './receipt';
+
+export type MessageLanguage = 'ur' | 'en';
+
+// Thank-you text sent to the benefactor after a donation is recorded
+export function buildThankYouMessage(donation: DonationRecord, language: MessageLanguage): string {
+  const category = CATEGORY_LABELS[donation.category]?.[language] ?? donation.category;
+  const amount = formatMoney(donation.amount, donation.currency);
+  const date = new Date(donation.date).toLocaleDateString();
+  const receiptNumber = [donation.bookNo, donation.receiptSerialNo].filter(value => value !== undefined && value !== '').join('-');
+
+  if (language === 'en') {
+    return [
+      `Dear ${donation.benefactorName},`,
+      `Thank you for your ${category.toLowerCase()} donation of ${amount} on ${date}.`,
+      receiptNumber ? `Receipt No: ${receiptNumber}` : '',
+      `Received by: ${donation.recipient}`,
+      `May Allah reward you. - ${ORGANIZATION_NAME.en}`,
+    ].filter(Boolean).join('\n');
+  }
+
+  return [
+    `محترم ${donation.benefactorName}،`,
+    `آپ کا ${date} کو ${category} کی مد میں ${amount} کا عطیہ وصول ہوا۔ بہت شکریہ!`,
+    receiptNumber ? `رسید نمبر: ${receiptNumber}` : '',
+    `وصول کنندہ: ${donation.recipient}`,
+    `جزاک اللہ خیر۔ - ${ORGANIZATION_NAME.ur}`,
+  ].filter(Boolean).join('\n');
+}
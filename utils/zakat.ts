@@ -0,0 +1,43 @@
+export const ZAKAT_RATE = 0.025;
+export const GRAMS_PER_TOLA = 11.664;
+
+// Nisab is 7.5 tola of gold or 52.5 tola of silver
+export const NISAB_GRAMS = {
+  gold: 87.48,
+  silver: 612.36,
+};
+
+export interface ZakatInput {
+  cash: number; // cash in hand and bank balances
+  goldValue: number;
+  silverValue: number;
+  businessAssets: number; // trade goods and receivables
+  liabilities: number; // debts due now
+  nisab: number; // threshold in the same currency
+}
+
+export interface ZakatResult {
+  totalAssets: number;
+  netAssets: number;
+  nisab: number;
+  meetsNisab: boolean;
+  zakatDue: number;
+}
+
+export function calculateZakat(input: ZakatInput): ZakatResult {
+  const totalAssets = input.cash + input.goldValue + input.silverValue + input.businessAssets;
+  const netAssets = Math.max(0, totalAssets - input.liabilities);
+  const meetsNisab = input.nisab > 0 && netAssets >= input.nisab;
+  return {
+    totalAssets,
+    netAssets,
+    nisab: input.nisab,
+    meetsNisab,
+    zakatDue: meetsNisab ? Math.round(netAssets * ZAKAT_RATE * 100) / 100 : 0,
+  };
+}
+
+// Nisab value for a metal price given per gram
+export function nisabFromPrice(metal: keyof typeof NISAB_GRAMS, pricePerGram: number): number {
+  return Math.round(NISAB_GRAMS[metal] * pricePerGram * 100) / 100;
+}